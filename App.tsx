@@ -1,12 +1,45 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { Task, ViewMode, QUOTES, TaskType, Category } from './types';
-import { getLocalISO, parseLocalDate, shouldShowTask } from './utils';
+import { Task, ViewMode, QUOTES, TaskType, Category, EditScope, EDIT_SCOPES, CompletionRecord } from './types';
+import { getLocalISO, getLocalDateTime, parseLocalDate, shouldShowTask, downloadFile, addDays, getWeekStart } from './utils';
+import { getRecurrenceRule, nextOccurrence } from './recurrence';
+import { createTaskRepository, createFallbackRepository, TaskRepository } from './storage';
+import { exportICalendar, parseICalendar } from './ical';
+import { createTabChannel, electLeader, mergeTaskLists, TabChannel } from './tabSync';
+import { createSyncEngine, readSyncConfig, writeSyncConfig, SyncConfig, SyncEngine } from './sync';
+import { createBackup, readSettings, parseBackup, diffBackup, applyBackup, ParsedBackup, ImportMode } from './backup';
+import { resolveOccurrence, diffTask, changesSchedule, applySeriesEdit, applySeriesDelete, moveOccurrence, rescheduleOccurrence } from './series';
 import Sidebar from './components/Sidebar';
 import TaskList, { EditTaskModal } from './components/TaskList';
 import AddTask from './components/AddTask';
 import History from './components/History';
-import { Menu, Moon, Sun, Home, CalendarDays, BarChart2, Sunrise, Bell, RotateCcw, CheckCircle2, Clock } from 'lucide-react';
-import confetti from 'https://esm.sh/canvas-confetti@1.9.2';
+import ImportModal from './components/ImportModal';
+import AlarmOverlay from './components/AlarmOverlay';
+import MissedReminders from './components/MissedReminders';
+import AlertLogPanel from './components/AlertLogPanel';
+import { ActiveAlert, AlertLogEntry, AlertOutcome, appendAlertLog, resolveAlertLog, readAlertLog, clearAlertLog, toLogEntry } from './alertLog';
+import { buildReminderSchedule, dueReminders, describeOffset, ReminderSchedule, ScheduledReminder } from './reminders';
+import SyncModal, { SyncStatus } from './components/SyncModal';
+import AlarmSettingsModal from './components/AlarmSettingsModal';
+import Timeline from './components/Timeline';
+import WeekBoard from './components/WeekBoard';
+import { DEFAULT_DURATION } from './timeline';
+import QuietHoursModal from './components/QuietHoursModal';
+import CategoriesModal from './components/CategoriesModal';
+import HabitStatsModal from './components/HabitStatsModal';
+import SearchView from './components/SearchView';
+import { SearchFilter, SmartList, EMPTY_FILTER, readSmartLists, writeSmartLists, allTags, SMART_LISTS_KEY } from './search';
+import { DaySort, DAY_SORT_KEY, readDaySort, writeDaySort, sortForDay, hasDayOrder, setDayOrder, clearDayOrder, setDefaultOrder } from './dayOrder';
+import UndoHistoryPanel from './components/UndoHistoryPanel';
+import { createHistoryEntry, diffCategories, pushEntry, stepHistory, EMPTY_HISTORY, UndoHistory } from './undoHistory';
+import { readQuietSettings, quietStateAt, breaksThrough, readDndUntil, writeDndUntil, readDelayedReminders, writeDelayedReminders, QuietMode, DND_KEY, DND_DURATION_MS, QUIET_SETTINGS_KEY } from './quietHours';
+import { CategoryDef, readCategories, parseCategories, writeCategories, withUsedCategories, mergeCategoryTasks, mergeCategoryLists, defaultCategoryId, CATEGORIES_KEY } from './categories';
+import { toggleSubtask, checkedSubtasks, taskProgress, PARTIAL_PROGRESS_KEY } from './subtasks';
+import { toggleQuantity, completeQuantity, adjustAmount } from './quantity';
+import { stampCompletions, withCompletionRecord } from './completionLog';
+import { getAudioContext, startAlarm, readAlarmSettings, soundForCategory, ALARM_SETTINGS_KEY } from './alarmSound';
+import { requestNotificationPermission, showAlertNotification, onNotificationAction, takeLaunchAction, NotificationActionMessage, NOTIFICATION_SNOOZE_MINUTES } from './notifications';
+import { Menu, Moon, Sun, Home, CalendarDays, CalendarClock, BarChart2, Sunrise, RotateCcw, RotateCw, CheckCircle2, Clock, BellRing, BellOff, BellDot, Search, ListFilter, History as HistoryIcon, AlertTriangle } from 'lucide-react';
+import confetti from 'canvas-confetti';
 
 // --- Web Worker for Precision Timing (Background Reliability) ---
 const createWorker = () => {
@@ -38,69 +71,15 @@ const createWorker = () => {
     return new Worker(URL.createObjectURL(blob));
 };
 
-// --- Audio Engine ---
-let audioCtx: AudioContext | null = null;
-
-const initAudio = () => {
-    if (!audioCtx) {
-        audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-    if (audioCtx.state === 'suspended') {
-        audioCtx.resume().catch(e => console.log("Audio resume failed", e));
-    }
-    return audioCtx;
-};
-
-const startAlarmSound = () => {
-    const ctx = initAudio();
-    if (!ctx) return () => {};
-
-    let currentOsc: OscillatorNode | null = null;
-    let currentGain: GainNode | null = null;
-    let intervalId: any;
-
-    const playCycle = () => {
-        if (ctx.state === 'suspended') ctx.resume().catch(() => {});
-        
-        const t = ctx.currentTime;
-        const osc = ctx.createOscillator();
-        const gain = ctx.createGain();
-        
-        currentOsc = osc;
-        currentGain = gain;
-        
-        osc.connect(gain);
-        gain.connect(ctx.destination);
-        
-        osc.type = 'square';
-        
-        // Pattern: High-Low-High
-        osc.frequency.setValueAtTime(880, t);
-        gain.gain.setValueAtTime(0.1, t);
-        gain.gain.linearRampToValueAtTime(0.1, t + 0.1);
-        gain.gain.linearRampToValueAtTime(0, t + 0.2);
+// --- Reminder Timing ---
+const SCHEDULE_HORIZON_MS = 24 * 60 * 60000;
+const CATCH_UP_MS = 24 * 60 * 60000; // How far back missed reminders are still reported
+const MISSED_AFTER_MS = 60000; // Reminders later than this are listed as missed instead of ringing
+const LAST_CHECK_KEY = 'moti_last_alarm_check'; // Shared by tabs and reloads
 
-        osc.frequency.setValueAtTime(440, t + 0.2);
-        gain.gain.setValueAtTime(0.1, t + 0.2);
-        gain.gain.linearRampToValueAtTime(0, t + 0.4);
-
-        osc.frequency.setValueAtTime(880, t + 0.4);
-        gain.gain.setValueAtTime(0.1, t + 0.4);
-        gain.gain.linearRampToValueAtTime(0, t + 0.4);
-
-        osc.start(t);
-        osc.stop(t + 1.0);
-    };
-
-    playCycle();
-    intervalId = setInterval(playCycle, 2000);
-
-    return () => {
-        clearInterval(intervalId);
-        if (currentOsc) { try { currentOsc.stop(); currentOsc.disconnect(); } catch(e){} }
-        if (currentGain) { try { currentGain.disconnect(); } catch(e){} }
-    };
-};
+// --- Device Sync Timing ---
+const SYNC_INTERVAL_MS = 30000;
+const SYNC_DEBOUNCE_MS = 2000; // Local edits are pushed shortly after they settle
 
 const App: React.FC = () => {
     // --- State ---
@@ -112,9 +91,34 @@ const App: React.FC = () => {
     const [historyDrilldownDate, setHistoryDrilldownDate] = useState<string | null>(null);
     const [deleteModalId, setDeleteModalId] = useState<number | null>(null);
     const [moveModalId, setMoveModalId] = useState<number | null>(null); 
-    const [activeAlert, setActiveAlert] = useState<Task | null>(null);
+    const [activeAlerts, setActiveAlerts] = useState<ActiveAlert[]>([]);
+    const [alertLog, setAlertLog] = useState<AlertLogEntry[] | null>(null); // Set while the log panel is open
+    const [missedReminders, setMissedReminders] = useState<ScheduledReminder[]>([]);
+    const [heldAlerts, setHeldAlerts] = useState<ActiveAlert[]>([]); // Fired during badge-only quiet hours
+    const [dndUntil, setDndUntil] = useState(() => readDndUntil());
+    const [isQuietHoursOpen, setIsQuietHoursOpen] = useState(false);
+    const [categories, setCategories] = useState<CategoryDef[]>(() => readCategories());
+    const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+    const [searchFilter, setSearchFilter] = useState<SearchFilter>(EMPTY_FILTER);
+    const [smartLists, setSmartLists] = useState<SmartList[]>(() => readSmartLists());
+    const [activeListId, setActiveListId] = useState<string | null>(null);
+    const [daySort, setDaySort] = useState<DaySort>(() => readDaySort());
+    const [statsTaskId, setStatsTaskId] = useState<number | null>(null);
+    const [countPartialProgress, setCountPartialProgress] = useState(() => localStorage.getItem(PARTIAL_PROGRESS_KEY) === 'on');
     const [editingTask, setEditingTask] = useState<Task | null>(null);
-    const [undoAction, setUndoAction] = useState<{ label: string, handler: () => void } | null>(null);
+    const [editingDate, setEditingDate] = useState<string>(getLocalISO());
+    const [pendingImport, setPendingImport] = useState<(ParsedBackup & { fileName: string, isCalendar: boolean }) | null>(null);
+    const [pendingEdit, setPendingEdit] = useState<{ original: Task, changes: Partial<Task>, date: string } | null>(null);
+    const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(() => readSyncConfig());
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'idle', pending: 0 });
+    const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+    const [isAlarmSettingsOpen, setIsAlarmSettingsOpen] = useState(false);
+    const [isLeaderTab, setIsLeaderTab] = useState(false);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+    const [historyToast, setHistoryToast] = useState<{ label: string, canRedo: boolean } | null>(null);
+    const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
     
     // Swipe State
     const [touchStart, setTouchStart] = useState<number | null>(null);
@@ -126,24 +130,95 @@ const App: React.FC = () => {
     const prevPercentageRef = useRef(0);
     const workerRef = useRef<Worker | null>(null);
     const tasksRef = useRef(tasks); 
-    const undoTimeoutRef = useRef<any>(null);
+    const toastTimeoutRef = useRef<any>(null);
+    const undoHistoryRef = useRef(undoHistory);
+    undoHistoryRef.current = undoHistory;
+    const repositoryRef = useRef<TaskRepository | null>(null);
+    const channelRef = useRef<TabChannel | null>(null);
+    const syncBaseRef = useRef<Task[]>([]); // Last task list shared with the other tabs
+    const quietTasksRef = useRef<Task[] | null>(null); // Loaded or received state that must not be echoed back
+    const isAlarmLeaderRef = useRef(false);
+    const isLoadedRef = useRef(false); // Alarms wait for stored tasks and their schedule
+    const scheduleRef = useRef<ReminderSchedule>({ from: 0, until: 0, reminders: [] });
+    const syncEngineRef = useRef<SyncEngine | null>(null);
+    const syncSoonRef = useRef<any>(null);
+    const syncRunsRef = useRef(0); // runSync calls still waiting on the engine
 
-    // Keep tasks ref synced
+    // Keep tasks ref synced, persist once the initial load has finished and tell other tabs
     useEffect(() => {
         tasksRef.current = tasks;
-        localStorage.setItem('pro_tasks', JSON.stringify(tasks));
+        scheduleRef.current = buildReminderSchedule(tasks, Date.now() - CATCH_UP_MS, Date.now() + SCHEDULE_HORIZON_MS);
+        if (!repositoryRef.current) return;
+        repositoryRef.current.save(tasks).catch(e => console.warn("Saving tasks failed", e));
+        if (tasks !== quietTasksRef.current && channelRef.current) {
+            channelRef.current.post({ type: 'tasks', from: channelRef.current.tabId, tasks });
+            syncBaseRef.current = tasks;
+        }
+        const engine = syncEngineRef.current;
+        if (engine) {
+            engine.track(tasks);
+            const pending = engine.pendingCount();
+            const saveError = engine.saveError() ?? undefined;
+            setSyncStatus(s => s.pending === pending && s.saveError === saveError ? s : { ...s, pending, saveError });
+            if (pending) {
+                clearTimeout(syncSoonRef.current);
+                syncSoonRef.current = setTimeout(() => runSyncRef.current(), SYNC_DEBOUNCE_MS);
+            }
+        }
     }, [tasks]);
 
+    // Declared after the effect above so the schedule is rebuilt from the loaded tasks first
+    useEffect(() => {
+        isLoadedRef.current = isLoaded;
+    }, [isLoaded]);
+
+    const applyRemoteTasks = (remote: Task[]) => {
+        const merged = mergeTaskLists(syncBaseRef.current, tasksRef.current, remote);
+        syncBaseRef.current = remote;
+        // Only a merge that kept local edits needs to go back out to the other tabs
+        const next = JSON.stringify(merged) === JSON.stringify(remote) ? remote : merged;
+        if (next === remote) quietTasksRef.current = remote;
+        tasksRef.current = next;
+        setTasks(next);
+    };
+
     // --- Initialization ---
     useEffect(() => {
-        const storedTasks = localStorage.getItem('pro_tasks');
-        if (storedTasks) {
-            const parsed = JSON.parse(storedTasks);
-            // MIGRATION: Ensure all existing tasks have positive IDs
-            // This fixes the "Duplicate on Edit" bug where saved tasks retained negative "Draft" IDs
-            const migrated = parsed.map((t: Task) => ({...t, id: Math.abs(t.id)}));
-            setTasks(migrated);
-        }
+        let cancelled = false;
+        const channel = createTabChannel();
+        channelRef.current = channel;
+        const unsubscribe = channel.subscribe(message => {
+            if (!repositoryRef.current) return;
+            if (message.type === 'hello') channel.post({ type: 'tasks', from: channel.tabId, tasks: tasksRef.current });
+            else if (message.type === 'tasks') applyRemoteTasks(message.tasks);
+        });
+        const stopLeading = electLeader(channel, leader => {
+            isAlarmLeaderRef.current = leader;
+            setIsLeaderTab(leader);
+        });
+
+        (async () => {
+            let repository: TaskRepository;
+            let stored: Task[];
+            try {
+                repository = await createTaskRepository();
+                stored = await repository.load();
+            } catch (e: any) {
+                // Keep the app usable on a backend that works, without touching what failed to load
+                console.error("Loading tasks failed", e);
+                repository = createFallbackRepository();
+                stored = await repository.load().catch(() => []);
+                if (!cancelled) setLoadError(`Your saved tasks could not be loaded (${e?.message || e}). New changes are kept ${repository.kind === 'memory' ? 'only until this page closes' : 'in this browser\'s local storage'}.`);
+            }
+            if (cancelled) return;
+            repositoryRef.current = repository;
+            syncBaseRef.current = stored;
+            quietTasksRef.current = stored;
+            setTasks(stored);
+            setIsLoaded(true);
+            // Open tabs answer with their state in case a save was still in flight
+            channel.post({ type: 'hello', from: channel.tabId });
+        })();
 
         const storedTheme = localStorage.getItem('theme');
         const sysDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
@@ -153,7 +228,8 @@ const App: React.FC = () => {
         }
 
         const handleInteraction = () => {
-            initAudio();
+            getAudioContext();
+            requestNotificationPermission();
             document.removeEventListener('click', handleInteraction);
             document.removeEventListener('touchstart', handleInteraction);
         };
@@ -169,7 +245,11 @@ const App: React.FC = () => {
         };
 
         return () => {
+            cancelled = true;
             workerRef.current?.terminate();
+            stopLeading();
+            unsubscribe();
+            channel.close();
         };
     }, []);
 
@@ -183,105 +263,299 @@ const App: React.FC = () => {
         }
     }, [darkMode]);
 
+    // --- Device Sync ---
+    // Runs in the leader tab only; other tabs receive its results through tab sync
+    const runSync = async () => {
+        const engine = syncEngineRef.current;
+        if (!engine) return;
+        syncRunsRef.current++;
+        setSyncStatus(s => ({ ...s, state: 'syncing', message: undefined }));
+        try {
+            // Overlapping calls are queued by the engine, so only the last one reports idle
+            const result = await engine.sync();
+            if (syncEngineRef.current !== engine) return;
+            if (result.changedIds.length) setTasks(prev => engine.rebase(prev, result.changedIds));
+            if (result.rejectedIds.length) {
+                const count = result.rejectedIds.length;
+                setSyncStatus({ state: 'error', pending: engine.pendingCount(), lastSyncedAt: new Date().toISOString(), message: `${count} ${count === 1 ? 'task' : 'tasks'} from another device could not be applied and kept their local version`, saveError: engine.saveError() ?? undefined });
+            } else if (syncRunsRef.current === 1) setSyncStatus({ state: 'idle', pending: engine.pendingCount(), lastSyncedAt: new Date().toISOString(), saveError: engine.saveError() ?? undefined });
+        } catch (e: any) {
+            const offline = !navigator.onLine || e instanceof TypeError; // fetch rejects with TypeError when unreachable
+            setSyncStatus(s => ({ ...s, state: offline ? 'offline' : 'error', pending: engine.pendingCount(), message: offline ? undefined : e.message, saveError: engine.saveError() ?? undefined }));
+        } finally {
+            syncRunsRef.current--;
+        }
+    };
+    const runSyncRef = useRef(runSync);
+    runSyncRef.current = runSync;
+
+    useEffect(() => {
+        if (!syncConfig || !isLeaderTab || !isLoaded) return;
+        const engine = createSyncEngine(syncConfig);
+        syncEngineRef.current = engine;
+        engine.track(tasksRef.current);
+        runSyncRef.current();
+
+        const intervalId = setInterval(() => runSyncRef.current(), SYNC_INTERVAL_MS);
+        const handleOnline = () => runSyncRef.current();
+        window.addEventListener('online', handleOnline);
+        return () => {
+            syncEngineRef.current = null;
+            clearInterval(intervalId);
+            clearTimeout(syncSoonRef.current);
+            window.removeEventListener('online', handleOnline);
+        };
+    }, [syncConfig, isLeaderTab, isLoaded]);
+
+    const connectSync = (config: SyncConfig) => {
+        writeSyncConfig(config);
+        setSyncConfig(config);
+    };
+
+    const disconnectSync = () => {
+        writeSyncConfig(null);
+        setSyncConfig(null);
+        setSyncStatus({ state: 'idle', pending: 0 });
+    };
+
     // --- Alarm Logic ---
+    // Rings reminders that came due since the last check. After a suspended or
+    // closed page, the ones that are too late to ring are listed as missed.
     const checkAlarms = () => {
-        const now = new Date();
-        const currentHM = `${String(now.getHours()).padStart(2,'0')}:${String(now.getMinutes()).padStart(2,'0')}`;
-        const todayISO = getLocalISO();
-
-        tasksRef.current.forEach(t => {
-            if (shouldShowTask(t, todayISO) && !t.completions.includes(todayISO)) {
-                if (t.time === currentHM) {
-                    const notificationKey = `${t.id}-${todayISO}-${currentHM}`;
-                    if (!notifiedTasksRef.current.has(notificationKey)) {
-                        triggerAlarm(t);
-                        notifiedTasksRef.current.add(notificationKey);
-                    }
-                }
-            }
-        });
+        // Every tab ticks, but only the elected one rings
+        if (!isAlarmLeaderRef.current) return;
+        // Before the load, the schedule is empty and would skip everything due since the last check
+        if (!isLoadedRef.current) return;
+        const now = Date.now();
+        const stored = Number(localStorage.getItem(LAST_CHECK_KEY));
+        const lastCheck = Math.max(stored || now, now - CATCH_UP_MS);
+        localStorage.setItem(LAST_CHECK_KEY, String(now));
+
+        if (now > scheduleRef.current.until - 60 * 60000) {
+            scheduleRef.current = buildReminderSchedule(tasksRef.current, now - CATCH_UP_MS, now + SCHEDULE_HORIZON_MS);
+        }
+
+        const due = dueReminders(scheduleRef.current, lastCheck, now).filter(r => !notifiedTasksRef.current.has(r.key));
+        due.forEach(r => notifiedTasksRef.current.add(r.key));
+
+        // Reminders held back by a 'delay' quiet window come out once it ends
+        const delayed = readDelayedReminders();
+        const released = delayed.filter(d => d.releaseAt <= now);
+        if (released.length) writeDelayedReminders(delayed.filter(d => d.releaseAt > now));
+        const candidates = [...due.map(r => ({ reminder: r, at: r.at })), ...released.map(d => ({ reminder: d.reminder, at: d.releaseAt }))];
+
+        const missed = candidates.filter(c => now - c.at > MISSED_AFTER_MS).map(c => c.reminder);
+        if (missed.length) {
+            setMissedReminders(prev => [...prev, ...missed.filter(m => !prev.some(p => p.key === m.key))]);
+            appendAlertLog(missed.flatMap(r => {
+                const series = tasksRef.current.find(t => t.id === r.taskId);
+                if (!series) return [];
+                const alert = { key: r.key, task: resolveOccurrence(series, r.date), date: r.date, offset: r.offset, firedAt: new Date(r.at).toISOString() };
+                return [toLogEntry(alert, 'missed')];
+            }));
+        }
+
+        candidates.filter(c => now - c.at <= MISSED_AFTER_MS).forEach(c => deliverReminder(c.reminder, now));
     };
 
-    const triggerAlarm = async (task: Task) => {
-        if (stopAlarmRef.current) stopAlarmRef.current();
-        const stopFn = startAlarmSound();
-        stopAlarmRef.current = stopFn;
-        
-        setTimeout(() => {
-            if (stopAlarmRef.current === stopFn) {
-                stopFn();
-                stopAlarmRef.current = null;
-            }
-        }, 60000);
+    // Applies quiet hours: rings, rings quietly, only badges, or holds the reminder back
+    const deliverReminder = (r: ScheduledReminder, now: number) => {
+        const series = tasksRef.current.find(t => t.id === r.taskId);
+        if (!series || series.completions.includes(r.date)) return;
+        const task = resolveOccurrence(series, r.date);
+        const quietSettings = readQuietSettings();
+        const quiet = breaksThrough(quietSettings, task.category) ? null : quietStateAt(quietSettings, readDndUntil(), new Date(now));
+        if (quiet?.mode === 'delay') {
+            writeDelayedReminders([...readDelayedReminders(), { reminder: r, releaseAt: quiet.until }]);
+            return;
+        }
+        triggerAlarm(task, r.date, r.offset, r.key, quiet?.mode);
+    };
+
+    // Alerts queue up; the sound keeps playing until the queue is empty or the
+    // configured maximum runs out. The first alert's category picks the sound.
+    const triggerAlarm = async (task: Task, date: string, offset: number, key: string, quietMode?: QuietMode) => {
+        const alert: ActiveAlert = { key, task, date, offset, firedAt: new Date().toISOString() };
+        appendAlertLog([toLogEntry(alert)]);
+        if (quietMode === 'badge') {
+            setHeldAlerts(prev => prev.some(a => a.key === key) ? prev : [...prev, alert]);
+            return;
+        }
+        setActiveAlerts(prev => prev.some(a => a.key === key) ? prev : [...prev, alert]);
+        const title = offset > 0 ? `MOTI-ON: ${describeOffset(offset)}` : "MOTI-ON: It's Time!";
+        showAlertNotification(title, task.time ? `${task.text} · ${task.time}` : task.text, { key, taskId: task.id, date }, quietMode === 'silent')
+            .catch(e => console.warn("Showing notification failed", e));
+        if (quietMode === 'silent') return;
+
+        const ctx = getAudioContext();
+        if (!stopAlarmRef.current && ctx) {
+            const settings = readAlarmSettings();
+            const stopFn = startAlarm(ctx, {
+                profile: soundForCategory(settings, task.category),
+                volume: settings.volume,
+                fadeInSeconds: settings.fadeInSeconds,
+                maxDurationSeconds: settings.maxDurationSeconds,
+                onEnd: () => { if (stopAlarmRef.current === stopFn) stopAlarmRef.current = null; }
+            });
+            stopAlarmRef.current = stopFn;
+        }
 
         if ('wakeLock' in navigator) {
             try {
                 await navigator.wakeLock.request('screen');
             } catch (err) { console.warn("Wake Lock not supported/allowed"); }
         }
+    };
 
-        setActiveAlert(task);
-        if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification("MOTI-ON: It's Time!", { body: task.text, icon: '/icon.png' });
-        }
+    // Badge-only alerts wait on the header badge; opening them shows the overlay without sound
+    const openHeldAlerts = () => {
+        setActiveAlerts(prev => [...prev, ...heldAlerts.filter(h => !prev.some(a => a.key === h.key))]);
+        setHeldAlerts([]);
     };
 
-    const dismissAlarm = () => {
+    const toggleDnd = () => {
+        const until = dndUntil ? 0 : Date.now() + DND_DURATION_MS;
+        writeDndUntil(until);
+        setDndUntil(until);
+    };
+
+    // Clear the header toggle when DND runs out, and follow changes made in other tabs
+    useEffect(() => {
+        if (!dndUntil) return;
+        const timeoutId = setTimeout(() => setDndUntil(0), dndUntil - Date.now());
+        return () => clearTimeout(timeoutId);
+    }, [dndUntil]);
+
+    useEffect(() => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key === DND_KEY) setDndUntil(readDndUntil());
+            if (e.key === CATEGORIES_KEY) setCategories(readCategories());
+            if (e.key === SMART_LISTS_KEY) setSmartLists(readSmartLists());
+            if (e.key === DAY_SORT_KEY) setDaySort(readDaySort());
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    const stopAlarmSound = () => {
         if (stopAlarmRef.current) {
             stopAlarmRef.current();
             stopAlarmRef.current = null;
         }
-        setActiveAlert(null);
     };
 
-    const markActiveAlertDone = () => {
-        if (activeAlert) {
-            toggleTask(activeAlert.id);
-            dismissAlarm();
+    // Takes alerts off the queue and records what happened to them
+    const resolveAlerts = (alerts: ActiveAlert[], outcome: AlertOutcome) => {
+        const keys = alerts.map(a => a.key);
+        resolveAlertLog(keys, outcome);
+        const remaining = activeAlerts.filter(a => !keys.includes(a.key));
+        setActiveAlerts(remaining);
+        if (!remaining.length) stopAlarmSound();
+    };
+
+    const alertDatesFor = (alerts: ActiveAlert[], id: number): string[] => alerts.filter(a => a.task.id === id).map(a => a.date);
+
+    const completeAlerts = (alerts: ActiveAlert[]) => {
+        updateTasks(alerts.length > 1 ? `Completed ${alerts.length} Tasks` : 'Task Completed', prev => prev.map(t => {
+            const dates = alertDatesFor(alerts, t.id);
+            if (!dates.length) return t;
+            const snooze = t.snooze && dates.includes(t.snooze.date) ? undefined : t.snooze;
+            // A quantity habit is completed by logging its full target
+            if (t.goal) return stampCompletions(t, { ...dates.reduce((next, date) => completeQuantity(next, date), t), snooze });
+            return stampCompletions(t, { ...t, completions: Array.from(new Set([...t.completions, ...dates])), snooze });
+        }));
+        confetti({ particleCount: 50, spread: 60, origin: { y: 0.7 } });
+        resolveAlerts(alerts, 'completed');
+    };
+
+    const snoozeAlerts = (alerts: ActiveAlert[], until: string) => {
+        const minutes = Math.round((new Date(until).getTime() - Date.now()) / 60000);
+        const label = minutes <= 60 ? `Snoozed ${Math.max(1, minutes)} min` : `Snoozed until ${until.slice(11)}`;
+        updateTasks(label, prev => prev.map(t => {
+            const dates = alertDatesFor(alerts, t.id);
+            if (!dates.length) return t;
+            return { ...t, snooze: { date: dates[dates.length - 1], until }, snoozeCount: (t.snoozeCount || 0) + 1 };
+        }));
+        resolveAlerts(alerts, 'snoozed');
+    };
+
+    // Like a drag on the week board: a repeating task gets a one-time copy on the next day
+    const moveAlertsToTomorrow = (alerts: ActiveAlert[]) => {
+        let nextId = Date.now();
+        updateTasks('Moved to Tomorrow', prev => prev.flatMap(t => alertDatesFor(alerts, t.id).reduce<Task[]>(([series, ...copies], date) => {
+            const [moved, ...copy] = rescheduleOccurrence(series, date, addDays(date, 1), nextId++);
+            return [moved, ...copies, ...copy];
+        }, [t])));
+        resolveAlerts(alerts, 'moved');
+    };
+
+    // Dismissing also drops a pending snooze for that occurrence
+    const dismissAlerts = (alerts: ActiveAlert[]) => {
+        updateTasks('Alert Dismissed', prev => prev.map(t => t.snooze && alertDatesFor(alerts, t.id).includes(t.snooze.date) ? { ...t, snooze: undefined } : t));
+        resolveAlerts(alerts, 'dismissed');
+    };
+
+    // Complete/Snooze pressed on a system notification. Every open tab gets the
+    // message; the leader applies it, building the alert if it is no longer queued.
+    // A tab opened for the action applies it whether or not it leads yet.
+    // Returns whether the action was handled here.
+    const handleNotificationAction = (message: NotificationActionMessage, launched = false): boolean => {
+        if (!launched && !isAlarmLeaderRef.current) return false;
+        let alert = activeAlerts.find(a => a.key === message.key);
+        if (!alert) {
+            const series = tasksRef.current.find(t => t.id === message.taskId);
+            if (!series) return true; // Deleted since; nothing left to apply
+            alert = { key: message.key, task: resolveOccurrence(series, message.date), date: message.date, offset: 0, firedAt: new Date().toISOString() };
         }
+        if (message.action === 'complete') completeAlerts([alert]);
+        else snoozeAlerts([alert], getLocalDateTime(new Date(Date.now() + NOTIFICATION_SNOOZE_MINUTES * 60000)));
+        return true;
     };
+    const notificationActionRef = useRef(handleNotificationAction);
+    notificationActionRef.current = handleNotificationAction;
+
+    useEffect(() => onNotificationAction(message => notificationActionRef.current(message)), []);
+
+    useEffect(() => {
+        if (!isLoaded) return;
+        const launchAction = takeLaunchAction();
+        if (launchAction) notificationActionRef.current(launchAction, true);
+    }, [isLoaded]);
 
     // --- Data & Logic ---
     const todayStr = getLocalISO();
     
     const effectiveViewDate = useMemo(() => {
-        if (currentView === 'week') return todayStr;
         if (currentView === 'history' && historyDrilldownDate) return historyDrilldownDate;
         return selectedDate;
     }, [currentView, selectedDate, historyDrilldownDate, todayStr]);
 
-    const { sortedVisibleTasks, percentage } = useMemo(() => {
-        let visible: Task[] = [];
+    const { sortedVisibleTasks, visibleCount, percentage } = useMemo(() => {
         const viewStart = effectiveViewDate;
 
+        // The week board lays out its own columns; the header counts every occurrence of the week
         if (currentView === 'week') {
-            const weekIds = new Set<number>();
+            const weekStart = getWeekStart(viewStart);
+            let count = 0;
+            let done = 0;
             for (let i = 0; i < 7; i++) {
-                const d = parseLocalDate(viewStart);
-                d.setDate(d.getDate() + i);
-                const iso = getLocalISO(d);
-                tasks.filter(t => shouldShowTask(t, iso)).forEach(t => weekIds.add(t.id));
+                const date = addDays(weekStart, i);
+                tasks.filter(t => shouldShowTask(t, date)).forEach(t => {
+                    count++;
+                    done += taskProgress(resolveOccurrence(t, date), date, countPartialProgress);
+                });
             }
-            visible = tasks.filter(t => weekIds.has(t.id));
-        } else {
-            visible = tasks.filter(t => shouldShowTask(t, viewStart));
+            return { sortedVisibleTasks: [], visibleCount: count, percentage: count ? Math.round((done / count) * 100) : 0 };
         }
 
+        let visible = tasks.filter(t => shouldShowTask(t, viewStart));
+        visible = visible.map(t => resolveOccurrence(t, viewStart));
+
         visible.sort((a, b) => {
             const getSortDate = (t: Task) => {
                 if (t.type === 'one-time') return t.dateCreated;
-                if (t.type === 'recurring') {
-                     return t.dateCreated < viewStart ? viewStart : t.dateCreated;
-                }
-                if (t.type === 'weekly' && t.weeklyDay !== undefined) {
-                    const start = parseLocalDate(viewStart);
-                    const currentDay = start.getDay();
-                    const diff = (t.weeklyDay - currentDay + 7) % 7;
-                    const d = new Date(start);
-                    d.setDate(d.getDate() + diff);
-                    return getLocalISO(d);
-                }
-                return t.dateCreated;
+                const rule = getRecurrenceRule(t);
+                return (rule && nextOccurrence(rule, t.dateCreated, viewStart)) || t.dateCreated;
             };
 
             const dateA = getSortDate(a);
@@ -290,39 +564,168 @@ const App: React.FC = () => {
             if (dateA !== dateB) return dateA.localeCompare(dateB);
             return 0;
         });
+        visible = sortForDay(visible, viewStart, daySort, categories);
 
-        const completed = visible.filter(t => t.completions.includes(viewStart)); 
-        const pct = visible.length > 0 ? Math.round((completed.length / visible.length) * 100) : 0;
+        // With partial progress on, a task with 3 of 5 steps checked counts as 0.6
+        const done = visible.reduce((sum, t) => sum + taskProgress(t, viewStart, countPartialProgress), 0);
+        const pct = visible.length > 0 ? Math.round((done / visible.length) * 100) : 0;
         
-        return { sortedVisibleTasks: visible, percentage: pct };
-    }, [tasks, currentView, effectiveViewDate, historyDrilldownDate]);
+        return { sortedVisibleTasks: visible, visibleCount: visible.length, percentage: pct };
+    }, [tasks, currentView, effectiveViewDate, historyDrilldownDate, countPartialProgress, daySort, categories]);
 
+    const togglePartialProgress = () => {
+        localStorage.setItem(PARTIAL_PROGRESS_KEY, countPartialProgress ? 'off' : 'on');
+        setCountPartialProgress(!countPartialProgress);
+    };
 
-    // --- Actions ---
-    const setUndo = (label: string, oldTasks: Task[]) => {
-        if (undoTimeoutRef.current) clearTimeout(undoTimeoutRef.current);
-        setUndoAction({ label, handler: () => { setTasks(oldTasks); setUndoAction(null); } });
-        undoTimeoutRef.current = setTimeout(() => setUndoAction(null), 4000);
+    // --- Categories ---
+    const saveCategories = (next: CategoryDef[]) => {
+        writeCategories(next);
+        setCategories(next);
+    };
+
+    // Ids that arrive with synced or imported tasks get a definition of their own
+    useEffect(() => {
+        const next = withUsedCategories(categories, tasks);
+        if (next !== categories) saveCategories(next);
+    }, [tasks, categories]);
+
+    // --- Search & Smart Lists ---
+    const activeList = smartLists.find(l => l.id === activeListId) || null;
+    const tagSuggestions = useMemo(() => allTags(tasks), [tasks]);
+
+    const saveSmartLists = (next: SmartList[]) => {
+        writeSmartLists(next);
+        setSmartLists(next);
     };
 
-    const toggleTask = (id: number) => {
-        const oldTasks = [...tasks];
-        const isCompleting = !tasks.find(t => t.id === id)?.completions.includes(effectiveViewDate);
+    const openSearch = (list: SmartList | null) => {
+        setCurrentView('search');
+        setHistoryDrilldownDate(null);
+        setActiveListId(list ? list.id : null);
+        if (list) setSearchFilter(list.filter);
+        else if (activeListId) setSearchFilter(EMPTY_FILTER); // Leaving a list starts a fresh search
+    };
+
+    const saveSmartList = (name: string) => {
+        const list: SmartList = { id: `l${Date.now()}`, name, filter: searchFilter };
+        saveSmartLists([...smartLists, list]);
+        setActiveListId(list.id);
+    };
+
+    const updateSmartList = () => {
+        if (activeListId) saveSmartLists(smartLists.map(l => l.id === activeListId ? { ...l, filter: searchFilter } : l));
+    };
+
+    const deleteSmartList = () => {
+        saveSmartLists(smartLists.filter(l => l.id !== activeListId));
+        setActiveListId(null);
+    };
+
+    // Undo brings back the merged category's definition along with its tasks
+    const mergeCategory = (fromId: string, toId: string) => {
+        updateTasks('Categories Merged', prev => mergeCategoryTasks(prev, fromId, toId), categories.filter(c => c.id !== fromId));
+    };
+
+
+    // --- Undo History ---
+    const showHistoryToast = (label: string, canRedo: boolean = false) => {
+        if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+        setHistoryToast({ label, canRedo });
+        toastTimeoutRef.current = setTimeout(() => setHistoryToast(null), 4000);
+    };
+
+    // Every user change to tasks goes through here so it can be undone.
+    // Changes from other tabs, devices and the initial load use setTasks directly.
+    // `nextCategories` is for actions that also change category definitions.
+    const updateTasks = (label: string, update: (prev: Task[]) => Task[], nextCategories?: CategoryDef[]) => {
+        // Edits made before the load would be replaced by the stored tasks
+        if (!isLoadedRef.current) return;
+        const prev = tasksRef.current;
+        const next = update(prev);
+        const entry = createHistoryEntry(label, prev, next, nextCategories ? diffCategories(categories, nextCategories) : []);
+        if (!entry) return;
+        tasksRef.current = next;
+        setTasks(next);
+        if (entry.categoryChanges) saveCategories(nextCategories!);
+        undoHistoryRef.current = pushEntry(undoHistoryRef.current, entry);
+        setUndoHistory(undoHistoryRef.current);
+        showHistoryToast(label);
+    };
+
+    const moveInHistory = (steps: number) => {
+        const result = stepHistory(undoHistoryRef.current, tasksRef.current, steps, categories);
+        if (!result.entry) return;
+        tasksRef.current = result.tasks;
+        setTasks(result.tasks);
+        if (result.categories !== categories) saveCategories(result.categories);
+        undoHistoryRef.current = result.history;
+        setUndoHistory(result.history);
+        showHistoryToast(steps < 0 ? `Undid ${result.entry.label}` : `Redid ${result.entry.label}`, steps < 0);
+    };
+    const moveInHistoryRef = useRef(moveInHistory);
+    moveInHistoryRef.current = moveInHistory;
+
+    // Ctrl/Cmd+Z undoes, with Shift redoes. Text fields keep their own undo.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, [contenteditable="true"]')) return;
+            e.preventDefault();
+            moveInHistoryRef.current(e.shiftKey ? 1 : -1);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // --- Actions ---
+    const toggleTask = (id: number, targetDate: string = effectiveViewDate) => {
+        const isCompleting = !tasksRef.current.find(t => t.id === id)?.completions.includes(targetDate);
         
-        setTasks(prev => prev.map(t => {
+        updateTasks(isCompleting ? 'Task Completed' : 'Task Reopened', prev => prev.map(t => {
             if (t.id !== id) return t;
-            const targetDate = effectiveViewDate;
+            if (t.goal) {
+                const next = toggleQuantity(t, targetDate);
+                return stampCompletions(t, { ...next, snooze: isCompleting && t.snooze?.date === targetDate ? undefined : t.snooze });
+            }
             const idx = t.completions.indexOf(targetDate);
             let newCompletions = [...t.completions];
             if (idx > -1) newCompletions.splice(idx, 1);
             else newCompletions.push(targetDate);
-            return { ...t, completions: newCompletions };
+            // Completing a snoozed occurrence settles the snooze
+            const snooze = idx === -1 && t.snooze?.date === targetDate ? undefined : t.snooze;
+            return stampCompletions(t, { ...t, completions: newCompletions, snooze });
         }));
 
-        if (isCompleting) {
-            confetti({ particleCount: 50, spread: 60, origin: { y: 0.7 } });
-            setUndo('Task Completed', oldTasks);
-        }
+        if (isCompleting) confetti({ particleCount: 50, spread: 60, origin: { y: 0.7 } });
+    };
+
+    const toggleSubtaskCheck = (id: number, subtaskId: number, targetDate: string = effectiveViewDate) => {
+        const series = tasksRef.current.find(t => t.id === id);
+        if (!series) return;
+        const next = toggleSubtask(series, targetDate, subtaskId, resolveOccurrence(series, targetDate).subtasks);
+        const isChecking = checkedSubtasks(next, targetDate).includes(subtaskId);
+        const completes = next.completions.includes(targetDate) && !series.completions.includes(targetDate);
+        const snooze = completes && next.snooze?.date === targetDate ? undefined : next.snooze;
+        updateTasks(isChecking ? 'Step Checked' : 'Step Unchecked', prev => prev.map(t => t.id === id ? stampCompletions(series, { ...next, snooze }) : t));
+        if (completes) confetti({ particleCount: 50, spread: 60, origin: { y: 0.7 } });
+    };
+
+    // +/- on a quantity habit; reaching the target completes the occurrence
+    const changeAmount = (id: number, direction: number, targetDate: string = effectiveViewDate) => {
+        const series = tasksRef.current.find(t => t.id === id);
+        if (!series) return;
+        const next = adjustAmount(series, targetDate, direction);
+        const completes = next.completions.includes(targetDate) && !series.completions.includes(targetDate);
+        const snooze = completes && next.snooze?.date === targetDate ? undefined : next.snooze;
+        updateTasks(direction > 0 ? 'Amount Added' : 'Amount Removed', prev => prev.map(t => t.id === id ? stampCompletions(series, { ...next, snooze }) : t));
+        if (completes) confetti({ particleCount: 50, spread: 60, origin: { y: 0.7 } });
+    };
+
+    // Time, duration or note of a past completion, from the editor's log
+    const editCompletion = (id: number, date: string, record: CompletionRecord) => {
+        updateTasks('Completion Edited', prev => prev.map(t => t.id === id ? withCompletionRecord(t, date, record) : t));
     };
 
     // Trigger confirmation modal
@@ -334,66 +737,150 @@ const App: React.FC = () => {
     const executeMoveTask = () => {
         if (moveModalId === null) return;
         const id = moveModalId;
-        const oldTasks = [...tasks];
         const direction = selectedDate > todayStr ? -1 : 1; 
-        
-        setTasks(prev => prev.map(t => {
-            if (t.id !== id) return t;
-            
-            const d = parseLocalDate(effectiveViewDate);
-            d.setDate(d.getDate() + direction);
-            const targetIso = getLocalISO(d);
-
-            const newHidden = [...(t.hiddenDates || []), effectiveViewDate];
-            let newDateCreated = t.dateCreated;
-            
-            if (t.type === 'one-time') newDateCreated = targetIso;
-            
-            return { 
-                ...t, 
-                hiddenDates: newHidden, 
-                dateCreated: newDateCreated,
-                completions: t.completions.filter(c => c !== effectiveViewDate)
-            };
-        }));
-
         const label = direction === 1 ? 'Moved to Tomorrow' : 'Moved to Yesterday';
-        setUndo(label, oldTasks);
+        
+        updateTasks(label, prev => prev.map(t => t.id === id ? moveOccurrence(t, effectiveViewDate, direction) : t));
         setMoveModalId(null);
     };
 
-    const handleDelete = (id: number) => {
+    // A card dragged to another day of the week board
+    const moveToDate = (id: number, from: string, to: string) => {
+        updateTasks('Task Rescheduled', prev => prev.flatMap(t => t.id === id ? rescheduleOccurrence(t, from, to, Date.now()) : [t]));
+    };
+
+    const shiftWeek = (weeks: number) => setSelectedDate(weeks ? addDays(selectedDate, weeks * 7) : todayStr);
+
+    const handleDelete = (id: number, scope: EditScope = 'this') => {
         if (deleteModalId === id) {
-             const oldTasks = [...tasks];
-             setTasks(prev => prev.map(t => t.id === id ? { ...t, hiddenDates: [...(t.hiddenDates||[]), effectiveViewDate] } : t));
+             updateTasks(scope === 'this' ? 'Task Deleted' : 'Series Deleted', prev => prev.flatMap(t => {
+                 if (t.id !== id) return [t];
+                 const remaining = applySeriesDelete(t, effectiveViewDate, scope);
+                 return remaining ? [remaining] : [];
+             }));
              setDeleteModalId(null);
-             setUndo('Task Deleted', oldTasks);
         } else {
             setDeleteModalId(id);
         }
     };
 
+    // Saves the task from the editor. Changes to an existing repeating task first ask for a scope.
+    const saveEditingTask = () => {
+        if (!editingTask) return;
+        setEditingTask(null);
+        if (!editingTask.text.trim()) return;
+
+        const original = tasks.find(t => t.id === editingTask.id);
+        if (!original) {
+            const newTask = { ...editingTask, id: Math.abs(editingTask.id) };
+            updateTasks('Task Created', prev => [newTask, ...prev]);
+            return;
+        }
+
+        commitEdit(original, diffTask(resolveOccurrence(original, editingDate), editingTask), editingDate);
+    };
+
+    // Repeating tasks ask which occurrences the edit applies to
+    const commitEdit = (original: Task, changes: Partial<Task>, date: string) => {
+        if (Object.keys(changes).length === 0) return;
+        if (getRecurrenceRule(original)) {
+            setPendingEdit({ original, changes, date });
+        } else {
+            updateTasks('Task Updated', prev => prev.map(t => t.id === original.id ? { ...t, ...changes } : t));
+        }
+    };
+
+    // A block dragged on the timeline
+    const rescheduleTask = (task: Task, time: string, duration: number) => {
+        const original = tasks.find(t => t.id === task.id);
+        if (!original) return;
+        const changes: Partial<Task> = {};
+        if (time !== task.time) changes.time = time;
+        if (duration !== (task.duration || DEFAULT_DURATION)) changes.duration = duration;
+        commitEdit(original, changes, effectiveViewDate);
+    };
+
+    const executeSeriesEdit = (scope: EditScope) => {
+        if (!pendingEdit) return;
+        const { original, changes, date } = pendingEdit;
+        updateTasks(scope === 'all' ? 'Series Updated' : 'Task Updated', prev => prev.flatMap(t => t.id === original.id ? applySeriesEdit(t, date, changes, scope, Date.now()) : [t]));
+        setPendingEdit(null);
+    };
+
+    // Dragging saves the order for the day shown; the task list itself stays the default
     const handleReorder = useCallback((newOrderedTasks: Task[]) => {
-        setTasks(prev => {
-            const newOrderIds = newOrderedTasks.map(t => t.id);
-            const idMap = new Map(prev.map(t => [t.id, t]));
-            const reorderedVisible = newOrderIds.map(id => idMap.get(id)!).filter(Boolean);
-            const visibleSet = new Set(newOrderIds);
-            const otherTasks = prev.filter(t => !visibleSet.has(t.id));
-            return [...reorderedVisible, ...otherTasks];
+        updateTasks('Tasks Reordered', prev => setDayOrder(prev, effectiveViewDate, newOrderedTasks.map(t => t.id)));
+    }, [effectiveViewDate]);
+
+    const changeDaySort = (sort: DaySort) => {
+        writeDaySort(sort);
+        setDaySort(sort);
+    };
+
+    const resetDayOrder = () => {
+        updateTasks('Day Order Reset', prev => clearDayOrder(prev, effectiveViewDate));
+    };
+
+    const setDayOrderAsDefault = () => {
+        const orderedIds = sortedVisibleTasks.map(t => t.id);
+        updateTasks('Default Order Set', prev => setDefaultOrder(prev, effectiveViewDate, orderedIds));
+    };
+
+    // --- Backup ---
+    const handleExport = () => {
+        const backup = createBackup(tasks, readSettings());
+        downloadFile(`moti-on-backup-${todayStr}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    };
+
+    const handleExportCalendar = () => {
+        downloadFile(`moti-on-${todayStr}.ics`, exportICalendar(tasks, categories), 'text/calendar');
+    };
+
+    // Backups and calendar files share one picker; the content decides which parser runs
+    const handleImportFile = async (file: File) => {
+        try {
+            const content = await file.text();
+            const isCalendar = /^\s*BEGIN:VCALENDAR/i.test(content);
+            const parsed = isCalendar ? parseICalendar(content, categories) : parseBackup(content);
+            setPendingImport({ ...parsed, fileName: file.name, isCalendar });
+            setIsSidebarOpen(false);
+        } catch (e: any) {
+            alert(`Import failed: ${e.message}`);
+        }
+    };
+
+    const executeImport = (mode: ImportMode) => {
+        if (!pendingImport) return;
+        const label = pendingImport.isCalendar ? 'Calendar Imported' : (mode === 'merge' ? 'Backup Merged' : 'Backup Restored');
+        // Merging keeps this device's categories and undoes along with the tasks
+        const importedCategories = pendingImport.settings[CATEGORIES_KEY];
+        const mergedCategories = mode === 'merge' && importedCategories ? mergeCategoryLists(categories, parseCategories(importedCategories)) : undefined;
+        updateTasks(label, prev => applyBackup(prev, pendingImport.tasks, mode), mergedCategories);
+        if (pendingImport.settings.theme) setDarkMode(pendingImport.settings.theme === 'dark');
+        [ALARM_SETTINGS_KEY, QUIET_SETTINGS_KEY, PARTIAL_PROGRESS_KEY, CATEGORIES_KEY, SMART_LISTS_KEY, DAY_SORT_KEY].forEach(key => {
+            if (key === CATEGORIES_KEY && mergedCategories) return;
+            if (pendingImport.settings[key]) localStorage.setItem(key, pendingImport.settings[key]);
         });
-    }, []);
+        if (importedCategories && !mergedCategories) setCategories(readCategories());
+        if (pendingImport.settings[SMART_LISTS_KEY]) setSmartLists(readSmartLists());
+        if (pendingImport.settings[DAY_SORT_KEY]) setDaySort(readDaySort());
+        if (pendingImport.settings[PARTIAL_PROGRESS_KEY]) setCountPartialProgress(pendingImport.settings[PARTIAL_PROGRESS_KEY] === 'on');
+        setPendingImport(null);
+    };
 
     // --- Render Helpers ---
-    const quotePool = percentage === 100 && sortedVisibleTasks.length > 0 ? QUOTES.finish : (percentage > 0 ? QUOTES.progress : QUOTES.start);
+    const statsTask = statsTaskId !== null ? tasks.find(t => t.id === statsTaskId) : undefined;
+    const deleteTarget = deleteModalId !== null ? tasks.find(t => t.id === deleteModalId) : undefined;
+    const deleteIsSeries = !!deleteTarget && getRecurrenceRule(deleteTarget) !== null;
+    const quotePool = percentage === 100 && visibleCount > 0 ? QUOTES.finish : (percentage > 0 ? QUOTES.progress : QUOTES.start);
     const quote = quotePool[todayStr.charCodeAt(todayStr.length - 1) % quotePool.length];
 
     useEffect(() => {
-        if (percentage === 100 && sortedVisibleTasks.length > 0 && prevPercentageRef.current < 100) {
+        if (percentage === 100 && visibleCount > 0 && prevPercentageRef.current < 100) {
             confetti({ particleCount: 150, spread: 80, origin: { y: 0.6 } });
         }
         prevPercentageRef.current = percentage;
-    }, [percentage, sortedVisibleTasks.length]);
+    }, [percentage, visibleCount]);
 
     const setViewDate = (view: ViewMode, offset: number = 0) => {
         setCurrentView(view);
@@ -409,58 +896,61 @@ const App: React.FC = () => {
 
     return (
         <div className="min-h-screen pb-safe relative">
-            {activeAlert && (
-                <div className="fixed inset-0 z-[150] flex items-center justify-center p-6 bg-slate-900/90 backdrop-blur-md animate-fade-in">
-                    <div className="bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-8 text-center shadow-2xl border-4 border-indigo-500 animate-bounce-in">
-                        <div className="w-24 h-24 bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center mx-auto mb-6 animate-pulse">
-                            <Bell size={48} className="text-indigo-600" />
-                        </div>
-                        <h2 className="text-3xl font-black text-slate-900 dark:text-white mb-2">{activeAlert.text}</h2>
-                        <button onClick={markActiveAlertDone} className="w-full py-5 bg-indigo-600 text-white rounded-2xl text-sm font-black uppercase tracking-widest shadow-xl hover:scale-105 transition-transform mb-3 mt-8">
-                            Complete Task
-                        </button>
-                        <button onClick={dismissAlarm} className="w-full py-4 text-slate-400 font-bold hover:text-indigo-500">Dismiss</button>
-                    </div>
-                </div>
+            {activeAlerts.length > 0 && (
+                <AlarmOverlay 
+                    alerts={activeAlerts}
+                    onComplete={completeAlerts}
+                    onSnooze={snoozeAlerts}
+                    onMoveToTomorrow={moveAlertsToTomorrow}
+                    onDismiss={dismissAlerts}
+                />
+            )}
+
+            {missedReminders.length > 0 && activeAlerts.length === 0 && (
+                <MissedReminders
+                    reminders={missedReminders}
+                    tasks={tasks}
+                    onComplete={(r) => toggleTask(r.taskId, r.date)}
+                    onDismiss={(r) => setMissedReminders(prev => prev.filter(p => p.key !== r.key))}
+                    onDismissAll={() => setMissedReminders([])}
+                />
             )}
 
-            {undoAction && (
+            {historyToast && (
                 <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[100] animate-fade-in-up">
                     <button 
-                        onClick={undoAction.handler}
+                        onClick={() => moveInHistory(historyToast.canRedo ? 1 : -1)}
                         className="bg-slate-900 dark:bg-white text-white dark:text-slate-900 px-6 py-3 rounded-full shadow-2xl flex items-center gap-3 font-bold text-sm hover:scale-105 transition-transform"
                     >
-                        <span>{undoAction.label}</span>
+                        <span>{historyToast.label}</span>
                         <div className="h-4 w-[1px] bg-white/20 dark:bg-black/20"></div>
                         <div className="flex items-center gap-1 text-indigo-400 dark:text-indigo-600">
-                            <RotateCcw size={14} strokeWidth={3} />
-                            <span className="uppercase text-[10px] tracking-widest">Undo</span>
+                            {historyToast.canRedo ? <RotateCw size={14} strokeWidth={3} /> : <RotateCcw size={14} strokeWidth={3} />}
+                            <span className="uppercase text-[10px] tracking-widest">{historyToast.canRedo ? 'Redo' : 'Undo'}</span>
                         </div>
                     </button>
                 </div>
             )}
 
+            {alertLog && (
+                <AlertLogPanel log={alertLog} onClear={() => { clearAlertLog(); setAlertLog([]); }} onClose={() => setAlertLog(null)} />
+            )}
+
+            {isHistoryPanelOpen && (
+                <UndoHistoryPanel history={undoHistory} onStep={moveInHistory} onClose={() => setIsHistoryPanelOpen(false)} />
+            )}
+
             {editingTask && (
                 <EditTaskModal 
                     task={editingTask} 
+                    categories={categories}
+                    tagSuggestions={tagSuggestions}
                     onChange={setEditingTask} 
-                    onClose={() => {
-                        if (!editingTask.text.trim()) {
-                            setEditingTask(null);
-                            return;
-                        }
-                        
-                        setTasks(prev => {
-                            const exists = prev.some(t => t.id === editingTask.id);
-                            if (exists) {
-                                return prev.map(t => t.id === editingTask.id ? editingTask : t);
-                            } else {
-                                const newTask = { ...editingTask, id: Math.abs(editingTask.id) };
-                                return [newTask, ...prev];
-                            }
-                        });
-                        setEditingTask(null);
-                    }} 
+                    onClose={saveEditingTask} 
+                    storedTask={tasks.find(t => t.id === editingTask.id)}
+                    onEditCompletion={(date, record) => editCompletion(editingTask.id, date, record)}
+                    onRemoveCompletion={(date) => toggleTask(editingTask.id, date)}
+                    onShowStats={() => setStatsTaskId(editingTask.id)}
                     onDelete={(id) => {
                         if (id < 0) setEditingTask(null);
                         else {
@@ -475,10 +965,75 @@ const App: React.FC = () => {
                 <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={() => setDeleteModalId(null)}>
                      <div className="bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2rem] p-8 shadow-2xl animate-fade-in-up">
                         <h3 className="text-xl font-black text-center dark:text-white">Remove Task?</h3>
-                        <p className="text-slate-500 text-sm font-bold text-center mt-3">This will hide the task from today's list.</p>
-                        <div className="flex gap-4 mt-8">
-                            <button onClick={() => setDeleteModalId(null)} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Cancel</button>
-                            <button onClick={() => handleDelete(deleteModalId)} className="flex-1 py-4 bg-red-600 rounded-2xl text-[10px] font-black uppercase text-white shadow-lg">Remove</button>
+                        {deleteIsSeries ? (
+                            <>
+                                <p className="text-slate-500 text-sm font-bold text-center mt-3">This is a repeating task. What should be removed? Past days stay in its history.</p>
+                                <div className="flex flex-col gap-2 mt-8">
+                                    {EDIT_SCOPES.map(({ key, label }) => (
+                                        <button key={key} onClick={() => handleDelete(deleteModalId, key)} className={`w-full py-4 rounded-2xl text-[10px] font-black uppercase shadow-lg ${key === 'all' ? 'bg-red-600 text-white' : 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'}`}>{label}</button>
+                                    ))}
+                                    <button onClick={() => setDeleteModalId(null)} className="w-full py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Cancel</button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <p className="text-slate-500 text-sm font-bold text-center mt-3">This will hide the task from today's list.</p>
+                                <div className="flex gap-4 mt-8">
+                                    <button onClick={() => setDeleteModalId(null)} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Cancel</button>
+                                    <button onClick={() => handleDelete(deleteModalId)} className="flex-1 py-4 bg-red-600 rounded-2xl text-[10px] font-black uppercase text-white shadow-lg">Remove</button>
+                                </div>
+                            </>
+                        )}
+                     </div>
+                </div>
+            )}
+
+            {isSyncModalOpen && (
+                <SyncModal
+                    config={syncConfig}
+                    status={syncStatus}
+                    isLeaderTab={isLeaderTab}
+                    onConnect={connectSync}
+                    onDisconnect={disconnectSync}
+                    onSyncNow={() => runSync()}
+                    onClose={() => setIsSyncModalOpen(false)}
+                />
+            )}
+
+            {isAlarmSettingsOpen && <AlarmSettingsModal categories={categories} onClose={() => setIsAlarmSettingsOpen(false)} />}
+            {isQuietHoursOpen && <QuietHoursModal categories={categories} onClose={() => setIsQuietHoursOpen(false)} />}
+            {isCategoriesOpen && <CategoriesModal categories={categories} tasks={tasks} onChange={saveCategories} onMerge={mergeCategory} onClose={() => setIsCategoriesOpen(false)} />}
+
+            {statsTask && <HabitStatsModal task={statsTask} onClose={() => setStatsTaskId(null)} />}
+
+            {pendingImport && (
+                <ImportModal 
+                    title={pendingImport.isCalendar ? 'Import Calendar' : 'Import Backup'}
+                    fileName={pendingImport.fileName}
+                    exportedAt={pendingImport.exportedAt}
+                    diff={diffBackup(tasks, pendingImport.tasks)}
+                    errors={pendingImport.errors}
+                    settings={pendingImport.settings}
+                    onConfirm={executeImport}
+                    onClose={() => setPendingImport(null)}
+                />
+            )}
+
+            {/* Edit Scope Modal */}
+            {pendingEdit && (
+                <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={() => setPendingEdit(null)}>
+                     <div className="bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2rem] p-8 shadow-2xl animate-fade-in-up" onClick={e => e.stopPropagation()}>
+                        <h3 className="text-xl font-black text-center dark:text-white">Save Changes</h3>
+                        <p className="text-slate-500 text-sm font-bold text-center mt-3">
+                            {changesSchedule(pendingEdit.changes) 
+                                ? 'Schedule changes apply to this and following occurrences, or the whole series.' 
+                                : 'Apply the changes to which occurrences?'}
+                        </p>
+                        <div className="flex flex-col gap-2 mt-8">
+                            {EDIT_SCOPES.filter(({ key }) => key !== 'this' || !changesSchedule(pendingEdit.changes)).map(({ key, label }) => (
+                                <button key={key} onClick={() => executeSeriesEdit(key)} className="w-full py-4 bg-indigo-600 rounded-2xl text-[10px] font-black uppercase text-white shadow-lg">{label}</button>
+                            ))}
+                            <button onClick={() => setPendingEdit(null)} className="w-full py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Discard</button>
                         </div>
                      </div>
                 </div>
@@ -504,9 +1059,9 @@ const App: React.FC = () => {
                 </div>
             )}
 
-            <Sidebar isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)} selectedDate={selectedDate} onSelectDate={(d) => { setSelectedDate(d); setCurrentView('day'); }} />
+            <Sidebar tasks={tasks} categories={categories} isOpen={isSidebarOpen} onClose={() => setIsSidebarOpen(false)} selectedDate={selectedDate} onSelectDate={(d) => { setSelectedDate(d); setCurrentView(v => v === 'timeline' || v === 'week' ? v : 'day'); }} onExport={handleExport} onExportCalendar={handleExportCalendar} onImportFile={handleImportFile} onOpenSync={() => { setIsSyncModalOpen(true); setIsSidebarOpen(false); }} onOpenAlarmSettings={() => { setIsAlarmSettingsOpen(true); setIsSidebarOpen(false); }} onOpenQuietHours={() => { setIsQuietHoursOpen(true); setIsSidebarOpen(false); }} onOpenCategories={() => { setIsCategoriesOpen(true); setIsSidebarOpen(false); }} isSyncConnected={!!syncConfig} />
 
-            <main className="max-w-xl mx-auto px-6 pt-12 pb-32">
+            <main className={`${currentView === 'week' ? 'max-w-6xl' : 'max-w-xl'} mx-auto px-6 pt-12 pb-32`}>
                 <header className="mb-10">
                     <div className="flex justify-between items-start mb-6">
                         <div className="flex items-center gap-4">
@@ -516,7 +1071,8 @@ const App: React.FC = () => {
                             <div>
                                 <h1 className="text-3xl font-black italic tracking-tighter leading-none text-slate-900 dark:text-white">
                                     {currentView === 'history' && !historyDrilldownDate ? 'MOTI-ON' : 
-                                     currentView === 'week' ? 'Upcoming' : 
+                                     currentView === 'week' ? 'Week' : 
+                                     currentView === 'search' ? (activeList?.name || 'Search') : 
                                      parseLocalDate(selectedDate).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
                                 </h1>
                                 <div className="flex items-center gap-3 mt-2">
@@ -524,53 +1080,129 @@ const App: React.FC = () => {
                                     <button onClick={() => setDarkMode(!darkMode)} className="text-slate-300 hover:text-indigo-500">
                                         {darkMode ? <Sun size={16} /> : <Moon size={16} />}
                                     </button>
+                                    <button onClick={() => setIsHistoryPanelOpen(true)} className="text-slate-300 hover:text-indigo-500" title="Change history">
+                                        <HistoryIcon size={16} />
+                                    </button>
+                                    <button onClick={() => setAlertLog(readAlertLog())} className="text-slate-300 hover:text-indigo-500" title="Alert log">
+                                        <BellRing size={16} />
+                                    </button>
+                                    <button onClick={toggleDnd} className={`flex items-center gap-1 ${dndUntil ? 'text-indigo-500' : 'text-slate-300 hover:text-indigo-500'}`} title={dndUntil ? 'Turn off Do Not Disturb' : 'Do Not Disturb for 1 hour'}>
+                                        <BellOff size={16} />
+                                        {!!dndUntil && <span className="text-[10px] font-black">{new Date(dndUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>}
+                                    </button>
+                                    {heldAlerts.length > 0 && (
+                                        <button onClick={openHeldAlerts} className="flex items-center gap-1 px-2 py-0.5 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-full" title="Alerts held during quiet hours">
+                                            <BellDot size={14} />
+                                            <span className="text-[10px] font-black">{heldAlerts.length}</span>
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         </div>
-                        {currentView !== 'history' && (
-                             <div className="relative w-16 h-16 shrink-0">
+                        {currentView !== 'history' && currentView !== 'search' && (
+                             <button onClick={togglePartialProgress} className="relative w-16 h-16 shrink-0" title={countPartialProgress ? 'Counting checked steps as partial progress' : 'Counting finished tasks only'}>
                                 <svg viewBox="0 0 64 64" className="w-full h-full transform -rotate-90">
                                     <circle cx="32" cy="32" r="28" stroke="currentColor" strokeWidth="5" fill="transparent" className="text-slate-100 dark:text-slate-800"/>
                                     <circle cx="32" cy="32" r="28" stroke="currentColor" strokeWidth="5" fill="transparent" strokeDasharray="175.84" strokeDashoffset={175.84 - (175.84 * (percentage / 100))} strokeLinecap="round" className="text-indigo-600 transition-all duration-700 ease-out"/>
                                 </svg>
                                 <span className="absolute inset-0 flex items-center justify-center text-xs font-black dark:text-white">{percentage}%</span>
-                            </div>
+                            </button>
                         )}
                     </div>
-                    {currentView !== 'history' && (
+                    {currentView !== 'history' && currentView !== 'search' && (
                         <div className="h-2 w-full bg-slate-100 dark:bg-slate-900 rounded-full overflow-hidden">
                             <div className="h-full bg-indigo-600 rounded-full transition-all duration-700 ease-out" style={{ width: `${percentage}%` }}></div>
                         </div>
                     )}
                 </header>
 
+                {loadError && (
+                    <div className="mb-6 flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-2xl text-xs font-bold">
+                        <AlertTriangle size={16} className="shrink-0" />
+                        <span className="flex-1">{loadError}</span>
+                        <button onClick={() => setLoadError(null)} className="text-[10px] font-black uppercase hover:underline">Dismiss</button>
+                    </div>
+                )}
+
                 {currentView === 'history' && !historyDrilldownDate ? (
-                    <History tasks={tasks} onDrillDown={setHistoryDrilldownDate} drillDownDate={historyDrilldownDate} />
+                    <History tasks={tasks} categories={categories} onDrillDown={setHistoryDrilldownDate} drillDownDate={historyDrilldownDate} />
+                ) : currentView === 'search' ? (
+                    <SearchView
+                        tasks={tasks}
+                        categories={categories}
+                        filter={searchFilter}
+                        smartList={activeList}
+                        onFilterChange={setSearchFilter}
+                        onSaveList={saveSmartList}
+                        onUpdateList={updateSmartList}
+                        onDeleteList={deleteSmartList}
+                        // Focus the result's day so deleting from the editor hits that occurrence
+                        onEdit={(t, date) => { setSelectedDate(date); setEditingTask(resolveOccurrence(t, date)); setEditingDate(date); }}
+                        onGoToDate={(date) => { setSelectedDate(date); setCurrentView('day'); }}
+                    />
                 ) : (
                     <>
                         {currentView === 'day' && selectedDate === todayStr && !historyDrilldownDate && (
-                            <AddTask onTrigger={() => setEditingTask({ id: -Date.now(), text: '', type: 'one-time', category: 'personal', dateCreated: selectedDate, completions: [], hiddenDates: [], notes: '', weeklyDay: new Date().getDay() })} />
+                            <AddTask 
+                                contextDate={selectedDate}
+                                categories={categories}
+                                disabled={!isLoaded}
+                                onAdd={(task) => updateTasks('Task Created', prev => [task, ...prev])}
+                                onOpenEditor={(draft) => setEditingTask({ id: -Date.now(), text: '', type: 'one-time', category: defaultCategoryId(categories), dateCreated: selectedDate, completions: [], hiddenDates: [], notes: '', weeklyDay: new Date().getDay(), ...draft })} 
+                            />
                         )}
                         {historyDrilldownDate && (
                              <button onClick={() => setHistoryDrilldownDate(null)} className="mb-4 text-sm font-bold text-indigo-500 hover:underline">← Back to Stats</button>
                         )}
+                        {currentView === 'week' ? (
+                            <WeekBoard
+                                tasks={tasks}
+                                categories={categories}
+                                weekStart={getWeekStart(selectedDate)}
+                                countPartialProgress={countPartialProgress}
+                                onToggle={toggleTask}
+                                // Focus the card's day so deleting from the editor hits that occurrence
+                                onEdit={(t, date) => { setSelectedDate(date); setEditingTask({...t}); setEditingDate(date); }}
+                                onMove={moveToDate}
+                                onShiftWeek={shiftWeek}
+                            />
+                        ) : currentView === 'timeline' ? (
+                            <Timeline
+                                tasks={sortedVisibleTasks}
+                                categories={categories}
+                                date={effectiveViewDate}
+                                onToggle={toggleTask}
+                                onEdit={(t) => { setEditingTask({...t}); setEditingDate(effectiveViewDate); }}
+                                onReschedule={rescheduleTask}
+                            />
+                        ) : (
                         <TaskList 
                             tasks={sortedVisibleTasks} 
+                            categories={categories}
                             contextDate={effectiveViewDate} 
                             onToggle={toggleTask} 
+                            onToggleSubtask={toggleSubtaskCheck}
+                            onAdjustAmount={changeAmount}
+                            onShowStats={setStatsTaskId}
                             onDelete={handleDelete} 
                             onMoveTask={handleMoveTask} 
-                            onEdit={(t) => setEditingTask({...t})}
+                            onEdit={(t) => { setEditingTask({...t}); setEditingDate(effectiveViewDate); }}
                             onReorder={handleReorder}
+                            sort={daySort}
+                            hasCustomOrder={hasDayOrder(sortedVisibleTasks, effectiveViewDate)}
+                            onSortChange={changeDaySort}
+                            onResetOrder={resetDayOrder}
+                            onSetDefaultOrder={setDayOrderAsDefault}
                             // Compatibility props
                             onUpdateText={()=>{}} onUpdateTime={()=>{}} onCycleCategory={()=>{}} onCycleType={()=>{}} onUpdateWeeklyDay={()=>{}} onUpdateNotes={()=>{}} onUpdateCategory={()=>{}} onUpdateType={()=>{}}
                             moveDirection={selectedDate > todayStr ? 'backward' : 'forward'}
                         />
+                        )}
                     </>
                 )}
             </main>
 
-            <nav className="fixed bottom-0 left-0 right-0 bg-white/90 dark:bg-slate-900/90 backdrop-blur-2xl border-t border-slate-100 dark:border-slate-800 px-6 py-4 pb-safe flex justify-between items-center z-50">
+            <nav className="fixed bottom-0 left-0 right-0 bg-white/90 dark:bg-slate-900/90 backdrop-blur-2xl border-t border-slate-100 dark:border-slate-800 px-6 py-4 pb-safe flex justify-between items-center gap-4 overflow-x-auto no-scrollbar z-50">
                 <button onClick={() => setViewDate('day', 0)} className={`flex flex-col items-center gap-1.5 ${currentView === 'day' && selectedDate === todayStr ? 'text-indigo-600 scale-110' : 'text-slate-400'} transition-all`}>
                     <Home size={20} />
                     <span className="text-[9px] font-black uppercase">Today</span>
@@ -579,6 +1211,10 @@ const App: React.FC = () => {
                     <Sunrise size={20} strokeWidth={2.5} />
                     <span className="text-[9px] font-black uppercase">Tomorrow</span>
                 </button>
+                <button onClick={() => setViewDate('timeline')} className={`flex flex-col items-center gap-1.5 ${currentView === 'timeline' ? 'text-indigo-600 scale-110' : 'text-slate-400'} transition-all`}>
+                    <CalendarClock size={20} strokeWidth={2.5} />
+                    <span className="text-[9px] font-black uppercase">Timeline</span>
+                </button>
                 <button onClick={() => setViewDate('week')} className={`flex flex-col items-center gap-1.5 ${currentView === 'week' ? 'text-indigo-600 scale-110' : 'text-slate-400'} transition-all`}>
                     <CalendarDays size={20} strokeWidth={2.5} />
                     <span className="text-[9px] font-black uppercase">Week</span>
@@ -587,6 +1223,16 @@ const App: React.FC = () => {
                     <BarChart2 size={20} strokeWidth={2.5} />
                     <span className="text-[9px] font-black uppercase">Stats</span>
                 </button>
+                <button onClick={() => openSearch(null)} className={`flex flex-col items-center gap-1.5 ${currentView === 'search' && !activeList ? 'text-indigo-600 scale-110' : 'text-slate-400'} transition-all`}>
+                    <Search size={20} strokeWidth={2.5} />
+                    <span className="text-[9px] font-black uppercase">Search</span>
+                </button>
+                {smartLists.map(list => (
+                    <button key={list.id} onClick={() => openSearch(list)} className={`flex flex-col items-center gap-1.5 shrink-0 ${currentView === 'search' && activeListId === list.id ? 'text-indigo-600 scale-110' : 'text-slate-400'} transition-all`}>
+                        <ListFilter size={20} strokeWidth={2.5} />
+                        <span className="text-[9px] font-black uppercase max-w-[64px] truncate">{list.name}</span>
+                    </button>
+                ))}
             </nav>
         </div>
     );
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { startAlarm, previewSound, SOUND_PROFILES } from './alarmSound';
+
+// A minimal AudioContext that records the graph and every automation call
+const mockParam = () => ({
+    calls: [] as [string, number, number][],
+    setValueAtTime(value: number, time: number) { this.calls.push(['set', value, time]); },
+    linearRampToValueAtTime(value: number, time: number) { this.calls.push(['linear', value, time]); },
+    exponentialRampToValueAtTime(value: number, time: number) { this.calls.push(['exponential', value, time]); }
+});
+
+const mockContext = () => {
+    const gains: any[] = [];
+    const oscillators: any[] = [];
+    const destination = { name: 'destination' };
+    const ctx = {
+        currentTime: 10,
+        state: 'running',
+        destination,
+        resume: vi.fn(() => Promise.resolve()),
+        createGain: () => {
+            const node = { gain: mockParam(), connections: [] as any[], connect(target: any) { this.connections.push(target); }, disconnect: vi.fn() };
+            gains.push(node);
+            return node;
+        },
+        createOscillator: () => {
+            const node = {
+                type: '', frequency: mockParam(), connections: [] as any[], onended: null,
+                connect(target: any) { this.connections.push(target); },
+                start: vi.fn(), stop: vi.fn()
+            };
+            oscillators.push(node);
+            return node;
+        }
+    };
+    return { ctx: ctx as unknown as AudioContext, gains, oscillators, destination };
+};
+
+const OPTIONS = { profile: 'chime' as const, volume: 0.5, fadeInSeconds: 0, maxDurationSeconds: 30 };
+
+describe('alarm sound', () => {
+    beforeEach(() => { vi.useFakeTimers(); });
+    afterEach(() => { vi.useRealTimers(); });
+
+    it('builds one oscillator and gain per note, routed through a master gain', () => {
+        const { ctx, gains, oscillators, destination } = mockContext();
+        const stop = startAlarm(ctx, OPTIONS);
+        const profile = SOUND_PROFILES.chime;
+        const [master, ...noteGains] = gains;
+
+        expect(master.connections).toEqual([destination]);
+        expect(oscillators).toHaveLength(profile.notes.length);
+        oscillators.forEach((osc, i) => {
+            expect(osc.type).toBe(profile.wave);
+            expect(osc.frequency.calls[0]).toEqual(['set', profile.notes[i].freq, 10 + profile.notes[i].start]);
+            expect(osc.connections).toEqual([noteGains[i]]);
+            expect(noteGains[i].connections).toEqual([master]);
+            expect(osc.start).toHaveBeenCalledWith(10 + profile.notes[i].start);
+        });
+        // Chime rings out instead of cutting off
+        expect(noteGains[0].gain.calls.map((c: any) => c[0])).toEqual(['set', 'linear', 'exponential']);
+        stop();
+    });
+
+    it('plays at full volume right away without a fade-in', () => {
+        const { ctx, gains } = mockContext();
+        const stop = startAlarm(ctx, OPTIONS);
+        expect(gains[0].gain.calls).toEqual([['set', 0.5, 10]]);
+        stop();
+    });
+
+    it('ramps the master gain from silence over the fade-in', () => {
+        const { ctx, gains } = mockContext();
+        const stop = startAlarm(ctx, { ...OPTIONS, fadeInSeconds: 15 });
+        expect(gains[0].gain.calls).toEqual([['set', 0.0001, 10], ['linear', 0.5, 25]]);
+        stop();
+    });
+
+    it('repeats the cycle at the profile interval', () => {
+        const { ctx, oscillators } = mockContext();
+        const stop = startAlarm(ctx, OPTIONS);
+        const perCycle = SOUND_PROFILES.chime.notes.length;
+        vi.advanceTimersByTime(SOUND_PROFILES.chime.interval * 1000 * 2);
+        expect(oscillators).toHaveLength(perCycle * 3);
+        stop();
+    });
+
+    it('stops by itself after the maximum duration and reports it', () => {
+        const { ctx, gains, oscillators } = mockContext();
+        const onEnd = vi.fn();
+        startAlarm(ctx, { ...OPTIONS, maxDurationSeconds: 30, onEnd });
+
+        vi.advanceTimersByTime(29_999);
+        expect(onEnd).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(1);
+        expect(onEnd).toHaveBeenCalledTimes(1);
+        expect(gains[0].disconnect).toHaveBeenCalled();
+        expect(oscillators[oscillators.length - 1].stop).toHaveBeenCalledWith();
+
+        // No more cycles once it has ended
+        const count = oscillators.length;
+        vi.advanceTimersByTime(10_000);
+        expect(oscillators).toHaveLength(count);
+    });
+
+    it('does not report the end when stopped by hand', () => {
+        const { ctx } = mockContext();
+        const onEnd = vi.fn();
+        const stop = startAlarm(ctx, { ...OPTIONS, onEnd });
+        stop();
+        vi.advanceTimersByTime(OPTIONS.maxDurationSeconds * 1000);
+        expect(onEnd).not.toHaveBeenCalled();
+    });
+
+    it('previews a single cycle at the given volume', () => {
+        const { ctx, gains, oscillators } = mockContext();
+        previewSound(ctx, 'bell', 0.3);
+        expect(gains[0].gain.calls).toEqual([['set', 0.3, 10]]);
+        expect(oscillators).toHaveLength(SOUND_PROFILES.bell.notes.length);
+        vi.advanceTimersByTime(10_000);
+        expect(oscillators).toHaveLength(SOUND_PROFILES.bell.notes.length);
+    });
+});
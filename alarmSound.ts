@@ -0,0 +1,204 @@
+import { Category } from './types';
+
+// --- Alarm Sounds ---
+// Synthesized with Web Audio, so there are no sound files to cache. Every
+// function takes the AudioContext as an argument; tests can pass a mock.
+
+export type SoundProfile = 'classic' | 'chime' | 'bell' | 'pulse' | 'digital';
+
+interface Note {
+    freq: number;
+    start: number;    // Seconds into the cycle
+    duration: number;
+}
+
+interface ProfileDefinition {
+    label: string;
+    wave: OscillatorType;
+    level: number;    // Peak gain of a note at full volume; square waves are much louder
+    interval: number; // Seconds between the starts of two cycles
+    decay: boolean;   // Ring out exponentially instead of a flat beep
+    notes: Note[];
+}
+
+export const SOUND_PROFILES: Record<SoundProfile, ProfileDefinition> = {
+    classic: {
+        label: 'Classic', wave: 'square', level: 0.15, interval: 2, decay: false,
+        notes: [{ freq: 880, start: 0, duration: 0.2 }, { freq: 440, start: 0.2, duration: 0.2 }, { freq: 880, start: 0.4, duration: 0.2 }]
+    },
+    chime: {
+        label: 'Chime', wave: 'sine', level: 0.6, interval: 2.5, decay: true,
+        notes: [{ freq: 1047, start: 0, duration: 0.6 }, { freq: 1319, start: 0.3, duration: 0.6 }, { freq: 1568, start: 0.6, duration: 0.9 }]
+    },
+    bell: {
+        label: 'Bell', wave: 'triangle', level: 0.5, interval: 3, decay: true,
+        notes: [{ freq: 660, start: 0, duration: 1.6 }, { freq: 990, start: 0, duration: 1.2 }]
+    },
+    pulse: {
+        label: 'Pulse', wave: 'sine', level: 0.6, interval: 1, decay: false,
+        notes: [{ freq: 740, start: 0, duration: 0.15 }, { freq: 740, start: 0.25, duration: 0.15 }]
+    },
+    digital: {
+        label: 'Digital', wave: 'square', level: 0.1, interval: 1.5, decay: false,
+        notes: [0, 0.12, 0.24, 0.36].map(start => ({ freq: 2000, start, duration: 0.06 }))
+    }
+};
+
+export const SOUND_PROFILE_IDS = Object.keys(SOUND_PROFILES) as SoundProfile[];
+
+export interface AlarmSettings {
+    sound: SoundProfile;
+    categorySounds: Partial<Record<Category, SoundProfile>>; // Unset categories use `sound`
+    volume: number;      // 0..1
+    fadeInSeconds: number;
+    maxDurationSeconds: number;
+}
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+    sound: 'classic',
+    categorySounds: {},
+    volume: 0.8,
+    fadeInSeconds: 0,
+    maxDurationSeconds: 60
+};
+
+export const FADE_IN_OPTIONS = [0, 5, 15, 30];
+export const MAX_DURATION_OPTIONS = [30, 60, 120, 300];
+
+export const ALARM_SETTINGS_KEY = 'moti_alarm_settings';
+
+const isProfile = (value: any): value is SoundProfile => typeof value === 'string' && value in SOUND_PROFILES;
+
+// Unknown or out-of-range values fall back to the defaults one by one
+export const readAlarmSettings = (storage: Storage = window.localStorage): AlarmSettings => {
+    let stored: any;
+    try {
+        stored = JSON.parse(storage.getItem(ALARM_SETTINGS_KEY) || '{}');
+    } catch (e) {
+        stored = {};
+    }
+    if (!stored || typeof stored !== 'object') stored = {};
+    const categorySounds: AlarmSettings['categorySounds'] = {};
+    if (stored.categorySounds && typeof stored.categorySounds === 'object') {
+        Object.entries(stored.categorySounds).forEach(([category, sound]) => {
+            if (isProfile(sound)) categorySounds[category as Category] = sound;
+        });
+    }
+    const inRange = (value: any, min: number, max: number, fallback: number) =>
+        typeof value === 'number' && value >= min && value <= max ? value : fallback;
+    return {
+        sound: isProfile(stored.sound) ? stored.sound : DEFAULT_ALARM_SETTINGS.sound,
+        categorySounds,
+        volume: inRange(stored.volume, 0, 1, DEFAULT_ALARM_SETTINGS.volume),
+        fadeInSeconds: inRange(stored.fadeInSeconds, 0, 300, DEFAULT_ALARM_SETTINGS.fadeInSeconds),
+        maxDurationSeconds: inRange(stored.maxDurationSeconds, 5, 3600, DEFAULT_ALARM_SETTINGS.maxDurationSeconds)
+    };
+};
+
+export const writeAlarmSettings = (settings: AlarmSettings, storage: Storage = window.localStorage) => {
+    storage.setItem(ALARM_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const soundForCategory = (settings: AlarmSettings, category?: Category): SoundProfile =>
+    (category && settings.categorySounds[category]) || settings.sound;
+
+// --- Audio Context ---
+// Browsers only start audio after a user gesture, so the context is created
+// (or resumed) on the first click and reused from then on.
+let audioCtx: AudioContext | null = null;
+
+export const getAudioContext = (): AudioContext | null => {
+    if (!audioCtx) {
+        const Ctor = window.AudioContext || (window as any).webkitAudioContext;
+        if (!Ctor) return null;
+        audioCtx = new Ctor();
+    }
+    if (audioCtx.state === 'suspended') {
+        audioCtx.resume().catch(e => console.log("Audio resume failed", e));
+    }
+    return audioCtx;
+};
+
+// Schedules one cycle of a profile into `output`, starting at `at`
+const playCycle = (ctx: AudioContext, output: AudioNode, profile: ProfileDefinition, at: number): OscillatorNode[] =>
+    profile.notes.map(note => {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = profile.wave;
+        osc.frequency.setValueAtTime(note.freq, at + note.start);
+        osc.connect(gain);
+        gain.connect(output);
+
+        const start = at + note.start;
+        const end = start + note.duration;
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(profile.level, start + 0.01);
+        if (profile.decay) gain.gain.exponentialRampToValueAtTime(0.0001, end);
+        else {
+            gain.gain.setValueAtTime(profile.level, end - 0.01);
+            gain.gain.linearRampToValueAtTime(0, end);
+        }
+        osc.start(start);
+        osc.stop(end + 0.05);
+        osc.onended = () => gain.disconnect();
+        return osc;
+    });
+
+export interface AlarmOptions {
+    profile: SoundProfile;
+    volume: number;
+    fadeInSeconds: number;
+    maxDurationSeconds: number;
+    onEnd?: () => void; // Called when the maximum duration runs out, not on stop()
+}
+
+// Repeats the profile until stopped or until the maximum duration, fading in
+// from silence over `fadeInSeconds`. Returns the stop function.
+export const startAlarm = (ctx: AudioContext, options: AlarmOptions): (() => void) => {
+    const profile = SOUND_PROFILES[options.profile];
+    const master = ctx.createGain();
+    master.connect(ctx.destination);
+    const t = ctx.currentTime;
+    if (options.fadeInSeconds > 0) {
+        master.gain.setValueAtTime(0.0001, t);
+        master.gain.linearRampToValueAtTime(options.volume, t + options.fadeInSeconds);
+    } else {
+        master.gain.setValueAtTime(options.volume, t);
+    }
+
+    let playing: OscillatorNode[] = [];
+    const cycle = () => {
+        if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+        playing = playCycle(ctx, master, profile, ctx.currentTime);
+    };
+    cycle();
+    const intervalId = setInterval(cycle, profile.interval * 1000);
+
+    let stopped = false;
+    const stop = () => {
+        if (stopped) return;
+        stopped = true;
+        clearInterval(intervalId);
+        clearTimeout(timeoutId);
+        playing.forEach(osc => { try { osc.stop(); } catch (e) {} });
+        try { master.disconnect(); } catch (e) {}
+    };
+    const timeoutId = setTimeout(() => {
+        stop();
+        options.onEnd?.();
+    }, options.maxDurationSeconds * 1000);
+    return stop;
+};
+
+// One cycle at the given volume, for the settings screen
+export const previewSound = (ctx: AudioContext, profile: SoundProfile, volume: number): (() => void) => {
+    const definition = SOUND_PROFILES[profile];
+    const master = ctx.createGain();
+    master.gain.setValueAtTime(volume, ctx.currentTime);
+    master.connect(ctx.destination);
+    const oscillators = playCycle(ctx, master, definition, ctx.currentTime);
+    return () => {
+        oscillators.forEach(osc => { try { osc.stop(); } catch (e) {} });
+        try { master.disconnect(); } catch (e) {}
+    };
+};
@@ -0,0 +1,67 @@
+import { Task } from './types';
+
+// --- Alerts ---
+// Alerts that fire together queue up in the overlay. Every alert is also
+// written to a small log in localStorage so it can be reviewed afterwards.
+
+export interface ActiveAlert {
+    key: string; // Reminder key, see reminders.ts
+    task: Task;  // The occurrence as it looked when it fired
+    date: string;
+    offset: number;
+    firedAt: string;
+}
+
+export type AlertOutcome = 'completed' | 'snoozed' | 'moved' | 'dismissed' | 'missed';
+
+export interface AlertLogEntry {
+    key: string;
+    taskId: number;
+    text: string;
+    date: string;
+    offset: number;
+    firedAt: string;
+    outcome?: AlertOutcome; // Unset while the alert is still showing
+    resolvedAt?: string;
+}
+
+const LOG_KEY = 'moti_alert_log';
+export const ALERT_LOG_LIMIT = 100;
+
+export const readAlertLog = (storage: Storage = window.localStorage): AlertLogEntry[] => {
+    try {
+        const log = JSON.parse(storage.getItem(LOG_KEY) || '[]');
+        return Array.isArray(log) ? log : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+const writeAlertLog = (log: AlertLogEntry[], storage: Storage) => {
+    storage.setItem(LOG_KEY, JSON.stringify(log.slice(-ALERT_LOG_LIMIT)));
+};
+
+export const appendAlertLog = (entries: AlertLogEntry[], storage: Storage = window.localStorage): AlertLogEntry[] => {
+    const log = [...readAlertLog(storage), ...entries];
+    writeAlertLog(log, storage);
+    return log.slice(-ALERT_LOG_LIMIT);
+};
+
+export const resolveAlertLog = (keys: string[], outcome: AlertOutcome, storage: Storage = window.localStorage): AlertLogEntry[] => {
+    const resolvedAt = new Date().toISOString();
+    const log = readAlertLog(storage).map(e => keys.includes(e.key) && !e.outcome ? { ...e, outcome, resolvedAt } : e);
+    writeAlertLog(log, storage);
+    return log;
+};
+
+export const clearAlertLog = (storage: Storage = window.localStorage) => storage.removeItem(LOG_KEY);
+
+export const toLogEntry = (alert: ActiveAlert, outcome?: AlertOutcome): AlertLogEntry => ({
+    key: alert.key,
+    taskId: alert.task.id,
+    text: alert.task.text,
+    date: alert.date,
+    offset: alert.offset,
+    firedAt: alert.firedAt,
+    ...(outcome ? { outcome, resolvedAt: alert.firedAt } : {})
+});
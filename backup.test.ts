@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseBackup, replacedSettings } from './backup';
+import { CATEGORIES_KEY } from './categories';
+
+// A backup written before category ids and positive ids existed
+const V0_BACKUP = {
+    app: 'moti-on',
+    format: 1,
+    schemaVersion: 0,
+    exportedAt: '2026-10-01T08:00:00.000Z',
+    tasks: [
+        { id: -5, text: 'Draft', type: 'one-time', category: '', dateCreated: '2026-10-01', completions: [] },
+        { id: 6, text: 'Water plants', type: 'weekly', weeklyDay: 3, category: 'Personal', dateCreated: '2026-10-01', completions: [] },
+        { id: 5, text: 'Same id once migrated', type: 'one-time', category: 'Work', dateCreated: '2026-10-01', completions: [] },
+        { id: 8, text: 'Broken', type: 'one-time', category: 'Work', dateCreated: 'yesterday', completions: [] }
+    ],
+    settings: { theme: 'dark', [CATEGORIES_KEY]: '[]' }
+};
+
+describe('backup import', () => {
+    it('migrates old tasks before validating them', () => {
+        const { tasks, errors } = parseBackup(JSON.stringify(V0_BACKUP));
+        expect(tasks).toHaveLength(2);
+        expect(tasks[0]).toMatchObject({ id: 5, category: 'other', hiddenDates: [] });
+        expect(tasks[1]).toMatchObject({ id: 6, category: 'personal', recurrence: { freq: 'weekly', interval: 1, byDay: [3] } });
+        expect(errors).toEqual([
+            'Task 3 ("Same id once migrated"): duplicate id 5',
+            'Task 4 ("Broken"): invalid dateCreated'
+        ]);
+    });
+
+    it('accepts a bare task list as v0', () => {
+        const { tasks, settings } = parseBackup(JSON.stringify(V0_BACKUP.tasks.slice(0, 2)));
+        expect(tasks.map(t => t.id)).toEqual([5, 6]);
+        expect(settings).toEqual({});
+    });
+
+    it('lists the settings an import replaces, leaving categories to a merge', () => {
+        const { settings } = parseBackup(JSON.stringify(V0_BACKUP));
+        expect(replacedSettings(settings, 'replace')).toEqual(['theme', CATEGORIES_KEY]);
+        expect(replacedSettings(settings, 'merge')).toEqual(['theme']);
+    });
+});
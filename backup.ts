@@ -0,0 +1,211 @@
+import { Task, TASK_TYPES, FREQUENCIES } from './types';
+import { SCHEMA_VERSION, migrateTasks } from './storage';
+import { ALARM_SETTINGS_KEY } from './alarmSound';
+import { QUIET_SETTINGS_KEY } from './quietHours';
+import { PARTIAL_PROGRESS_KEY } from './subtasks';
+import { CATEGORIES_KEY } from './categories';
+import { SMART_LISTS_KEY } from './search';
+import { DAY_SORT_KEY } from './dayOrder';
+
+// --- JSON Backup ---
+// A backup holds every task plus the app settings, tagged with the schema
+// version so older files run through the same migrations as stored data.
+
+export const BACKUP_FORMAT = 1;
+
+// localStorage keys that make up the app settings
+export const SETTINGS_KEYS = ['theme', ALARM_SETTINGS_KEY, QUIET_SETTINGS_KEY, PARTIAL_PROGRESS_KEY, CATEGORIES_KEY, SMART_LISTS_KEY, DAY_SORT_KEY];
+
+// Names shown in the import preview
+export const SETTINGS_LABELS: Record<string, string> = {
+    theme: 'theme',
+    [ALARM_SETTINGS_KEY]: 'alarm sound',
+    [QUIET_SETTINGS_KEY]: 'quiet hours',
+    [PARTIAL_PROGRESS_KEY]: 'progress counting',
+    [CATEGORIES_KEY]: 'categories',
+    [SMART_LISTS_KEY]: 'smart lists',
+    [DAY_SORT_KEY]: 'day sorting'
+};
+
+// Settings an import overwrites. A merge combines categories instead.
+export const replacedSettings = (settings: Record<string, string>, mode: ImportMode): string[] =>
+    SETTINGS_KEYS.filter(key => key in settings && !(mode === 'merge' && key === CATEGORIES_KEY));
+
+export interface BackupFile {
+    app: 'moti-on';
+    format: number;
+    schemaVersion: number;
+    exportedAt: string;
+    tasks: Task[];
+    settings: Record<string, string>;
+}
+
+export interface ParsedBackup {
+    tasks: Task[];
+    settings: Record<string, string>;
+    exportedAt: string;
+    errors: string[]; // One entry per task that was skipped
+}
+
+export interface BackupDiff {
+    added: Task[];
+    updated: Task[];
+    unchanged: Task[];
+    removed: Task[]; // Only lost when replacing
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export const readSettings = (storage: Storage = window.localStorage): Record<string, string> => {
+    const settings: Record<string, string> = {};
+    SETTINGS_KEYS.forEach(key => {
+        const value = storage.getItem(key);
+        if (value !== null) settings[key] = value;
+    });
+    return settings;
+};
+
+export const createBackup = (tasks: Task[], settings: Record<string, string>): BackupFile => ({
+    app: 'moti-on',
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    tasks,
+    settings
+});
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const isDateList = (value: any) => Array.isArray(value) && value.every(d => typeof d === 'string' && ISO_DATE.test(d));
+const isCompletionRecord = (r: any) => !!r && typeof r === 'object' &&
+    (r.at === undefined || /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(r.at)) &&
+    (r.minutes === undefined || (Number.isInteger(r.minutes) && r.minutes > 0)) &&
+    (r.note === undefined || typeof r.note === 'string');
+
+// Returns the reason a record is not a valid Task, or null
+export const validateTask = (t: any): string | null => {
+    if (!t || typeof t !== 'object') return 'not an object';
+    if (typeof t.id !== 'number' || !Number.isFinite(t.id)) return 'missing numeric id';
+    if (typeof t.text !== 'string') return 'missing text';
+    if (!TASK_TYPES.includes(t.type)) return `unknown type "${t.type}"`;
+    if (typeof t.category !== 'string' || !t.category.trim()) return 'missing category';
+    if (typeof t.dateCreated !== 'string' || !ISO_DATE.test(t.dateCreated)) return 'invalid dateCreated';
+    if (!isDateList(t.completions)) return 'invalid completions';
+    if (t.hiddenDates !== undefined && !isDateList(t.hiddenDates)) return 'invalid hiddenDates';
+    if (t.weeklyDay !== undefined && t.weeklyDay !== null && !(Number.isInteger(t.weeklyDay) && t.weeklyDay >= 0 && t.weeklyDay <= 6)) return 'invalid weeklyDay';
+    if (t.time !== undefined && !(typeof t.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(t.time))) return 'invalid time';
+    if (t.notes !== undefined && typeof t.notes !== 'string') return 'invalid notes';
+    if (t.duration !== undefined && !(Number.isInteger(t.duration) && t.duration > 0 && t.duration <= 24 * 60)) return 'invalid duration';
+    if (t.recurrence !== undefined && !(t.recurrence && FREQUENCIES.includes(t.recurrence.freq))) return 'invalid recurrence';
+    if (t.overrides !== undefined && (typeof t.overrides !== 'object' || Array.isArray(t.overrides))) return 'invalid overrides';
+    if (t.snooze !== undefined && !(t.snooze && ISO_DATE.test(t.snooze.date) && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(t.snooze.until))) return 'invalid snooze';
+    if (t.reminders !== undefined && !(Array.isArray(t.reminders) && t.reminders.every((m: any) => Number.isInteger(m) && m >= 0))) return 'invalid reminders';
+    if (t.subtasks !== undefined && !(Array.isArray(t.subtasks) && t.subtasks.every((st: any) => st && Number.isInteger(st.id) && typeof st.text === 'string'))) return 'invalid subtasks';
+    if (t.subtaskChecks !== undefined && !(t.subtaskChecks && typeof t.subtaskChecks === 'object' && Object.entries(t.subtaskChecks).every(([d, ids]) => ISO_DATE.test(d) && Array.isArray(ids) && ids.every(Number.isInteger)))) return 'invalid subtaskChecks';
+    if (t.tags !== undefined && !(Array.isArray(t.tags) && t.tags.every((tag: any) => typeof tag === 'string' && tag))) return 'invalid tags';
+    if (t.priority !== undefined && ![1, 2, 3].includes(t.priority)) return 'invalid priority';
+    if (t.dayPositions !== undefined && !(t.dayPositions && typeof t.dayPositions === 'object' && Object.entries(t.dayPositions).every(([d, p]) => ISO_DATE.test(d) && Number.isInteger(p)))) return 'invalid dayPositions';
+    if (t.goal !== undefined && !(t.goal && t.goal.target > 0 && t.goal.step > 0 && typeof t.goal.unit === 'string')) return 'invalid goal';
+    if (t.amounts !== undefined && !(t.amounts && typeof t.amounts === 'object' && Object.entries(t.amounts).every(([d, a]) => ISO_DATE.test(d) && typeof a === 'number' && a > 0))) return 'invalid amounts';
+    if (t.completionLog !== undefined && !(t.completionLog && typeof t.completionLog === 'object' && Object.entries(t.completionLog).every(([d, r]) => ISO_DATE.test(d) && isCompletionRecord(r)))) return 'invalid completionLog';
+    if (t.snoozeCount !== undefined && !(Number.isInteger(t.snoozeCount) && t.snoozeCount >= 0)) return 'invalid snoozeCount';
+    return null;
+};
+
+// Parses and validates a backup file. Throws for files that are not backups at all.
+export const parseBackup = (content: string): ParsedBackup => {
+    let data: any;
+    try {
+        data = JSON.parse(content);
+    } catch (e) {
+        throw new Error('File is not valid JSON');
+    }
+
+    // Plain task arrays (e.g. a copy of the old pro_tasks value) are accepted as schema v0
+    const isBareList = Array.isArray(data);
+    if (!isBareList && (data?.app !== 'moti-on' || !Array.isArray(data.tasks))) {
+        throw new Error('File is not a MOTI-ON backup');
+    }
+    if (!isBareList && data.format > BACKUP_FORMAT) {
+        throw new Error('Backup was made by a newer version of the app');
+    }
+
+    const rawTasks: any[] = isBareList ? data : data.tasks;
+    const version = isBareList ? 0 : (Number(data.schemaVersion) || 0);
+    const errors: string[] = [];
+    const seen = new Set<number>();
+
+    // Older files are migrated before validation, so fields added by a migration
+    // (category ids, recurrence rules, positive ids) are not reported as missing
+    const valid = rawTasks.map(t => migrateTasks([t], version)[0]).filter((t, i) => {
+        const reason = validateTask(t);
+        if (reason) {
+            errors.push(`Task ${i + 1}${t && typeof t.text === 'string' ? ` ("${t.text}")` : ''}: ${reason}`);
+            return false;
+        }
+        if (seen.has(t.id)) {
+            errors.push(`Task ${i + 1} ("${t.text}"): duplicate id ${t.id}`);
+            return false;
+        }
+        seen.add(t.id);
+        return true;
+    }).map(t => ({ ...t, hiddenDates: t.hiddenDates || [] }));
+
+    const settings: Record<string, string> = {};
+    if (!isBareList && data.settings && typeof data.settings === 'object') {
+        SETTINGS_KEYS.forEach(key => {
+            if (typeof data.settings[key] === 'string') settings[key] = data.settings[key];
+        });
+    }
+
+    return {
+        tasks: valid,
+        settings,
+        exportedAt: isBareList ? '' : String(data.exportedAt || ''),
+        errors
+    };
+};
+
+const union = (a: string[] = [], b: string[] = []): string[] => Array.from(new Set([...a, ...b])).sort();
+
+// Same id: incoming fields win, but per-date history from both sides is kept
+export const mergeTask = (current: Task, incoming: Task): Task => {
+    const overrides = { ...(current.overrides || {}), ...(incoming.overrides || {}) };
+    const subtaskChecks = { ...(current.subtaskChecks || {}), ...(incoming.subtaskChecks || {}) };
+    const dayPositions = { ...(current.dayPositions || {}), ...(incoming.dayPositions || {}) };
+    const amounts = { ...(current.amounts || {}), ...(incoming.amounts || {}) };
+    const completionLog = { ...(current.completionLog || {}), ...(incoming.completionLog || {}) };
+    return {
+        ...current,
+        ...incoming,
+        completions: union(current.completions, incoming.completions),
+        hiddenDates: union(current.hiddenDates, incoming.hiddenDates),
+        overrides: Object.keys(overrides).length ? overrides : undefined,
+        subtaskChecks: Object.keys(subtaskChecks).length ? subtaskChecks : undefined,
+        dayPositions: Object.keys(dayPositions).length ? dayPositions : undefined,
+        amounts: Object.keys(amounts).length ? amounts : undefined,
+        completionLog: Object.keys(completionLog).length ? completionLog : undefined
+    };
+};
+
+export const diffBackup = (current: Task[], incoming: Task[]): BackupDiff => {
+    const currentById = new Map(current.map(t => [t.id, t]));
+    const incomingIds = new Set(incoming.map(t => t.id));
+    const diff: BackupDiff = { added: [], updated: [], unchanged: [], removed: [] };
+
+    incoming.forEach(t => {
+        const existing = currentById.get(t.id);
+        if (!existing) diff.added.push(t);
+        else if (JSON.stringify(mergeTask(existing, t)) === JSON.stringify(existing)) diff.unchanged.push(t);
+        else diff.updated.push(t);
+    });
+    diff.removed = current.filter(t => !incomingIds.has(t.id));
+    return diff;
+};
+
+export const applyBackup = (current: Task[], incoming: Task[], mode: ImportMode): Task[] => {
+    if (mode === 'replace') return incoming;
+    const incomingById = new Map(incoming.map(t => [t.id, t]));
+    const merged = current.map(t => incomingById.has(t.id) ? mergeTask(t, incomingById.get(t.id)!) : t);
+    const currentIds = new Set(current.map(t => t.id));
+    return [...merged, ...incoming.filter(t => !currentIds.has(t.id))];
+};
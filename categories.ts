@@ -0,0 +1,134 @@
+import { Task, Category } from './types';
+
+// --- Categories ---
+// Tasks store a category id; names, colors and icons live in this list so they
+// can change without touching the tasks. The list order is the picker order.
+// Archived categories keep their tasks but are left out of the pickers.
+
+export type CategoryColor = 'purple' | 'blue' | 'emerald' | 'slate' | 'indigo' | 'rose' | 'amber' | 'cyan' | 'orange' | 'pink';
+export type CategoryIcon = 'user' | 'briefcase' | 'heart' | 'circle' | 'book' | 'home' | 'star' | 'dumbbell' | 'code' | 'cart' | 'graduation' | 'users' | 'plane' | 'music' | 'coffee' | 'tag';
+
+export interface CategoryDef {
+    id: Category;
+    label: string;
+    color: CategoryColor;
+    icon: CategoryIcon;
+    archived?: boolean;
+}
+
+// Full class names, so Tailwind keeps them in the build
+export const CATEGORY_COLORS: Record<CategoryColor, { dot: string, block: string, text: string }> = {
+    purple: { dot: 'bg-purple-500', block: 'bg-purple-50 border-purple-400 dark:bg-purple-900/30', text: 'text-purple-600' },
+    blue: { dot: 'bg-blue-500', block: 'bg-blue-50 border-blue-400 dark:bg-blue-900/30', text: 'text-blue-600' },
+    emerald: { dot: 'bg-emerald-500', block: 'bg-emerald-50 border-emerald-400 dark:bg-emerald-900/30', text: 'text-emerald-600' },
+    slate: { dot: 'bg-slate-400', block: 'bg-slate-50 border-slate-400 dark:bg-slate-800', text: 'text-slate-500' },
+    indigo: { dot: 'bg-indigo-500', block: 'bg-indigo-50 border-indigo-400 dark:bg-indigo-900/30', text: 'text-indigo-600' },
+    rose: { dot: 'bg-rose-500', block: 'bg-rose-50 border-rose-400 dark:bg-rose-900/30', text: 'text-rose-600' },
+    amber: { dot: 'bg-amber-500', block: 'bg-amber-50 border-amber-400 dark:bg-amber-900/30', text: 'text-amber-600' },
+    cyan: { dot: 'bg-cyan-500', block: 'bg-cyan-50 border-cyan-400 dark:bg-cyan-900/30', text: 'text-cyan-600' },
+    orange: { dot: 'bg-orange-500', block: 'bg-orange-50 border-orange-400 dark:bg-orange-900/30', text: 'text-orange-600' },
+    pink: { dot: 'bg-pink-500', block: 'bg-pink-50 border-pink-400 dark:bg-pink-900/30', text: 'text-pink-600' }
+};
+
+export const CATEGORY_COLOR_IDS = Object.keys(CATEGORY_COLORS) as CategoryColor[];
+export const CATEGORY_ICON_IDS: CategoryIcon[] = ['user', 'briefcase', 'heart', 'circle', 'book', 'home', 'star', 'dumbbell', 'code', 'cart', 'graduation', 'users', 'plane', 'music', 'coffee', 'tag'];
+
+// The four categories the app shipped with; their ids are what older tasks store
+export const DEFAULT_CATEGORIES: CategoryDef[] = [
+    { id: 'personal', label: 'Personal', color: 'purple', icon: 'user' },
+    { id: 'work', label: 'Work', color: 'blue', icon: 'briefcase' },
+    { id: 'health', label: 'Health', color: 'emerald', icon: 'heart' },
+    { id: 'other', label: 'Other', color: 'slate', icon: 'circle' }
+];
+
+export const FALLBACK_CATEGORY: Category = 'other'; // For tasks without a usable category
+const PREFERRED_DEFAULT: Category = 'personal';
+
+export const CATEGORIES_KEY = 'moti_categories';
+
+const isCategoryDef = (c: any): c is CategoryDef =>
+    !!c && typeof c.id === 'string' && !!c.id && typeof c.label === 'string' &&
+    c.color in CATEGORY_COLORS && CATEGORY_ICON_IDS.includes(c.icon) &&
+    (c.archived === undefined || typeof c.archived === 'boolean');
+
+// Nothing stored yet means the built-in list; invalid or duplicate entries are dropped
+export const readCategories = (storage: Storage = window.localStorage): CategoryDef[] =>
+    parseCategories(storage.getItem(CATEGORIES_KEY));
+
+// The stored form, also found in backups
+export const parseCategories = (raw: string | null): CategoryDef[] => {
+    let stored: any;
+    try {
+        stored = JSON.parse(raw || 'null');
+    } catch (e) {
+        stored = null;
+    }
+    if (!Array.isArray(stored)) return DEFAULT_CATEGORIES;
+    const seen = new Set<string>();
+    const categories = stored.filter(c => isCategoryDef(c) && !seen.has(c.id) && seen.add(c.id));
+    return categories.length ? categories : DEFAULT_CATEGORIES;
+};
+
+export const writeCategories = (categories: CategoryDef[], storage: Storage = window.localStorage) => {
+    storage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
+};
+
+const titleCase = (id: string) => id.charAt(0).toUpperCase() + id.slice(1);
+
+// Unknown ids, e.g. from another device, still get a readable label
+export const categoryById = (categories: CategoryDef[], id: Category): CategoryDef =>
+    categories.find(c => c.id === id) || { id, label: titleCase(id), color: 'slate', icon: 'tag' };
+
+export const categoryColor = (categories: CategoryDef[], id: Category) => CATEGORY_COLORS[categoryById(categories, id).color];
+
+// Categories offered in pickers. `current` stays listed even when archived.
+export const pickableCategories = (categories: CategoryDef[], current?: Category): CategoryDef[] => {
+    const active = categories.filter(c => !c.archived || c.id === current);
+    return current && !active.some(c => c.id === current) ? [...active, categoryById(categories, current)] : active;
+};
+
+export const defaultCategoryId = (categories: CategoryDef[]): Category => {
+    const active = categories.filter(c => !c.archived);
+    return (active.find(c => c.id === PREFERRED_DEFAULT) || active[0] || categories[0])?.id ?? FALLBACK_CATEGORY;
+};
+
+// A slug of the label, made unique; labels without latin letters fall back to "category"
+export const newCategoryId = (categories: CategoryDef[], label: string): Category => {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'category';
+    const taken = new Set(categories.map(c => c.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    return id;
+};
+
+// Adds a definition for every id the tasks use but the list lacks, so nothing is orphaned
+export const withUsedCategories = (categories: CategoryDef[], tasks: Task[]): CategoryDef[] => {
+    const known = new Set(categories.map(c => c.id));
+    const missing = new Set<Category>();
+    tasks.forEach(t => {
+        if (!known.has(t.category)) missing.add(t.category);
+        Object.values(t.overrides || {}).forEach(o => { if (o.category && !known.has(o.category)) missing.add(o.category); });
+    });
+    return missing.size ? [...categories, ...Array.from(missing).map(id => categoryById([], id))] : categories;
+};
+
+// Combines lists by id like a backup merge does tasks: incoming definitions win,
+// current ones keep their place and new ones go to the end
+export const mergeCategoryLists = (current: CategoryDef[], incoming: CategoryDef[]): CategoryDef[] => {
+    const incomingById = new Map(incoming.map(c => [c.id, c]));
+    const currentIds = new Set(current.map(c => c.id));
+    return [...current.map(c => incomingById.get(c.id) || c), ...incoming.filter(c => !currentIds.has(c.id))];
+};
+
+const usesCategory = (task: Task, id: Category) =>
+    task.category === id || Object.values(task.overrides || {}).some(o => o.category === id);
+
+// Moves every task and occurrence override from one category to another
+export const mergeCategoryTasks = (tasks: Task[], fromId: Category, toId: Category): Task[] => tasks.map(t => {
+    if (!usesCategory(t, fromId)) return t;
+    const overrides = t.overrides && Object.fromEntries(Object.entries(t.overrides).map(([date, o]) =>
+        [date, o.category === fromId ? { ...o, category: toId } : o]));
+    return { ...t, category: t.category === fromId ? toId : t.category, overrides };
+});
+
+export const countCategoryTasks = (tasks: Task[], id: Category): number => tasks.filter(t => usesCategory(t, id)).length;
@@ -0,0 +1,60 @@
+import { Task, CompletionRecord } from './types';
+import { getLocalDateTime } from './utils';
+
+// --- Completion Log ---
+// `completions` stays a plain list of dates, so everything that reads it keeps
+// working. Alongside it, Task.completionLog records when each occurrence was
+// checked off, how long it took and a note. Records follow the list: checking
+// off stamps the time and unchecking drops the record.
+
+export const USUAL_TIME_MIN_SAMPLES = 3;
+
+export const completionOn = (task: Task, date: string): CompletionRecord | undefined =>
+    task.completions.includes(date) ? task.completionLog?.[date] : undefined;
+
+// Replaces the record for `date`; empty fields and empty records are dropped
+export const withCompletionRecord = (task: Task, date: string, record: CompletionRecord | undefined): Task => {
+    const clean: CompletionRecord = {};
+    if (record?.at) clean.at = record.at;
+    if (record?.minutes && record.minutes > 0) clean.minutes = Math.round(record.minutes);
+    if (record?.note?.trim()) clean.note = record.note.trim();
+    const log = { ...(task.completionLog || {}) };
+    if (Object.keys(clean).length) log[date] = clean;
+    else delete log[date];
+    return { ...task, completionLog: Object.keys(log).length ? log : undefined };
+};
+
+// Brings the log in line after `prev` became `next`: newly completed dates are stamped with `at`
+export const stampCompletions = (prev: Task, next: Task, at: string = getLocalDateTime()): Task => {
+    let stamped = next;
+    next.completions.filter(d => !prev.completions.includes(d)).forEach(d => {
+        stamped = withCompletionRecord(stamped, d, { ...stamped.completionLog?.[d], at });
+    });
+    prev.completions.filter(d => !next.completions.includes(d)).forEach(d => {
+        stamped = withCompletionRecord(stamped, d, undefined);
+    });
+    return stamped;
+};
+
+// Completed dates with their records, newest first. Deleted (hidden) occurrences are left out.
+export const completionEntries = (task: Task): { date: string, record: CompletionRecord }[] =>
+    task.completions.filter(date => !(task.hiddenDates || []).includes(date)).sort().reverse().map(date => ({ date, record: task.completionLog?.[date] || {} }));
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+const toTime = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Median time of day the task gets checked off, as HH:mm. Only completions
+// stamped on their own day count, so catching up on yesterday does not skew it.
+export const usualFinishTime = (task: Task): string | null => {
+    const times = completionEntries(task)
+        .filter(({ date, record }) => record.at?.startsWith(`${date}T`))
+        .map(({ record }) => toMinutes(record.at!.slice(11)))
+        .sort((a, b) => a - b);
+    if (times.length < USUAL_TIME_MIN_SAMPLES) return null;
+    return toTime(times[Math.floor(times.length / 2)]);
+};
+
+export const averageMinutes = (task: Task): number | null => {
+    const durations = completionEntries(task).map(({ record }) => record.minutes).filter((m): m is number => !!m);
+    return durations.length ? Math.round(durations.reduce((sum, m) => sum + m, 0) / durations.length) : null;
+};
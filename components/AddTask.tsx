@@ -1,30 +1,108 @@
-import React from 'react';
-import { Plus } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Plus, Calendar as CalendarIcon, Clock, Repeat, Tag, SlidersHorizontal } from 'lucide-react';
+import { Task } from '../types';
+import { parseQuickAdd, DetectionKind } from '../quickAdd';
+import { CategoryDef } from '../categories';
 
 interface AddTaskProps {
-    onTrigger: () => void;
+    contextDate: string;
+    categories: CategoryDef[];
+    onAdd: (task: Task) => void;
+    onOpenEditor: (draft: Partial<Task>) => void;
+    disabled?: boolean; // Until stored tasks have loaded
 }
 
-const AddTask: React.FC<AddTaskProps> = ({ onTrigger }) => {
+const DETECTION_ICONS: Record<DetectionKind, React.FC<any>> = {
+    date: CalendarIcon,
+    time: Clock,
+    recurrence: Repeat,
+    category: Tag
+};
+
+const AddTask: React.FC<AddTaskProps> = ({ contextDate, categories, onAdd, onOpenEditor, disabled }) => {
+    const [input, setInput] = useState('');
+
+    const parsed = useMemo(() => parseQuickAdd(input, contextDate, categories), [input, contextDate, categories]);
+
+    const buildDraft = (): Partial<Task> => ({
+        text: parsed.text,
+        type: parsed.type,
+        category: parsed.category,
+        dateCreated: parsed.dateCreated,
+        weeklyDay: parsed.weeklyDay ?? new Date().getDay(),
+        recurrence: parsed.recurrence,
+        time: parsed.time
+    });
+
+    const submit = () => {
+        if (disabled) return;
+        if (!parsed.text) {
+            onOpenEditor(input.trim() ? buildDraft() : {});
+            return;
+        }
+        onAdd({ id: Date.now(), completions: [], hiddenDates: [], notes: '', ...buildDraft() } as Task);
+        setInput('');
+    };
+
     return (
-        <div 
-            onClick={onTrigger}
-            className="bg-white dark:bg-slate-900 p-6 rounded-[2.5rem] shadow-xl border dark:border-slate-800 mb-8 transition-colors duration-300 cursor-pointer group hover:border-indigo-200 dark:hover:border-indigo-900/50"
-        >
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-[2.5rem] shadow-xl border dark:border-slate-800 mb-8 transition-colors duration-300 group hover:border-indigo-200 dark:hover:border-indigo-900/50">
             <div className="relative flex items-center gap-4">
-                <div className="w-full bg-slate-50 dark:bg-slate-800 rounded-2xl px-6 py-4 text-base sm:text-lg font-bold text-slate-400 dark:text-slate-500 group-hover:text-slate-500 dark:group-hover:text-slate-400 transition-colors">
-                    What's the next win?
-                </div>
-                
-                <button 
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                            e.preventDefault();
+                            submit();
+                        }
+                        if (e.key === 'Escape') setInput('');
+                    }}
+                    disabled={disabled}
+                    placeholder={disabled ? 'Loading your tasks…' : "What's the next win?"}
+                    className="w-full bg-slate-50 dark:bg-slate-800 rounded-2xl px-6 py-4 text-base sm:text-lg font-bold text-slate-800 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 outline-none focus:ring-2 focus:ring-indigo-100 dark:focus:ring-indigo-900/30 transition-all disabled:opacity-60"
+                />
+
+                <button
+                    onClick={submit}
+                    disabled={disabled}
                     className="bg-indigo-600 text-white shadow-lg flex items-center justify-center transition-transform group-hover:scale-105 shrink-0
-                    w-[50px] h-[50px] rounded-2xl"
+                    w-[50px] h-[50px] rounded-2xl disabled:opacity-50"
                 >
                     <Plus className="w-6 h-6" strokeWidth={3} />
                 </button>
             </div>
+
+            {/* Live preview of what the parser picked up */}
+            {input.trim() && (
+                <div className="flex items-center gap-2 mt-4 flex-wrap animate-fade-in">
+                    {parsed.detections.length === 0 && (
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Today · Anytime</span>
+                    )}
+                    {parsed.detections.map(d => {
+                        const Icon = DETECTION_ICONS[d.kind];
+                        return (
+                            <span
+                                key={d.kind}
+                                title={d.source}
+                                className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-wider bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 px-2 py-1 rounded-lg border border-indigo-100 dark:border-indigo-800/50"
+                            >
+                                <Icon size={12} strokeWidth={3} />
+                                {d.label}
+                            </span>
+                        );
+                    })}
+                    <button
+                        onClick={() => { onOpenEditor(buildDraft()); setInput(''); }}
+                        className="ml-auto flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-500 transition-colors"
+                    >
+                        <SlidersHorizontal size={12} strokeWidth={3} />
+                        Details
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
 
-export default AddTask;
\ No newline at end of file
+export default AddTask;
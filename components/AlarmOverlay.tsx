@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Bell, AlarmClock, Sunrise, Check, X } from 'lucide-react';
+import { getLocalISO, getLocalDateTime } from '../utils';
+import { ActiveAlert } from '../alertLog';
+import { describeOffset, SNOOZE_OFFSET } from '../reminders';
+
+// Every action takes a list so the same handlers serve one alert or the whole queue
+interface AlarmOverlayProps {
+    alerts: ActiveAlert[];
+    onComplete: (alerts: ActiveAlert[]) => void;
+    onSnooze: (alerts: ActiveAlert[], until: string) => void; // Local YYYY-MM-DDTHH:mm
+    onMoveToTomorrow: (alerts: ActiveAlert[]) => void;
+    onDismiss: (alerts: ActiveAlert[]) => void;
+}
+
+const SNOOZE_MINUTES = [5, 10, 30];
+
+// A custom time earlier than now means that time tomorrow
+const untilForTime = (time: string): string => {
+    const d = new Date();
+    const [h, m] = time.split(':').map(Number);
+    d.setHours(h, m, 0, 0);
+    if (d.getTime() <= Date.now()) d.setDate(d.getDate() + 1);
+    return getLocalDateTime(d);
+};
+
+// "15 min before · 09:00", "Snoozed", "09:00"
+const describeAlert = (alert: ActiveAlert): string | undefined => {
+    if (alert.offset === SNOOZE_OFFSET) return describeOffset(alert.offset);
+    if (alert.offset > 0) return `${describeOffset(alert.offset)} · ${alert.task.time}`;
+    return alert.task.time;
+};
+
+const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ alerts, onComplete, onSnooze, onMoveToTomorrow, onDismiss }) => {
+    const [customTime, setCustomTime] = useState('');
+    const [current, ...queued] = alerts;
+    const task = current.task;
+    const subtitle = describeAlert(current);
+
+    const snoozeFor = (minutes: number) => onSnooze([current], getLocalDateTime(new Date(Date.now() + minutes * 60000)));
+    const customUntil = customTime ? untilForTime(customTime) : null;
+
+    return (
+        <div className="fixed inset-0 z-[150] flex items-center justify-center p-6 bg-slate-900/90 backdrop-blur-md animate-fade-in">
+            <div className="bg-white dark:bg-slate-900 w-full max-w-sm rounded-[2.5rem] p-8 text-center shadow-2xl border-4 border-indigo-500 animate-bounce-in max-h-[95vh] overflow-y-auto no-scrollbar">
+                <div className="relative w-24 h-24 bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center mx-auto mb-6 animate-pulse">
+                    <Bell size={48} className="text-indigo-600" />
+                    {alerts.length > 1 && (
+                        <span className="absolute -top-1 -right-1 min-w-[28px] h-7 px-2 bg-red-500 text-white rounded-full text-xs font-black flex items-center justify-center">{alerts.length}</span>
+                    )}
+                </div>
+                <h2 className="text-3xl font-black text-slate-900 dark:text-white mb-2">{task.text}</h2>
+                {subtitle && <p className="text-sm font-bold text-indigo-600 mb-1">{subtitle}</p>}
+                {!!task.snoozeCount && (
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Snoozed {task.snoozeCount}×</p>
+                )}
+                <button onClick={() => onComplete([current])} className="w-full py-5 bg-indigo-600 text-white rounded-2xl text-sm font-black uppercase tracking-widest shadow-xl hover:scale-105 transition-transform mb-3 mt-8">
+                    Complete Task
+                </button>
+
+                <div className="flex gap-2 mb-2">
+                    {SNOOZE_MINUTES.map(m => (
+                        <button
+                            key={m}
+                            onClick={() => snoozeFor(m)}
+                            className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black uppercase text-slate-500 dark:text-slate-300 hover:bg-indigo-50 hover:text-indigo-600 dark:hover:bg-slate-700 transition-colors"
+                        >
+                            +{m} min
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2 mb-2">
+                    <input
+                        type="time"
+                        value={customTime}
+                        onChange={e => setCustomTime(e.target.value)}
+                        className="flex-1 h-11 px-3 bg-slate-50 dark:bg-slate-800 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 dark:text-white"
+                    />
+                    <button
+                        onClick={() => customUntil && onSnooze([current], customUntil)}
+                        disabled={!customUntil}
+                        className="px-4 h-11 flex items-center gap-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black uppercase text-slate-500 dark:text-slate-300 hover:text-indigo-600 disabled:opacity-40 transition-colors"
+                    >
+                        <AlarmClock size={14} strokeWidth={3} />
+                        {customUntil && !customUntil.startsWith(getLocalISO()) ? 'Tomorrow' : 'Snooze'}
+                    </button>
+                </div>
+                <button
+                    onClick={() => onMoveToTomorrow([current])}
+                    className="w-full py-3 mb-1 flex items-center justify-center gap-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black uppercase text-slate-500 dark:text-slate-300 hover:text-indigo-600 transition-colors"
+                >
+                    <Sunrise size={14} strokeWidth={3} /> Move to Tomorrow
+                </button>
+
+                <button onClick={() => onDismiss([current])} className="w-full py-4 text-slate-400 font-bold hover:text-indigo-500">Dismiss</button>
+
+                {queued.length > 0 && (
+                    <div className="mt-4 pt-4 border-t dark:border-slate-800 text-left">
+                        <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">Also Ringing · {queued.length}</span>
+                        <ul className="mt-2 space-y-2">
+                            {queued.map(alert => (
+                                <li key={alert.key} className="flex items-center gap-2 bg-slate-50 dark:bg-slate-800 rounded-xl p-2 pl-3">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{alert.task.text}</div>
+                                        <div className="text-[10px] font-bold text-slate-400">{describeAlert(alert)}</div>
+                                    </div>
+                                    <button onClick={() => onComplete([alert])} className="p-2 bg-indigo-600 text-white rounded-lg" title="Complete">
+                                        <Check size={12} strokeWidth={3} />
+                                    </button>
+                                    <button onClick={() => onDismiss([alert])} className="p-2 bg-slate-200 dark:bg-slate-700 text-slate-500 rounded-lg" title="Dismiss">
+                                        <X size={12} strokeWidth={3} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex gap-2 mt-3">
+                            <button onClick={() => onComplete(alerts)} className="flex-1 py-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-xl text-[10px] font-black uppercase">Complete All</button>
+                            <button onClick={() => onSnooze(alerts, getLocalDateTime(new Date(Date.now() + 10 * 60000)))} className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-xl text-[10px] font-black uppercase">Snooze All</button>
+                            <button onClick={() => onDismiss(alerts)} className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 text-slate-500 rounded-xl text-[10px] font-black uppercase">Dismiss All</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AlarmOverlay;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Volume2, Play, X } from 'lucide-react';
+import { Category } from '../types';
+import { CategoryDef } from '../categories';
+import {
+    AlarmSettings, SoundProfile, SOUND_PROFILES, SOUND_PROFILE_IDS, FADE_IN_OPTIONS, MAX_DURATION_OPTIONS,
+    readAlarmSettings, writeAlarmSettings, getAudioContext, previewSound
+} from '../alarmSound';
+
+interface AlarmSettingsModalProps {
+    categories: CategoryDef[];
+    onClose: () => void;
+}
+
+const formatSeconds = (s: number) => s === 0 ? 'Off' : (s < 60 ? `${s}s` : `${s / 60} min`);
+
+const chipClass = (active: boolean) =>
+    `px-3 py-2 rounded-xl text-[10px] font-black uppercase transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 hover:text-indigo-600'}`;
+
+// Changes are saved as they are made; the ringing tab reads them when an alarm starts
+const AlarmSettingsModal: React.FC<AlarmSettingsModalProps> = ({ categories, onClose }) => {
+    const [settings, setSettings] = useState<AlarmSettings>(() => readAlarmSettings());
+    const stopPreviewRef = useRef<(() => void) | null>(null);
+
+    const update = (changes: Partial<AlarmSettings>) => {
+        const next = { ...settings, ...changes };
+        setSettings(next);
+        writeAlarmSettings(next);
+    };
+
+    const setCategorySound = (category: Category, sound: SoundProfile | '') => {
+        const categorySounds = { ...settings.categorySounds };
+        if (sound) categorySounds[category] = sound;
+        else delete categorySounds[category];
+        update({ categorySounds });
+    };
+
+    const preview = (profile: SoundProfile) => {
+        stopPreviewRef.current?.();
+        const ctx = getAudioContext();
+        stopPreviewRef.current = ctx ? previewSound(ctx, profile, settings.volume) : null;
+    };
+
+    useEffect(() => () => stopPreviewRef.current?.(), []);
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-5 max-h-[90vh] overflow-y-auto no-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl">
+                            <Volume2 size={20} strokeWidth={2.5} />
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black dark:text-white">Alarm Sounds</h3>
+                            <p className="text-[10px] font-bold text-slate-400">Used by reminders in every tab</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Sound</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {SOUND_PROFILE_IDS.map(id => (
+                            <div key={id} className={`flex items-center rounded-xl ${settings.sound === id ? 'bg-indigo-600 text-white' : 'bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}>
+                                <button onClick={() => update({ sound: id })} className="flex-1 text-left px-3 py-3 text-xs font-black">
+                                    {SOUND_PROFILES[id].label}
+                                </button>
+                                <button onClick={() => preview(id)} className="p-3 opacity-70 hover:opacity-100" title="Preview">
+                                    <Play size={12} strokeWidth={3} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 flex justify-between mb-2">
+                        <span>Volume</span><span>{Math.round(settings.volume * 100)}%</span>
+                    </label>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={Math.round(settings.volume * 100)}
+                        onChange={e => update({ volume: Number(e.target.value) / 100 })}
+                        onPointerUp={() => preview(settings.sound)}
+                        className="w-full accent-indigo-600"
+                    />
+                </div>
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Fade In</label>
+                    <div className="flex gap-2">
+                        {FADE_IN_OPTIONS.map(s => (
+                            <button key={s} onClick={() => update({ fadeInSeconds: s })} className={`flex-1 ${chipClass(settings.fadeInSeconds === s)}`}>{formatSeconds(s)}</button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Ring For Up To</label>
+                    <div className="flex gap-2">
+                        {MAX_DURATION_OPTIONS.map(s => (
+                            <button key={s} onClick={() => update({ maxDurationSeconds: s })} className={`flex-1 ${chipClass(settings.maxDurationSeconds === s)}`}>{formatSeconds(s)}</button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Per Category</label>
+                    <div className="space-y-2">
+                        {categories.filter(c => !c.archived).map(category => {
+                            const sound = settings.categorySounds[category.id];
+                            return (
+                                <div key={category.id} className="flex items-center gap-2">
+                                    <span className="w-20 text-xs font-bold truncate text-slate-600 dark:text-slate-300">{category.label}</span>
+                                    <select
+                                        value={sound || ''}
+                                        onChange={e => setCategorySound(category.id, e.target.value as SoundProfile | '')}
+                                        className="flex-1 h-10 px-3 bg-slate-50 dark:bg-slate-800 rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500 dark:text-white"
+                                    >
+                                        <option value="">Default ({SOUND_PROFILES[settings.sound].label})</option>
+                                        {SOUND_PROFILE_IDS.map(id => <option key={id} value={id}>{SOUND_PROFILES[id].label}</option>)}
+                                    </select>
+                                    <button onClick={() => preview(sound || settings.sound)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-xl text-slate-500 hover:text-indigo-600" title="Preview">
+                                        <Play size={12} strokeWidth={3} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AlarmSettingsModal;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { BellRing, X } from 'lucide-react';
+import { AlertLogEntry, AlertOutcome } from '../alertLog';
+import { describeOffset } from '../reminders';
+
+interface AlertLogPanelProps {
+    log: AlertLogEntry[];
+    onClear: () => void;
+    onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<AlertOutcome, string> = {
+    completed: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20',
+    snoozed: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20',
+    moved: 'bg-sky-50 text-sky-600 dark:bg-sky-900/20',
+    dismissed: 'bg-slate-100 text-slate-500 dark:bg-slate-800',
+    missed: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20'
+};
+
+const AlertLogPanel: React.FC<AlertLogPanelProps> = ({ log, onClear, onClose }) => {
+    const entries = log.slice().reverse();
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-4 max-h-[80vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl">
+                            <BellRing size={20} strokeWidth={2.5} />
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black dark:text-white">Alert Log</h3>
+                            <p className="text-[10px] font-bold text-slate-400">Last {entries.length} {entries.length === 1 ? 'alert' : 'alerts'}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <ul className="overflow-y-auto no-scrollbar space-y-2">
+                    {entries.map((entry, i) => (
+                        <li key={`${entry.key}-${i}`} className="flex items-center gap-3 px-1">
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{entry.text}</div>
+                                <div className="text-[10px] font-bold text-slate-400">
+                                    {new Date(entry.firedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · {describeOffset(entry.offset)}
+                                </div>
+                            </div>
+                            <span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase shrink-0 ${entry.outcome ? OUTCOME_STYLES[entry.outcome] : 'bg-red-50 text-red-500 dark:bg-red-900/20'}`}>
+                                {entry.outcome || 'ringing'}
+                            </span>
+                        </li>
+                    ))}
+                    {entries.length === 0 && <p className="text-center text-xs font-bold text-slate-400 py-6">No alerts yet</p>}
+                </ul>
+
+                {entries.length > 0 && (
+                    <button onClick={onClear} className="w-full py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Clear Log</button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AlertLogPanel;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { getLocalISO, parseLocalDate } from '../utils';
+import { dailyTotals, weeklyTotals, formatAmount } from '../quantity';
+
+interface AmountChartProps {
+    task: Task; // Must have a goal
+}
+
+type Range = 'days' | 'weeks';
+
+const RANGES: { id: Range, label: string, count: number }[] = [
+    { id: 'days', label: '14 Days', count: 14 },
+    { id: 'weeks', label: '8 Weeks', count: 8 }
+];
+
+const CHART_HEIGHT = 96;
+
+// Logged totals per day or per week, against what meeting the goal would give
+const AmountChart: React.FC<AmountChartProps> = ({ task }) => {
+    const [range, setRange] = useState<Range>('days');
+    const { count } = RANGES.find(r => r.id === range)!;
+    const today = getLocalISO();
+    const totals = range === 'days' ? dailyTotals(task, today, count) : weeklyTotals(task, today, count);
+    const max = Math.max(1, ...totals.map(t => Math.max(t.amount, t.target)));
+    const sum = totals.reduce((acc, t) => acc + t.amount, 0);
+    const goalSum = totals.reduce((acc, t) => acc + t.target, 0);
+    const unit = task.goal?.unit || '';
+
+    const label = (start: string) => {
+        const d = parseLocalDate(start);
+        return range === 'days' ? d.toLocaleDateString('en-US', { weekday: 'narrow' }) : `${d.getMonth() + 1}/${d.getDate()}`;
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border dark:border-slate-800 shadow-sm">
+            <div className="flex items-start justify-between gap-3 mb-4">
+                <div className="min-w-0">
+                    <h4 className="text-sm font-black text-slate-800 dark:text-white truncate">{task.text}</h4>
+                    <p className="text-[10px] font-bold text-slate-400">
+                        {formatAmount(sum)} {unit} logged{goalSum > 0 ? ` · ${Math.round((sum / goalSum) * 100)}% of goal` : ''}
+                    </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                    {RANGES.map(r => (
+                        <button
+                            key={r.id}
+                            onClick={() => setRange(r.id)}
+                            className={`px-2 h-6 rounded-lg text-[9px] font-black uppercase transition-colors ${range === r.id ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-400'}`}
+                        >
+                            {r.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex items-end gap-1" style={{ height: CHART_HEIGHT }}>
+                {totals.map(t => {
+                    const met = t.target > 0 && t.amount >= t.target;
+                    return (
+                        <div key={t.start} className="relative flex-1 h-full flex items-end" title={`${t.start}: ${formatAmount(t.amount)} / ${formatAmount(t.target)} ${unit}`}>
+                            {t.target > 0 && (
+                                <div className="absolute left-0 right-0 border-t-2 border-dashed border-slate-200 dark:border-slate-700" style={{ bottom: `${(t.target / max) * 100}%` }} />
+                            )}
+                            <div className={`w-full rounded-md ${met ? 'bg-emerald-500' : 'bg-indigo-400'}`} style={{ height: `${(t.amount / max) * 100}%` }} />
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex gap-1 mt-1.5">
+                {totals.map(t => (
+                    <span key={t.start} className="flex-1 text-center text-[8px] font-black text-slate-300 dark:text-slate-600">{label(t.start)}</span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default AmountChart;
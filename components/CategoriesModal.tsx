@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Tags, Plus, X, ChevronUp, ChevronDown, Archive, ArchiveRestore, GitMerge, Palette } from 'lucide-react';
+import { Task, Category } from '../types';
+import { CategoryDef, CATEGORY_COLORS, CATEGORY_COLOR_IDS, CATEGORY_ICON_IDS, newCategoryId, countCategoryTasks } from '../categories';
+import CategoryIcon from './CategoryIcon';
+
+interface CategoriesModalProps {
+    categories: CategoryDef[];
+    tasks: Task[];
+    onChange: (categories: CategoryDef[]) => void;
+    onMerge: (fromId: Category, toId: Category) => void;
+    onClose: () => void;
+}
+
+// Changes are saved as they are made, like the other settings modals. Merging
+// moves the tasks, so it goes through the undo history instead.
+const CategoriesModal: React.FC<CategoriesModalProps> = ({ categories, tasks, onChange, onMerge, onClose }) => {
+    const [styling, setStyling] = useState<Category | null>(null);
+    const [merging, setMerging] = useState<{ from: Category, to: Category } | null>(null);
+    const [newLabel, setNewLabel] = useState('');
+
+    const update = (id: Category, changes: Partial<CategoryDef>) =>
+        onChange(categories.map(c => c.id === id ? { ...c, ...changes } : c));
+
+    const move = (index: number, offset: number) => {
+        const next = [...categories];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        onChange(next);
+    };
+
+    const add = () => {
+        const label = newLabel.trim();
+        if (!label) return;
+        const color = CATEGORY_COLOR_IDS[categories.length % CATEGORY_COLOR_IDS.length];
+        onChange([...categories, { id: newCategoryId(categories, label), label, color, icon: 'tag' }]);
+        setNewLabel('');
+    };
+
+    const startMerge = (from: Category) => {
+        const target = categories.find(c => c.id !== from && !c.archived);
+        if (target) setMerging({ from, to: target.id });
+    };
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-5 max-h-[90vh] overflow-y-auto no-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl">
+                            <Tags size={20} strokeWidth={2.5} />
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black dark:text-white">Categories</h3>
+                            <p className="text-[10px] font-bold text-slate-400">The first active one is used for new tasks</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <ul className="space-y-2">
+                    {categories.map((c, i) => {
+                        const count = countCategoryTasks(tasks, c.id);
+                        return (
+                            <li key={c.id} className={`bg-slate-50 dark:bg-slate-800 rounded-2xl p-3 ${c.archived ? 'opacity-60' : ''}`}>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => setStyling(styling === c.id ? null : c.id)}
+                                        className={`w-9 h-9 shrink-0 rounded-xl flex items-center justify-center text-white ${CATEGORY_COLORS[c.color].dot}`}
+                                        title="Color and icon"
+                                    >
+                                        <CategoryIcon icon={c.icon} size={14} />
+                                    </button>
+                                    <input
+                                        value={c.label}
+                                        onChange={e => update(c.id, { label: e.target.value })}
+                                        onBlur={e => !e.target.value.trim() && update(c.id, { label: c.id })}
+                                        className="flex-1 min-w-0 bg-transparent text-sm font-black outline-none dark:text-white"
+                                    />
+                                    <span className="text-[10px] font-black text-slate-400 shrink-0">{count}</span>
+                                    <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-slate-300 hover:text-indigo-500 disabled:opacity-30" title="Move up">
+                                        <ChevronUp size={14} />
+                                    </button>
+                                    <button onClick={() => move(i, 1)} disabled={i === categories.length - 1} className="p-1 text-slate-300 hover:text-indigo-500 disabled:opacity-30" title="Move down">
+                                        <ChevronDown size={14} />
+                                    </button>
+                                    <button onClick={() => startMerge(c.id)} className="p-1 text-slate-300 hover:text-indigo-500" title="Merge into another category">
+                                        <GitMerge size={14} />
+                                    </button>
+                                    <button onClick={() => update(c.id, { archived: !c.archived || undefined })} className="p-1 text-slate-300 hover:text-indigo-500" title={c.archived ? 'Restore' : 'Archive'}>
+                                        {c.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                                    </button>
+                                </div>
+
+                                {styling === c.id && (
+                                    <div className="mt-3 space-y-2">
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {CATEGORY_COLOR_IDS.map(color => (
+                                                <button
+                                                    key={color}
+                                                    onClick={() => update(c.id, { color })}
+                                                    className={`w-6 h-6 rounded-full ${CATEGORY_COLORS[color].dot} ${c.color === color ? 'ring-2 ring-offset-2 ring-indigo-500 dark:ring-offset-slate-800' : ''}`}
+                                                    title={color}
+                                                />
+                                            ))}
+                                        </div>
+                                        <div className="grid grid-cols-8 gap-1">
+                                            {CATEGORY_ICON_IDS.map(icon => (
+                                                <button
+                                                    key={icon}
+                                                    onClick={() => update(c.id, { icon })}
+                                                    className={`h-8 rounded-lg flex items-center justify-center transition-colors ${c.icon === icon ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-900 text-slate-400 hover:text-indigo-600'}`}
+                                                >
+                                                    <CategoryIcon icon={icon} size={14} />
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {merging?.from === c.id && (
+                                    <div className="mt-3 flex items-center gap-2">
+                                        <span className="text-[10px] font-black uppercase text-slate-400 shrink-0">Into</span>
+                                        <select
+                                            value={merging.to}
+                                            onChange={e => setMerging({ ...merging, to: e.target.value })}
+                                            className="flex-1 min-w-0 h-9 px-2 bg-white dark:bg-slate-900 rounded-xl text-xs font-bold outline-none dark:text-white"
+                                        >
+                                            {categories.filter(t => t.id !== c.id && !t.archived).map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                                        </select>
+                                        <button
+                                            onClick={() => { onMerge(merging.from, merging.to); setMerging(null); }}
+                                            className="px-3 h-9 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase"
+                                        >
+                                            Merge
+                                        </button>
+                                        <button onClick={() => setMerging(null)} className="p-1 text-slate-400 hover:text-slate-600">
+                                            <X size={14} strokeWidth={3} />
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                <div className="flex items-center gap-2">
+                    <div className="flex-1 flex items-center gap-2 bg-slate-50 dark:bg-slate-800 rounded-2xl px-3">
+                        <Palette size={14} className="text-slate-400 shrink-0" />
+                        <input
+                            value={newLabel}
+                            onChange={e => setNewLabel(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) add(); }}
+                            placeholder="New category, e.g. Client A"
+                            className="flex-1 min-w-0 h-11 bg-transparent text-sm font-bold outline-none dark:text-white placeholder:text-slate-400"
+                        />
+                    </div>
+                    <button onClick={add} disabled={!newLabel.trim()} className="w-11 h-11 flex items-center justify-center bg-indigo-600 text-white rounded-2xl disabled:opacity-40">
+                        <Plus size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <p className="text-[11px] font-medium text-slate-400">
+                    Archived categories keep their tasks but are hidden from pickers and #tags. Merging moves every task, including single-day edits, and removes the old category.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default CategoriesModal;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { User, Briefcase, Heart, Circle, BookOpen, Home, Star, Dumbbell, Code, ShoppingCart, GraduationCap, Users, Plane, Music, Coffee, Tag } from 'lucide-react';
+import { CategoryIcon as CategoryIconId } from '../categories';
+
+const ICONS: Record<CategoryIconId, React.FC<any>> = {
+    user: User,
+    briefcase: Briefcase,
+    heart: Heart,
+    circle: Circle,
+    book: BookOpen,
+    home: Home,
+    star: Star,
+    dumbbell: Dumbbell,
+    code: Code,
+    cart: ShoppingCart,
+    graduation: GraduationCap,
+    users: Users,
+    plane: Plane,
+    music: Music,
+    coffee: Coffee,
+    tag: Tag
+};
+
+interface CategoryIconProps {
+    icon: CategoryIconId;
+    size?: number;
+    className?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, size = 12, className }) => {
+    const Icon = ICONS[icon] || Tag;
+    return <Icon size={size} strokeWidth={3} className={className} />;
+};
+
+export default CategoryIcon;
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { Flame, Trophy, X, Clock } from 'lucide-react';
+import { Task } from '../types';
+import { getRecurrenceRule, describeRecurrence } from '../recurrence';
+import { habitStreaks, completionRates, habitHeatmap, STREAK_UNITS, DayStatus } from '../habitStats';
+import { usualFinishTime } from '../completionLog';
+
+interface HabitStatsModalProps {
+    task: Task; // The stored series
+    onClose: () => void;
+}
+
+const HEATMAP_WEEKS = 16;
+
+const STATUS_CLASSES: Record<DayStatus, string> = {
+    done: 'bg-emerald-500',
+    missed: 'bg-red-200 dark:bg-red-900/50',
+    hidden: 'bg-slate-200 dark:bg-slate-700',
+    pending: 'bg-indigo-200 dark:bg-indigo-900/50',
+    off: 'bg-slate-50 dark:bg-slate-800'
+};
+
+const STATUS_LABELS: Record<DayStatus, string> = { done: 'Done', missed: 'Missed', hidden: 'Skipped', pending: 'Upcoming', off: 'Not scheduled' };
+
+const HabitStatsModal: React.FC<HabitStatsModalProps> = ({ task, onClose }) => {
+    const streaks = useMemo(() => habitStreaks(task), [task]);
+    const rates = useMemo(() => completionRates(task), [task]);
+    const heatmap = useMemo(() => habitHeatmap(task, HEATMAP_WEEKS), [task]);
+    const usual = usualFinishTime(task);
+    if (!streaks) return null;
+    const unit = STREAK_UNITS[streaks.unit];
+    const unitLabel = (n: number) => n === 1 ? unit.one : unit.many;
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-5 max-h-[90vh] overflow-y-auto no-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                        <h3 className="text-xl font-black dark:text-white break-words">{task.text}</h3>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase">{describeRecurrence(getRecurrenceRule(task))}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors shrink-0">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="bg-orange-500 text-white rounded-2xl p-4">
+                        <div className="flex items-center gap-1.5 text-[10px] font-black uppercase text-orange-100"><Flame size={12} /> Current Streak</div>
+                        <div className="text-3xl font-black mt-1">{streaks.current} <span className="text-sm opacity-70">{unitLabel(streaks.current)}</span></div>
+                    </div>
+                    <div className="bg-indigo-600 text-white rounded-2xl p-4">
+                        <div className="flex items-center gap-1.5 text-[10px] font-black uppercase text-indigo-200"><Trophy size={12} /> Best Streak</div>
+                        <div className="text-3xl font-black mt-1">{streaks.best} <span className="text-sm opacity-70">{unitLabel(streaks.best)}</span></div>
+                    </div>
+                </div>
+
+                <ul className="space-y-3">
+                    {rates.map(rate => (
+                        <li key={rate.days}>
+                            <div className="flex justify-between text-xs font-bold text-slate-600 dark:text-slate-300">
+                                <span>Last {rate.days} days</span>
+                                <span className="text-slate-400">{rate.total ? `${rate.done}/${rate.total} · ${rate.pct}%` : 'Nothing due yet'}</span>
+                            </div>
+                            <div className="h-1.5 mt-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                                <div className="h-full rounded-full bg-emerald-500" style={{ width: `${rate.pct}%` }} />
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <div>
+                    <span className="block text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2">Last {HEATMAP_WEEKS} Weeks</span>
+                    <div className="flex gap-1">
+                        {heatmap.map(week => (
+                            <div key={week[0].date} className="flex-1 flex flex-col gap-1">
+                                {week.map(day => (
+                                    <div key={day.date} className={`aspect-square rounded-sm ${STATUS_CLASSES[day.status]}`} title={`${day.date}: ${STATUS_LABELS[day.status]}`} />
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-3 mt-2">
+                        {(['done', 'missed', 'hidden'] as DayStatus[]).map(status => (
+                            <span key={status} className="flex items-center gap-1 text-[9px] font-bold text-slate-400">
+                                <span className={`w-2 h-2 rounded-sm ${STATUS_CLASSES[status]}`} /> {STATUS_LABELS[status]}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                {usual && (
+                    <p className="flex items-center gap-1.5 text-[11px] font-bold text-slate-400">
+                        <Clock size={12} /> Usually finished at {usual}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default HabitStatsModal;
@@ -1,15 +1,20 @@
 import React from 'react';
 import { getLocalISO, shouldShowTask as checkShowTask } from '../utils';
 import { Task as TaskType } from '../types';
-import { Trophy, Flame, Zap } from 'lucide-react';
+import { CategoryDef, categoryById, categoryColor } from '../categories';
+import { taskProgress } from '../subtasks';
+import CategoryIcon from './CategoryIcon';
+import AmountChart from './AmountChart';
+import { Trophy, Flame, Zap, AlarmClock, PieChart, Target } from 'lucide-react';
 
 interface HistoryProps {
     tasks: TaskType[];
+    categories: CategoryDef[];
     onDrillDown: (date: string) => void;
     drillDownDate: string | null;
 }
 
-const History: React.FC<HistoryProps> = ({ tasks, onDrillDown, drillDownDate }) => {
+const History: React.FC<HistoryProps> = ({ tasks, categories, onDrillDown, drillDownDate }) => {
     
     // --- Calculations ---
     const totalWins = tasks.reduce((acc, t) => acc + (t.completions?.length || 0), 0);
@@ -66,6 +71,31 @@ const History: React.FC<HistoryProps> = ({ tasks, onDrillDown, drillDownDate })
 
     const currentStreak = calculateStreak();
 
+    // Snooze Stats
+    const totalSnoozes = tasks.reduce((acc, t) => acc + (t.snoozeCount || 0), 0);
+    const mostSnoozed = tasks.filter(t => t.snoozeCount).sort((a, b) => b.snoozeCount! - a.snoozeCount!).slice(0, 3);
+
+    // Category Breakdown: the heatmap's 28 days, by each occurrence's own category
+    const categoryStats = (() => {
+        const stats: Record<string, { done: number, total: number }> = {};
+        for (let i = 27; i >= 0; i--) {
+            const d = new Date();
+            d.setDate(d.getDate() - i);
+            const ds = getLocalISO(d);
+            tasks.filter(t => checkShowTask(t, ds)).forEach(t => {
+                const id = t.overrides?.[ds]?.category ?? t.category;
+                const entry = stats[id] || (stats[id] = { done: 0, total: 0 });
+                entry.total++;
+                if (t.completions.includes(ds)) entry.done++;
+            });
+        }
+        return Object.entries(stats)
+            .map(([id, s]) => ({ category: categoryById(categories, id), ...s, pct: Math.round((s.done / s.total) * 100) }))
+            .sort((a, b) => b.total - a.total);
+    })();
+
+    const quantityTasks = tasks.filter(t => t.goal);
+
     // Heatmap Render
     const renderHeatmap = () => {
         const today = new Date();
@@ -78,8 +108,9 @@ const History: React.FC<HistoryProps> = ({ tasks, onDrillDown, drillDownDate })
             
             // Filter tasks for that day
             const dayTasks = tasks.filter(t => checkShowTask(t, ds));
-            const completedCount = dayTasks.filter(t => t.completions.includes(ds)).length;
-            const pct = dayTasks.length ? Math.round((completedCount / dayTasks.length) * 100) : 0;
+            // Logged amounts of quantity habits count as partial
+            const done = dayTasks.reduce((sum, t) => sum + taskProgress(t, ds, false), 0);
+            const pct = dayTasks.length ? Math.round((done / dayTasks.length) * 100) : 0;
             
             // Determine level
             let level = 0;
@@ -159,6 +190,62 @@ const History: React.FC<HistoryProps> = ({ tasks, onDrillDown, drillDownDate })
                 </div>
             </div>
             
+            {/* Category Card */}
+            {categoryStats.length > 0 && (
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border dark:border-slate-800 shadow-sm">
+                    <div className="flex items-center gap-2 mb-4">
+                        <PieChart size={16} className="text-slate-400" />
+                        <span className="text-[10px] font-black uppercase text-slate-400">By Category · 4 Weeks</span>
+                    </div>
+                    <ul className="space-y-3">
+                        {categoryStats.map(({ category, done, total, pct }) => (
+                            <li key={category.id}>
+                                <div className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300">
+                                    <CategoryIcon icon={category.icon} size={12} className={categoryColor(categories, category.id).text} />
+                                    <span className="flex-1 truncate">{category.label}</span>
+                                    <span className="text-slate-400 shrink-0">{done}/{total} · {pct}%</span>
+                                </div>
+                                <div className="h-1.5 mt-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                                    <div className={`h-full rounded-full ${categoryColor(categories, category.id).dot}`} style={{ width: `${pct}%` }} />
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Quantity Habits */}
+            {quantityTasks.length > 0 && (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-2 px-2">
+                        <Target size={16} className="text-slate-400" />
+                        <span className="text-[10px] font-black uppercase text-slate-400">Amounts</span>
+                    </div>
+                    {quantityTasks.map(t => <AmountChart key={t.id} task={t} />)}
+                </div>
+            )}
+
+            {/* Snooze Card */}
+            {totalSnoozes > 0 && (
+                <div className="bg-white dark:bg-slate-900 p-6 rounded-[2rem] border dark:border-slate-800 shadow-sm">
+                    <div className="flex items-center justify-between mb-4">
+                        <div className="flex items-center gap-2">
+                            <AlarmClock size={16} className="text-slate-400" />
+                            <span className="text-[10px] font-black uppercase text-slate-400">Snoozes</span>
+                        </div>
+                        <span className="text-2xl font-black text-slate-900 dark:text-white">{totalSnoozes}</span>
+                    </div>
+                    <ul className="space-y-2">
+                        {mostSnoozed.map(t => (
+                            <li key={t.id} className="flex justify-between gap-3 text-xs font-bold text-slate-600 dark:text-slate-300">
+                                <span className="truncate">{t.text}</span>
+                                <span className="text-slate-400 shrink-0">{t.snoozeCount}×</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            
             {/* Quick Tip */}
             <div className="bg-slate-50 dark:bg-slate-800/50 p-6 rounded-[2rem] border border-slate-100 dark:border-slate-800 flex items-start gap-4">
                 <div className="p-3 bg-yellow-100 dark:bg-yellow-900/20 text-yellow-600 rounded-2xl shrink-0">
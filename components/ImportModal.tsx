@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileUp, X } from 'lucide-react';
+import { Task } from '../types';
+import { BackupDiff, ImportMode, SETTINGS_LABELS, replacedSettings } from '../backup';
+import { CATEGORIES_KEY } from '../categories';
+
+interface ImportModalProps {
+    title: string;
+    fileName: string;
+    exportedAt: string;
+    diff: BackupDiff;
+    errors: string[];
+    settings: Record<string, string>;
+    onConfirm: (mode: ImportMode) => void;
+    onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 6;
+
+const TaskPreviewList: React.FC<{ title: string, tasks: Task[], tone: string }> = ({ title, tasks, tone }) => {
+    if (tasks.length === 0) return null;
+    return (
+        <div>
+            <span className={`text-[9px] font-black uppercase tracking-widest ${tone}`}>{title}</span>
+            <ul className="mt-1 space-y-1">
+                {tasks.slice(0, PREVIEW_LIMIT).map(t => (
+                    <li key={t.id} className="text-xs font-bold text-slate-600 dark:text-slate-300 truncate">{t.text || 'Untitled'}</li>
+                ))}
+                {tasks.length > PREVIEW_LIMIT && (
+                    <li className="text-[10px] font-bold text-slate-400">+{tasks.length - PREVIEW_LIMIT} more</li>
+                )}
+            </ul>
+        </div>
+    );
+};
+
+const ImportModal: React.FC<ImportModalProps> = ({ title, fileName, exportedAt, diff, errors, settings, onConfirm, onClose }) => {
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const replaced = replacedSettings(settings, mode).map(key => SETTINGS_LABELS[key]);
+    const mergesCategories = mode === 'merge' && CATEGORIES_KEY in settings;
+
+    const stats = [
+        { label: 'New', value: diff.added.length },
+        { label: 'Updated', value: diff.updated.length },
+        { label: 'Same', value: diff.unchanged.length }
+    ];
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-5 max-h-[90vh] overflow-y-auto no-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3 min-w-0">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl shrink-0">
+                            <FileUp size={20} strokeWidth={2.5} />
+                        </div>
+                        <div className="min-w-0">
+                            <h3 className="text-xl font-black dark:text-white">{title}</h3>
+                            <p className="text-[10px] font-bold text-slate-400 truncate">
+                                {fileName}{exportedAt && ` · ${new Date(exportedAt).toLocaleString()}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                    {stats.map(s => (
+                        <div key={s.label} className="bg-slate-50 dark:bg-slate-800 rounded-2xl p-3 text-center">
+                            <div className="text-2xl font-black text-slate-900 dark:text-white">{s.value}</div>
+                            <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">{s.label}</div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="space-y-3">
+                    <TaskPreviewList title="New Tasks" tasks={diff.added} tone="text-emerald-500" />
+                    <TaskPreviewList title="Updated Tasks" tasks={diff.updated} tone="text-indigo-500" />
+                    {mode === 'replace' && <TaskPreviewList title="Will Be Removed" tasks={diff.removed} tone="text-red-500" />}
+                </div>
+
+                {errors.length > 0 && (
+                    <div className="bg-amber-50 dark:bg-amber-900/20 rounded-2xl p-4">
+                        <div className="flex items-center gap-2 text-amber-600 mb-2">
+                            <AlertTriangle size={14} strokeWidth={3} />
+                            <span className="text-[10px] font-black uppercase tracking-widest">{errors.length} {errors.length === 1 ? 'Issue' : 'Issues'}</span>
+                        </div>
+                        <ul className="space-y-1 max-h-24 overflow-y-auto no-scrollbar">
+                            {errors.map((e, i) => <li key={i} className="text-[11px] font-medium text-amber-700 dark:text-amber-400">{e}</li>)}
+                        </ul>
+                    </div>
+                )}
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Import Mode</label>
+                    <div className="flex gap-2">
+                        {(['merge', 'replace'] as ImportMode[]).map(m => (
+                            <button
+                                key={m}
+                                onClick={() => setMode(m)}
+                                className={`flex-1 h-11 rounded-xl text-[10px] font-black uppercase transition-all ${mode === m ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                            >
+                                {m === 'merge' ? 'Merge by ID' : 'Replace All'}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[11px] font-medium text-slate-400 mt-2">
+                        {mode === 'merge'
+                            ? 'Keeps your tasks and adds completion history from the file.'
+                            : `Deletes your current ${diff.removed.length + diff.updated.length + diff.unchanged.length} tasks and uses the file instead.`}
+                    </p>
+                    {(replaced.length > 0 || mergesCategories) && (
+                        <p className="text-[11px] font-medium text-slate-400 mt-1">
+                            {replaced.length > 0 && `Also replaces your settings: ${replaced.join(', ')}. `}
+                            {mergesCategories && 'Categories from the file are merged by ID.'}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex gap-4">
+                    <button onClick={onClose} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Cancel</button>
+                    <button onClick={() => onConfirm(mode)} className={`flex-1 py-4 rounded-2xl text-[10px] font-black uppercase text-white shadow-lg ${mode === 'replace' ? 'bg-red-600' : 'bg-indigo-600'}`}>Import</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportModal;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { BellOff, Check, X } from 'lucide-react';
+import { Task } from '../types';
+import { ScheduledReminder, describeOffset } from '../reminders';
+import { resolveOccurrence } from '../series';
+
+interface MissedRemindersProps {
+    reminders: ScheduledReminder[];
+    tasks: Task[];
+    onComplete: (reminder: ScheduledReminder) => void;
+    onDismiss: (reminder: ScheduledReminder) => void;
+    onDismissAll: () => void;
+}
+
+const MissedReminders: React.FC<MissedRemindersProps> = ({ reminders, tasks, onComplete, onDismiss, onDismissAll }) => {
+    const byId = new Map<number, Task>(tasks.map(t => [t.id, t]));
+    const rows = reminders
+        .map(r => ({ reminder: r, task: byId.has(r.taskId) ? resolveOccurrence(byId.get(r.taskId)!, r.date) : null }))
+        .filter((row): row is { reminder: ScheduledReminder, task: Task } => !!row.task);
+
+    return (
+        <div className="fixed inset-0 z-[140] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onDismissAll}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-4 max-h-[80vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3">
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/20 text-amber-600 rounded-2xl">
+                        <BellOff size={20} strokeWidth={2.5} />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-black dark:text-white">You missed {rows.length} {rows.length === 1 ? 'reminder' : 'reminders'}</h3>
+                        <p className="text-[10px] font-bold text-slate-400">While this page was asleep or closed</p>
+                    </div>
+                </div>
+
+                <ul className="overflow-y-auto no-scrollbar space-y-2">
+                    {rows.map(({ reminder, task }) => {
+                        const isDone = task.completions.includes(reminder.date);
+                        return (
+                            <li key={reminder.key} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-800 rounded-2xl p-3">
+                                <div className="flex-1 min-w-0">
+                                    <div className={`text-sm font-bold truncate ${isDone ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{task.text}</div>
+                                    <div className="text-[10px] font-bold text-slate-400">
+                                        {new Date(reminder.at).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })} · {describeOffset(reminder.offset)}
+                                    </div>
+                                </div>
+                                {!isDone && (
+                                    <button onClick={() => onComplete(reminder)} className="p-2 bg-indigo-600 text-white rounded-xl hover:scale-105 transition-transform" title="Complete">
+                                        <Check size={14} strokeWidth={3} />
+                                    </button>
+                                )}
+                                <button onClick={() => onDismiss(reminder)} className="p-2 bg-slate-200 dark:bg-slate-700 text-slate-500 rounded-xl hover:bg-slate-300 transition-colors" title="Dismiss">
+                                    <X size={14} strokeWidth={3} />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                <button onClick={onDismissAll} className="w-full py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Dismiss All</button>
+            </div>
+        </div>
+    );
+};
+
+export default MissedReminders;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { BellOff, Plus, Trash2, X } from 'lucide-react';
+import { DAYS, Category } from '../types';
+import { CategoryDef } from '../categories';
+import { QuietSettings, QuietWindow, QUIET_MODES, readQuietSettings, writeQuietSettings } from '../quietHours';
+
+interface QuietHoursModalProps {
+    categories: CategoryDef[];
+    onClose: () => void;
+}
+
+const chipClass = (active: boolean) =>
+    `py-2 rounded-lg text-[10px] font-black uppercase transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-900 text-slate-400 hover:text-indigo-600'}`;
+
+// Changes are saved as they are made, like the alarm sound settings
+const QuietHoursModal: React.FC<QuietHoursModalProps> = ({ categories, onClose }) => {
+    const [settings, setSettings] = useState<QuietSettings>(() => readQuietSettings());
+
+    const save = (next: QuietSettings) => {
+        setSettings(next);
+        writeQuietSettings(next);
+    };
+
+    const updateWindow = (id: string, changes: Partial<QuietWindow>) =>
+        save({ ...settings, windows: settings.windows.map(w => w.id === id ? { ...w, ...changes } : w) });
+
+    const addWindow = () => save({
+        ...settings,
+        windows: [...settings.windows, { id: `w${Date.now()}`, label: 'Quiet Time', start: '13:00', end: '14:00', days: [0, 1, 2, 3, 4, 5, 6], mode: 'silent', enabled: true }]
+    });
+
+    const toggleDay = (w: QuietWindow, day: number) =>
+        updateWindow(w.id, { days: w.days.includes(day) ? w.days.filter(d => d !== day) : [...w.days, day].sort() });
+
+    const toggleBreakthrough = (category: Category) => save({
+        ...settings,
+        breakthrough: settings.breakthrough.includes(category) ? settings.breakthrough.filter(c => c !== category) : [...settings.breakthrough, category]
+    });
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-5 max-h-[90vh] overflow-y-auto no-scrollbar" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl">
+                            <BellOff size={20} strokeWidth={2.5} />
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black dark:text-white">Quiet Hours</h3>
+                            <p className="text-[10px] font-bold text-slate-400">Tone alarms down on a schedule</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                {settings.windows.map(w => (
+                    <div key={w.id} className={`bg-slate-50 dark:bg-slate-800 rounded-2xl p-4 space-y-3 ${w.enabled ? '' : 'opacity-60'}`}>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={w.enabled}
+                                onChange={e => updateWindow(w.id, { enabled: e.target.checked })}
+                                className="w-4 h-4 accent-indigo-600"
+                            />
+                            <input
+                                value={w.label}
+                                onChange={e => updateWindow(w.id, { label: e.target.value })}
+                                className="flex-1 min-w-0 bg-transparent text-sm font-black outline-none dark:text-white"
+                            />
+                            <button onClick={() => save({ ...settings, windows: settings.windows.filter(x => x.id !== w.id) })} className="p-1 text-slate-300 hover:text-red-500" title="Remove">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <input type="time" value={w.start} onChange={e => e.target.value && updateWindow(w.id, { start: e.target.value })} className="flex-1 h-10 px-3 bg-white dark:bg-slate-900 rounded-xl text-sm font-bold outline-none dark:text-white" />
+                            <span className="text-xs font-bold text-slate-400">to</span>
+                            <input type="time" value={w.end} onChange={e => e.target.value && updateWindow(w.id, { end: e.target.value })} className="flex-1 h-10 px-3 bg-white dark:bg-slate-900 rounded-xl text-sm font-bold outline-none dark:text-white" />
+                        </div>
+                        <div className="grid grid-cols-7 gap-1">
+                            {DAYS.map((d, i) => (
+                                <button key={d} onClick={() => toggleDay(w, i)} className={chipClass(w.days.includes(i))}>{d.slice(0, 2)}</button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-3 gap-1">
+                            {QUIET_MODES.map(m => (
+                                <button key={m.id} onClick={() => updateWindow(w.id, { mode: m.id })} className={chipClass(w.mode === m.id)}>{m.label}</button>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+
+                <button onClick={addWindow} className="w-full py-3 flex items-center justify-center gap-2 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 hover:border-indigo-300 transition-colors">
+                    <Plus size={14} strokeWidth={3} /> Add Window
+                </button>
+
+                <div>
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Always Ring For</label>
+                    <div className="flex flex-wrap gap-2">
+                        {categories.filter(c => !c.archived).map(c => (
+                            <button
+                                key={c.id}
+                                onClick={() => toggleBreakthrough(c.id)}
+                                className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase transition-colors ${settings.breakthrough.includes(c.id) ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 hover:text-indigo-600'}`}
+                            >
+                                {c.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[11px] font-medium text-slate-400 mt-2">
+                        Silent shows the alarm without sound. Badge Only counts it next to the header bell. Delay rings it when the window ends. The header's bell-off button mutes everything except these categories for an hour.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default QuietHoursModal;
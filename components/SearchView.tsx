@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Search, X, Save, Trash2, ArrowRight, EyeOff, Check } from 'lucide-react';
+import { Task, TaskType, TASK_TYPES, Category } from '../types';
+import { parseLocalDate } from '../utils';
+import { getRecurrenceRule, describeRecurrence } from '../recurrence';
+import { CategoryDef, categoryById, categoryColor } from '../categories';
+import { SearchFilter, SmartList, STATUS_FILTERS, searchTasks, isFilterEmpty, allTags, EMPTY_FILTER } from '../search';
+import CategoryIcon from './CategoryIcon';
+
+interface SearchViewProps {
+    tasks: Task[];
+    categories: CategoryDef[];
+    filter: SearchFilter;
+    smartList: SmartList | null; // The saved list being shown, if any
+    onFilterChange: (filter: SearchFilter) => void;
+    onSaveList: (name: string) => void;
+    onUpdateList: () => void;
+    onDeleteList: () => void;
+    onEdit: (task: Task, date: string) => void;
+    onGoToDate: (date: string) => void;
+}
+
+const TYPE_LABELS: Record<TaskType, string> = { 'one-time': 'One-time', recurring: 'Repeating', weekly: 'Weekly' };
+
+const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-[10px] font-black uppercase transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 hover:text-indigo-600'}`;
+
+const toggle = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const formatDate = (date: string) => parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+// A line of the notes around the first hit, for context
+const snippet = (notes: string | undefined, query: string): string | null => {
+    const term = query.toLowerCase().split(/\s+/).find(t => t && !t.startsWith('#'));
+    if (!notes || !term) return null;
+    const at = notes.toLowerCase().indexOf(term);
+    if (at === -1) return null;
+    const start = Math.max(0, at - 30);
+    return `${start > 0 ? '…' : ''}${notes.slice(start, at + term.length + 50).replace(/\s+/g, ' ')}${at + term.length + 50 < notes.length ? '…' : ''}`;
+};
+
+const SearchView: React.FC<SearchViewProps> = ({ tasks, categories, filter, smartList, onFilterChange, onSaveList, onUpdateList, onDeleteList, onEdit, onGoToDate }) => {
+    const [listName, setListName] = useState<string | null>(null); // Set while naming a new list
+    const results = useMemo(() => isFilterEmpty(filter) ? [] : searchTasks(tasks, filter), [tasks, filter]);
+    const tags = useMemo(() => allTags(tasks).slice(0, 12), [tasks]);
+    const update = (changes: Partial<SearchFilter>) => onFilterChange({ ...filter, ...changes });
+    const isDirty = !!smartList && JSON.stringify(smartList.filter) !== JSON.stringify(filter);
+
+    const save = () => {
+        if (!listName?.trim()) return;
+        onSaveList(listName.trim());
+        setListName(null);
+    };
+
+    return (
+        <div className="pb-32 animate-fade-in space-y-4">
+            <div className="relative">
+                <Search size={18} className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                    value={filter.query}
+                    onChange={e => update({ query: e.target.value })}
+                    autoFocus
+                    placeholder="Search text, notes and #tags"
+                    className="w-full bg-slate-50 dark:bg-slate-800 rounded-2xl pl-12 pr-12 py-4 text-base font-bold text-slate-800 dark:text-slate-200 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-indigo-100 dark:focus:ring-indigo-900/30"
+                />
+                {!isFilterEmpty(filter) && (
+                    <button onClick={() => onFilterChange(EMPTY_FILTER)} className="absolute right-4 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-slate-600" title="Clear filters">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                )}
+            </div>
+
+            {tags.length > 0 && (
+                <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+                    {tags.map(tag => (
+                        <button key={tag} onClick={() => update({ query: `${filter.query} #${tag}`.trim() })} className="px-2 py-1 bg-indigo-50 dark:bg-indigo-900/30 rounded-lg text-[11px] font-bold text-indigo-600 shrink-0">
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="bg-white dark:bg-slate-900 rounded-3xl border-2 border-slate-100 dark:border-slate-800 p-4 space-y-3">
+                <div className="flex flex-wrap gap-1.5">
+                    {categories.filter(c => !c.archived || filter.categories.includes(c.id)).map(c => (
+                        <button key={c.id} onClick={() => update({ categories: toggle<Category>(filter.categories, c.id) })} className={`flex items-center gap-1.5 ${chipClass(filter.categories.includes(c.id))}`}>
+                            <CategoryIcon icon={c.icon} size={10} /> {c.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {TASK_TYPES.map(type => (
+                        <button key={type} onClick={() => update({ types: toggle(filter.types, type) })} className={chipClass(filter.types.includes(type))}>{TYPE_LABELS[type]}</button>
+                    ))}
+                    <span className="w-px bg-slate-100 dark:bg-slate-800 mx-1" />
+                    {STATUS_FILTERS.map(s => (
+                        <button key={s.id} onClick={() => update({ status: s.id })} className={chipClass(filter.status === s.id)}>{s.label}</button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <input type="date" value={filter.from || ''} onChange={e => update({ from: e.target.value || undefined })} className="flex-1 min-w-0 h-10 px-3 bg-slate-50 dark:bg-slate-800 rounded-xl text-xs font-bold outline-none dark:text-white" />
+                    <span className="text-xs font-bold text-slate-400">to</span>
+                    <input type="date" value={filter.to || ''} onChange={e => update({ to: e.target.value || undefined })} className="flex-1 min-w-0 h-10 px-3 bg-slate-50 dark:bg-slate-800 rounded-xl text-xs font-bold outline-none dark:text-white" />
+                </div>
+                <div className="flex items-center gap-2 pt-1">
+                    {listName !== null ? (
+                        <>
+                            <input
+                                value={listName}
+                                onChange={e => setListName(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) save(); if (e.key === 'Escape') setListName(null); }}
+                                autoFocus
+                                placeholder="Smart list name"
+                                className="flex-1 min-w-0 h-9 px-3 bg-slate-50 dark:bg-slate-800 rounded-xl text-sm font-bold outline-none dark:text-white"
+                            />
+                            <button onClick={save} disabled={!listName.trim()} className="px-3 h-9 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase disabled:opacity-40">Save</button>
+                            <button onClick={() => setListName(null)} className="p-1 text-slate-400"><X size={14} strokeWidth={3} /></button>
+                        </>
+                    ) : (
+                        <>
+                            <button onClick={() => setListName('')} disabled={isFilterEmpty(filter)} className="flex items-center gap-1.5 text-[10px] font-black uppercase text-indigo-500 hover:underline disabled:opacity-40 disabled:no-underline">
+                                <Save size={12} strokeWidth={3} /> Save as Smart List
+                            </button>
+                            {smartList && isDirty && (
+                                <button onClick={onUpdateList} className="text-[10px] font-black uppercase text-indigo-500 hover:underline">Update "{smartList.name}"</button>
+                            )}
+                            {smartList && (
+                                <button onClick={onDeleteList} className="ml-auto flex items-center gap-1 text-[10px] font-black uppercase text-slate-400 hover:text-red-500">
+                                    <Trash2 size={12} strokeWidth={3} /> Delete List
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {isFilterEmpty(filter) ? (
+                <p className="text-center text-xs font-bold text-slate-400 py-10">Type to search every task, or pick filters</p>
+            ) : (
+                <>
+                    <span className="block text-[9px] font-black uppercase tracking-widest text-slate-400">{results.length} result{results.length === 1 ? '' : 's'}</span>
+                    <ul className="space-y-2">
+                        {results.map(({ task, date, isDone, isHidden }) => {
+                            const category = categoryById(categories, task.category);
+                            const rule = getRecurrenceRule(task);
+                            const context = snippet(task.notes, filter.query);
+                            return (
+                                <li key={task.id} className={`flex items-start gap-3 bg-white dark:bg-slate-800 rounded-2xl p-3 border-2 border-slate-50 dark:border-slate-800 ${isDone || isHidden ? 'opacity-60' : ''}`}>
+                                    <span className={`mt-0.5 ${categoryColor(categories, task.category).text}`}><CategoryIcon icon={category.icon} size={14} /></span>
+                                    <button onClick={() => onEdit(task, date)} className="flex-1 min-w-0 text-left">
+                                        <div className={`text-sm font-bold break-words ${isDone ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-200'}`}>{task.text}</div>
+                                        {context && <div className="text-xs font-medium text-slate-400 mt-0.5 break-words">{context}</div>}
+                                        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mt-1.5 text-[10px] font-black uppercase text-slate-400">
+                                            <span>{formatDate(date)}</span>
+                                            {rule && <span className="italic">{describeRecurrence(rule)}</span>}
+                                            {isDone && <span className="flex items-center gap-0.5 text-emerald-500"><Check size={10} strokeWidth={3} /> Done</span>}
+                                            {isHidden && <span className="flex items-center gap-0.5"><EyeOff size={10} strokeWidth={3} /> Hidden</span>}
+                                            {(task.tags || []).map(tag => <span key={tag} className="normal-case text-indigo-400">#{tag}</span>)}
+                                        </div>
+                                    </button>
+                                    <button onClick={() => onGoToDate(date)} className="p-2 text-slate-300 hover:text-indigo-500 shrink-0" title="Go to day">
+                                        <ArrowRight size={16} strokeWidth={3} />
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default SearchView;
@@ -1,22 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { getLocalISO, parseLocalDate } from '../utils';
-import { MONTHS } from '../types';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { getLocalISO, parseLocalDate, shouldShowTask } from '../utils';
+import { MONTHS, Task } from '../types';
+import { resolveOccurrence } from '../series';
+import { computeMonthLoad, DayLoad } from '../monthLoad';
+import { CategoryDef, categoryColor } from '../categories';
+import { ChevronLeft, ChevronRight, Download, Upload, CalendarPlus, Cloud, CloudOff, Volume2, BellOff, Check, ArrowRight, Tags } from 'lucide-react';
 
 interface SidebarProps {
+    tasks: Task[];
+    categories: CategoryDef[];
     isOpen: boolean;
     onClose: () => void;
     selectedDate: string;
     onSelectDate: (date: string) => void;
+    onExport: () => void;
+    onExportCalendar: () => void;
+    onImportFile: (file: File) => void;
+    onOpenSync: () => void;
+    onOpenAlarmSettings: () => void;
+    onOpenQuietHours: () => void;
+    onOpenCategories: () => void;
+    isSyncConnected: boolean;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, selectedDate, onSelectDate }) => {
+const RING_RADIUS = 16;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+const describeLoad = (load: DayLoad): string =>
+    [`${load.total} task${load.total === 1 ? '' : 's'}`, `${load.done} done`, load.overdue ? `${load.overdue} overdue` : '']
+        .filter(Boolean).join(' · ');
+
+const Sidebar: React.FC<SidebarProps> = ({ tasks, categories, isOpen, onClose, selectedDate, onSelectDate, onExport, onExportCalendar, onImportFile, onOpenSync, onOpenAlarmSettings, onOpenQuietHours, onOpenCategories, isSyncConnected }) => {
     const [baseDate, setBaseDate] = useState<Date>(new Date());
+    const [previewDate, setPreviewDate] = useState(selectedDate);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         setBaseDate(parseLocalDate(selectedDate));
+        setPreviewDate(selectedDate);
     }, [selectedDate, isOpen]);
 
+    const year = baseDate.getFullYear();
+    const month = baseDate.getMonth();
+    const todayStr = getLocalISO();
+    const monthLoad = useMemo(() => computeMonthLoad(tasks, year, month, todayStr), [tasks, year, month, todayStr]);
+
+    const preview = useMemo(() => tasks
+        .filter(t => shouldShowTask(t, previewDate))
+        .map(t => resolveOccurrence(t, previewDate))
+        .sort((a, b) => (a.time || '').localeCompare(b.time || '')), [tasks, previewDate]);
+
+    const openDate = (date: string) => {
+        onSelectDate(date);
+        onClose();
+    };
+
     const changeMonth = (offset: number) => {
         const newDate = new Date(baseDate);
         newDate.setMonth(newDate.getMonth() + offset);
@@ -24,11 +62,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, selectedDate, onSele
     };
 
     const renderCalendar = () => {
-        const year = baseDate.getFullYear();
-        const month = baseDate.getMonth();
         const firstDay = new Date(year, month, 1);
         const lastDay = new Date(year, month + 1, 0);
-        const todayStr = getLocalISO();
         
         const days = [];
         // Empty slots for start of month
@@ -38,24 +73,45 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, selectedDate, onSele
 
         for (let d = 1; d <= lastDay.getDate(); d++) {
             const ds = `${year}-${String(month + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
-            const isSelected = ds === selectedDate;
+            const isSelected = ds === previewDate;
             const isToday = ds === todayStr;
+            const load = monthLoad[ds];
+            // Up to three category dots, most frequent first
+            const mix = load ? Object.keys(load.categories).sort((a, b) => load.categories[b]! - load.categories[a]!).slice(0, 3) : [];
             
             days.push(
                 <button 
                     key={ds}
-                    onClick={() => {
-                        onSelectDate(ds);
-                        onClose();
-                    }}
-                    className={`aspect-square flex items-center justify-center rounded-xl text-sm font-bold transition-all 
+                    // A second click on the previewed day opens it
+                    onClick={() => ds === previewDate ? openDate(ds) : setPreviewDate(ds)}
+                    title={load ? describeLoad(load) : undefined}
+                    className={`relative aspect-square flex flex-col items-center justify-center rounded-xl text-sm font-bold transition-all 
                         ${isSelected 
                             ? 'bg-indigo-600 text-white shadow-lg' 
                             : 'hover:bg-slate-50 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
                         } 
                         ${isToday && !isSelected ? 'text-indigo-600 ring-1 ring-indigo-100 dark:ring-indigo-900' : ''}`}
                 >
-                    {d}
+                    {load && (
+                        <svg viewBox="0 0 40 40" className="absolute inset-0 w-full h-full -rotate-90 pointer-events-none">
+                            <circle cx="20" cy="20" r={RING_RADIUS} fill="none" strokeWidth="2.5" className={isSelected ? 'stroke-white/30' : 'stroke-slate-100 dark:stroke-slate-800'} />
+                            {load.done > 0 && (
+                                <circle
+                                    cx="20" cy="20" r={RING_RADIUS} fill="none" strokeWidth="2.5" strokeLinecap="round"
+                                    strokeDasharray={RING_LENGTH}
+                                    strokeDashoffset={RING_LENGTH * (1 - load.done / load.total)}
+                                    className={isSelected ? 'stroke-white' : load.done === load.total ? 'stroke-emerald-500' : 'stroke-indigo-500'}
+                                />
+                            )}
+                        </svg>
+                    )}
+                    {load && load.overdue > 0 && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-red-500" />}
+                    <span className="relative leading-none">{d}</span>
+                    {mix.length > 0 && (
+                        <span className="relative flex gap-0.5 mt-0.5">
+                            {mix.map(c => <span key={c} className={`w-1 h-1 rounded-full ${categoryColor(categories, c).dot}`} />)}
+                        </span>
+                    )}
                 </button>
             );
         }
@@ -86,7 +142,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, selectedDate, onSele
                         </button>
                     </div>
                 </div>
-                <div className="flex-grow p-6">
+                <div className="flex-grow p-6 overflow-y-auto no-scrollbar">
                     <div className="grid grid-cols-7 gap-1 mb-2">
                         {['S','M','T','W','T','F','S'].map(d => (
                             <div key={d} className="text-center text-[10px] font-black text-slate-300 dark:text-slate-500 uppercase py-2">
@@ -97,17 +153,99 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, selectedDate, onSele
                     <div className="grid grid-cols-7 gap-1 content-start">
                         {renderCalendar()}
                     </div>
+                    <div className="mt-6">
+                        <div className="flex items-center justify-between mb-3">
+                            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                {parseLocalDate(previewDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                                {monthLoad[previewDate] && ` · ${monthLoad[previewDate].done}/${monthLoad[previewDate].total}`}
+                            </span>
+                            <button onClick={() => openDate(previewDate)} className="flex items-center gap-1 text-[10px] font-black uppercase text-indigo-500 hover:underline">
+                                Open Day <ArrowRight size={12} strokeWidth={3} />
+                            </button>
+                        </div>
+                        <ul className="space-y-1.5">
+                            {preview.map(task => {
+                                const isDone = task.completions.includes(previewDate);
+                                const isLate = !isDone && (previewDate < todayStr || (task.type === 'one-time' && task.dateCreated < previewDate));
+                                return (
+                                    <li key={task.id} className="flex items-center gap-2 text-xs font-bold">
+                                        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${categoryColor(categories, task.category).dot}`} />
+                                        <span className={`flex-1 truncate ${isDone ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{task.text}</span>
+                                        {isDone && <Check size={12} strokeWidth={3} className="text-emerald-500 shrink-0" />}
+                                        {isLate && <span className="text-[9px] px-1.5 py-0.5 bg-red-100 text-red-600 rounded-full font-black uppercase shrink-0">Late</span>}
+                                        {task.time && <span className="text-[10px] font-black text-indigo-500 shrink-0">{task.time}</span>}
+                                    </li>
+                                );
+                            })}
+                            {preview.length === 0 && <li className="text-xs font-bold text-slate-300 dark:text-slate-600">Nothing planned</li>}
+                        </ul>
+                    </div>
                 </div>
-                <div className="p-6 border-t dark:border-slate-800">
+                <div className="p-6 border-t dark:border-slate-800 space-y-3">
                     <button 
-                        onClick={() => {
-                            onSelectDate(getLocalISO());
-                            onClose();
-                        }}
+                        onClick={() => openDate(getLocalISO())}
                         className="w-full py-3 bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-xl text-[10px] font-black uppercase text-slate-500 hover:text-indigo-600 transition-colors"
                     >
                         Go to Today
                     </button>
+                    <button 
+                        onClick={onOpenSync}
+                        className="w-full py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                    >
+                        {isSyncConnected ? <Cloud size={14} strokeWidth={3} /> : <CloudOff size={14} strokeWidth={3} />}
+                        {isSyncConnected ? 'Synced Devices' : 'Sync Devices'}
+                    </button>
+                    <button 
+                        onClick={onOpenCategories}
+                        className="w-full py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                    >
+                        <Tags size={14} strokeWidth={3} /> Categories
+                    </button>
+                    <div className="flex gap-2">
+                        <button 
+                            onClick={onOpenAlarmSettings}
+                            className="flex-1 py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                        >
+                            <Volume2 size={14} strokeWidth={3} /> Alarm Sounds
+                        </button>
+                        <button 
+                            onClick={onOpenQuietHours}
+                            className="flex-1 py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                        >
+                            <BellOff size={14} strokeWidth={3} /> Quiet Hours
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button 
+                            onClick={onExport}
+                            className="flex-1 py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                        >
+                            <Download size={14} strokeWidth={3} /> Backup
+                        </button>
+                        <button 
+                            onClick={onExportCalendar}
+                            className="flex-1 py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                        >
+                            <CalendarPlus size={14} strokeWidth={3} /> .ics
+                        </button>
+                        <button 
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex-1 py-3 flex items-center justify-center gap-2 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors"
+                        >
+                            <Upload size={14} strokeWidth={3} /> Import
+                        </button>
+                        <input 
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/json,.json,text/calendar,.ics"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImportFile(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
                 </div>
             </aside>
         </>
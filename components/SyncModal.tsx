@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, X } from 'lucide-react';
+import { SyncConfig } from '../sync';
+
+export interface SyncStatus {
+    state: 'idle' | 'syncing' | 'offline' | 'error';
+    pending: number;
+    lastSyncedAt?: string;
+    message?: string;
+    saveError?: string; // The sync state could not be stored on this device
+}
+
+interface SyncModalProps {
+    config: SyncConfig | null;
+    status: SyncStatus;
+    isLeaderTab: boolean;
+    onConnect: (config: SyncConfig) => void;
+    onDisconnect: () => void;
+    onSyncNow: () => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus['state'], string> = {
+    idle: 'Up to date',
+    syncing: 'Syncing…',
+    offline: 'Offline · changes are queued',
+    error: 'Sync failed'
+};
+
+const SyncModal: React.FC<SyncModalProps> = ({ config, status, isLeaderTab, onConnect, onDisconnect, onSyncNow, onClose }) => {
+    const [serverUrl, setServerUrl] = useState(config?.serverUrl || 'http://localhost:8787');
+    const isValidUrl = /^https?:\/\/\S+$/.test(serverUrl.trim());
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-start">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl">
+                            {config ? <Cloud size={20} strokeWidth={2.5} /> : <CloudOff size={20} strokeWidth={2.5} />}
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black dark:text-white">Sync Devices</h3>
+                            <p className="text-[10px] font-bold text-slate-400">
+                                {config ? (isLeaderTab ? STATUS_LABELS[status.state] : 'Syncing from another open tab') : 'Not connected'}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                {config ? (
+                    <>
+                        <div className="bg-slate-50 dark:bg-slate-800 rounded-2xl p-4 space-y-1">
+                            <div className="text-xs font-bold text-slate-600 dark:text-slate-300 truncate">{config.serverUrl}</div>
+                            <div className="text-[10px] font-bold text-slate-400">
+                                {status.pending} pending {status.pending === 1 ? 'change' : 'changes'}
+                                {status.lastSyncedAt && ` · last sync ${new Date(status.lastSyncedAt).toLocaleTimeString()}`}
+                            </div>
+                            {status.message && <div className="text-[11px] font-medium text-amber-600">{status.message}</div>}
+                            {status.saveError && <div className="text-[11px] font-medium text-red-500">{status.saveError}</div>}
+                        </div>
+                        <div className="flex gap-4">
+                            <button onClick={onDisconnect} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-[10px] font-black uppercase text-slate-500 hover:bg-slate-200">Disconnect</button>
+                            <button
+                                onClick={onSyncNow}
+                                disabled={!isLeaderTab || status.state === 'syncing'}
+                                className="flex-1 py-4 flex items-center justify-center gap-2 bg-indigo-600 rounded-2xl text-[10px] font-black uppercase text-white shadow-lg disabled:opacity-50"
+                            >
+                                <RefreshCw size={14} strokeWidth={3} className={status.state === 'syncing' ? 'animate-spin' : ''} /> Sync Now
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div>
+                            <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Server URL</label>
+                            <input
+                                value={serverUrl}
+                                onChange={e => setServerUrl(e.target.value)}
+                                className="w-full h-12 px-4 bg-slate-50 dark:bg-slate-800 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500 dark:text-white"
+                                placeholder="http://localhost:8787"
+                            />
+                            <p className="text-[11px] font-medium text-slate-400 mt-2">
+                                Run <code className="font-bold">npm run sync-server</code> on a machine both devices can reach. Edits made offline are sent when you reconnect.
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => onConnect({ serverUrl: serverUrl.trim() })}
+                            disabled={!isValidUrl}
+                            className="w-full py-4 bg-indigo-600 rounded-2xl text-[10px] font-black uppercase text-white shadow-lg disabled:opacity-50"
+                        >
+                            Connect
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SyncModal;
@@ -1,13 +1,27 @@
-import React, { useEffect, useRef, useState, useLayoutEffect } from 'react';
+import React, { useEffect, useRef, useState, useLayoutEffect, useMemo } from 'react';
 import Sortable from 'sortablejs';
-import { Task, Category, TaskType, DAYS, CATEGORIES, MONTHS } from '../types';
-import { GripVertical, Check, Trash2, ArrowRightCircle, ArrowLeftCircle, Clock, X, ChevronDown, Calendar as CalendarIcon, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Task, Subtask, Category, TaskType, DAYS, MONTHS, Frequency, RecurrenceRule, REMINDER_OPTIONS, DEFAULT_REMINDERS, Priority, PRIORITIES, QuantityGoal, CompletionRecord } from '../types';
+import { GripVertical, Check, Trash2, ArrowRightCircle, ArrowLeftCircle, Clock, X, ChevronDown, Calendar as CalendarIcon, ChevronLeft, ChevronRight, ListChecks, Plus, ChevronUp, Flag, RotateCcw, Pin, Minus, Target, History as HistoryIcon, Flame, BarChart3 } from 'lucide-react';
 import { getLocalISO, parseLocalDate } from '../utils';
+import { getRecurrenceRule, withRecurrence, describeRecurrence } from '../recurrence';
+import { checkedSubtasks, nextSubtaskId } from '../subtasks';
+import { DURATION_OPTIONS, DEFAULT_DURATION } from '../timeline';
+import { CategoryDef, categoryById, categoryColor, pickableCategories } from '../categories';
+import CategoryIcon from './CategoryIcon';
+import { normalizeTag } from '../search';
+import { DaySort, DAY_SORTS } from '../dayOrder';
+import { amountOn, quantityProgress, formatAmount } from '../quantity';
+import { completionEntries, usualFinishTime, averageMinutes } from '../completionLog';
+import { habitStreaks } from '../habitStats';
 
 interface TaskListProps {
     tasks: Task[];
+    categories: CategoryDef[];
     contextDate: string;
     onToggle: (id: number) => void;
+    onToggleSubtask: (id: number, subtaskId: number) => void;
+    onAdjustAmount: (id: number, direction: number) => void;
+    onShowStats: (id: number) => void;
     onDelete: (id: number) => void;
     onMoveTask: (id: number) => void;
     onEdit: (task: Task) => void;
@@ -21,14 +35,14 @@ interface TaskListProps {
     onUpdateType: (id: number, t: TaskType) => void;
     onReorder: (newOrder: Task[]) => void;
     moveDirection: 'forward' | 'backward';
+    sort: DaySort;
+    hasCustomOrder: boolean; // The day has its own dragged order
+    onSortChange: (sort: DaySort) => void;
+    onResetOrder: () => void;
+    onSetDefaultOrder: () => void;
 }
 
-const CATEGORY_STYLES = {
-    work: { dot: 'bg-blue-500' },
-    personal: { dot: 'bg-purple-500' },
-    health: { dot: 'bg-emerald-500' },
-    other: { dot: 'bg-slate-500' }
-};
+const PRIORITY_COLORS: Record<Priority, string> = { 1: 'text-red-500', 2: 'text-amber-500', 3: 'text-sky-500' };
 
 // --- Helper Hook for Popover Positioning ---
 const usePopoverPosition = (triggerRef: React.RefObject<HTMLElement>, isOpen: boolean) => {
@@ -247,13 +261,423 @@ export const TimePickerPopover: React.FC<{
     );
 };
 
+// --- Recurrence Picker ---
+const FREQUENCY_OPTIONS: { key: Frequency | 'once', label: string, unit: string }[] = [
+    { key: 'once', label: 'Once', unit: '' },
+    { key: 'daily', label: 'Daily', unit: 'day' },
+    { key: 'weekly', label: 'Week', unit: 'week' },
+    { key: 'monthly', label: 'Month', unit: 'month' },
+    { key: 'yearly', label: 'Year', unit: 'year' }
+];
+const SET_POSITIONS = [{ value: 1, label: '1st' }, { value: 2, label: '2nd' }, { value: 3, label: '3rd' }, { value: 4, label: '4th' }, { value: -1, label: 'Last' }];
+
+export const RecurrencePicker: React.FC<{
+    task: Task,
+    onChange: (t: Task) => void
+}> = ({ task, onChange }) => {
+    const [showUntilPicker, setShowUntilPicker] = useState(false);
+    const untilTriggerRef = useRef<HTMLDivElement>(null);
+
+    const rule = getRecurrenceRule(task);
+    const start = parseLocalDate(task.dateCreated);
+    const endMode = rule?.until ? 'until' : (rule?.count ? 'count' : 'never');
+    const unit = FREQUENCY_OPTIONS.find(o => o.key === rule?.freq)?.unit || '';
+
+    const setRule = (next: RecurrenceRule | null) => onChange(withRecurrence(task, next));
+    const updateRule = (patch: Partial<RecurrenceRule>) => {
+        if (rule) setRule({ ...rule, ...patch });
+    };
+
+    const selectFrequency = (key: Frequency | 'once') => {
+        if (key === 'once') return setRule(null);
+        if (rule && rule.freq === key) return;
+        const next: RecurrenceRule = { freq: key, interval: 1 };
+        if (key === 'weekly') next.byDay = [task.weeklyDay ?? start.getDay()];
+        if (rule?.until) next.until = rule.until;
+        if (rule?.count) next.count = rule.count;
+        setRule(next);
+    };
+
+    const toggleWeekday = (day: number) => {
+        if (!rule) return;
+        const current = rule.byDay && rule.byDay.length ? rule.byDay : [start.getDay()];
+        const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+        if (next.length === 0) return; // A weekly rule needs at least one day
+        updateRule({ byDay: next });
+    };
+
+    const setEndMode = (mode: string) => {
+        if (!rule) return;
+        const { until, count, ...rest } = rule;
+        if (mode === 'until') setRule({ ...rest, until: until || task.dateCreated });
+        else if (mode === 'count') setRule({ ...rest, count: count || 10 });
+        else setRule(rest);
+    };
+
+    const selectClass = "bg-transparent text-xs font-black text-indigo-600 outline-none cursor-pointer";
+
+    return (
+        <div className="shrink-0">
+             <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Recurrence</label>
+             <div className="flex gap-2">
+                {FREQUENCY_OPTIONS.map(o => (
+                    <button 
+                        key={o.key}
+                        onClick={() => selectFrequency(o.key)}
+                        className={`flex-1 h-11 rounded-xl text-[10px] font-black uppercase transition-all flex items-center justify-center ${
+                            (rule ? rule.freq : 'once') === o.key
+                            ? 'bg-indigo-600 text-white shadow-md' 
+                            : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
+                        }`}
+                    >
+                        {o.label}
+                    </button>
+                ))}
+             </div>
+             {rule && (
+                <div className="mt-3 bg-slate-50 dark:bg-slate-800/50 p-3 rounded-xl flex flex-col gap-3 animate-fade-in">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500">Repeat Every</span>
+                        <div className="flex items-center gap-2">
+                            <input 
+                                type="number"
+                                min={1}
+                                value={rule.interval}
+                                onChange={(e) => updateRule({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                className="w-12 bg-white dark:bg-slate-900 rounded-lg px-2 py-1 text-xs font-black text-indigo-600 text-center outline-none"
+                            />
+                            <span className="text-xs font-black text-indigo-600">{unit}{rule.interval > 1 ? 's' : ''}</span>
+                        </div>
+                    </div>
+
+                    {rule.freq === 'weekly' && (
+                        <div className="flex justify-between gap-1">
+                            {DAYS.map((day, i) => {
+                                const active = (rule.byDay && rule.byDay.length ? rule.byDay : [start.getDay()]).includes(i);
+                                return (
+                                    <button
+                                        key={day}
+                                        onClick={() => toggleWeekday(i)}
+                                        title={day}
+                                        className={`w-8 h-8 rounded-full text-[10px] font-black transition-all ${active ? 'bg-indigo-600 text-white shadow-md' : 'bg-white dark:bg-slate-900 text-slate-400 hover:text-indigo-500'}`}
+                                    >
+                                        {day.charAt(0)}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {rule.freq === 'monthly' && (
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] font-bold text-slate-500">On</span>
+                            {rule.bySetPos ? (
+                                <div className="flex items-center gap-2">
+                                    <select value={rule.bySetPos} onChange={(e) => updateRule({ bySetPos: parseInt(e.target.value, 10) })} className={selectClass}>
+                                        {SET_POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                    </select>
+                                    <select value={rule.byDay?.[0] ?? start.getDay()} onChange={(e) => updateRule({ byDay: [parseInt(e.target.value, 10)] })} className={selectClass}>
+                                        {DAYS.map((day, i) => <option key={i} value={i}>{day}</option>)}
+                                    </select>
+                                    <button onClick={() => { const { bySetPos, byDay, ...rest } = rule; setRule({ ...rest, byMonthDay: start.getDate() }); }} className="text-[9px] font-bold text-slate-400 uppercase hover:text-indigo-500">By Date</button>
+                                </div>
+                            ) : (
+                                <div className="flex items-center gap-2">
+                                    <select value={rule.byMonthDay ?? start.getDate()} onChange={(e) => updateRule({ byMonthDay: parseInt(e.target.value, 10) })} className={selectClass}>
+                                        {Array.from({ length: 31 }, (_, i) => <option key={i + 1} value={i + 1}>Day {i + 1}</option>)}
+                                        <option value={-1}>Last Day</option>
+                                    </select>
+                                    <button onClick={() => { const { byMonthDay, ...rest } = rule; setRule({ ...rest, bySetPos: Math.min(4, Math.ceil(start.getDate() / 7)), byDay: [start.getDay()] }); }} className="text-[9px] font-bold text-slate-400 uppercase hover:text-indigo-500">By Weekday</button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500">Ends</span>
+                        <div className="flex items-center gap-2">
+                            <select value={endMode} onChange={(e) => setEndMode(e.target.value)} className={selectClass}>
+                                <option value="never">Never</option>
+                                <option value="until">On Date</option>
+                                <option value="count">After</option>
+                            </select>
+                            {endMode === 'until' && (
+                                <div ref={untilTriggerRef} onClick={() => setShowUntilPicker(!showUntilPicker)} className="text-xs font-black text-indigo-600 cursor-pointer bg-white dark:bg-slate-900 rounded-lg px-2 py-1">
+                                    {parseLocalDate(rule.until!).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                                </div>
+                            )}
+                            {endMode === 'count' && (
+                                <>
+                                    <input 
+                                        type="number"
+                                        min={1}
+                                        value={rule.count}
+                                        onChange={(e) => updateRule({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                        className="w-12 bg-white dark:bg-slate-900 rounded-lg px-2 py-1 text-xs font-black text-indigo-600 text-center outline-none"
+                                    />
+                                    <span className="text-xs font-black text-indigo-600">times</span>
+                                </>
+                            )}
+                        </div>
+                        {showUntilPicker && endMode === 'until' && (
+                            <DatePickerPopover 
+                                currentDate={rule.until!}
+                                onSelect={(d) => { updateRule({ until: d < task.dateCreated ? task.dateCreated : d }); setShowUntilPicker(false); }}
+                                onClose={() => setShowUntilPicker(false)}
+                                triggerRef={untilTriggerRef}
+                            />
+                        )}
+                    </div>
+                </div>
+             )}
+        </div>
+    );
+};
+
 // Edit Modal Component
+// Ordered steps of a task. Enter in the last field adds the next step.
+const SubtaskEditor: React.FC<{ task: Task, onChange: (subtasks: Subtask[]) => void }> = ({ task, onChange }) => {
+    const [draft, setDraft] = useState('');
+    const subtasks = task.subtasks || [];
+
+    const add = () => {
+        if (!draft.trim()) return;
+        onChange([...subtasks, { id: nextSubtaskId(task), text: draft.trim() }]);
+        setDraft('');
+    };
+
+    const move = (index: number, direction: number) => {
+        const next = [...subtasks];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + direction, 0, moved);
+        onChange(next);
+    };
+
+    return (
+        <div className="shrink-0">
+            <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Checklist</label>
+            <div className="space-y-1.5">
+                {subtasks.map((subtask, i) => (
+                    <div key={subtask.id} className="flex items-center gap-1 bg-slate-50 dark:bg-slate-800 rounded-xl pl-3 pr-1">
+                        <input
+                            value={subtask.text}
+                            onChange={(e) => onChange(subtasks.map(s => s.id === subtask.id ? { ...s, text: e.target.value } : s))}
+                            className="flex-1 min-w-0 h-9 bg-transparent text-sm font-medium outline-none dark:text-slate-200"
+                        />
+                        <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-slate-300 hover:text-indigo-500 disabled:opacity-30" title="Move up">
+                            <ChevronUp size={14} strokeWidth={3} />
+                        </button>
+                        <button onClick={() => move(i, 1)} disabled={i === subtasks.length - 1} className="p-1 text-slate-300 hover:text-indigo-500 disabled:opacity-30" title="Move down">
+                            <ChevronDown size={14} strokeWidth={3} />
+                        </button>
+                        <button onClick={() => onChange(subtasks.filter(s => s.id !== subtask.id))} className="p-1 text-slate-300 hover:text-red-500" title="Remove">
+                            <X size={14} strokeWidth={3} />
+                        </button>
+                    </div>
+                ))}
+                <div className="flex items-center gap-1 border-2 border-dashed border-slate-100 dark:border-slate-800 rounded-xl pl-3 pr-1">
+                    <input
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key !== 'Enter') return;
+                            e.preventDefault();
+                            e.stopPropagation(); // Enter would otherwise save and close the editor
+                            add();
+                        }}
+                        placeholder="Add a step..."
+                        className="flex-1 min-w-0 h-9 bg-transparent text-sm font-medium outline-none dark:text-slate-200"
+                    />
+                    <button onClick={add} disabled={!draft.trim()} className="p-1 text-slate-400 hover:text-indigo-500 disabled:opacity-30">
+                        <Plus size={14} strokeWidth={3} />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Free-form tags; Enter, comma or space adds the draft, Backspace on an empty draft removes the last
+const TagEditor: React.FC<{ tags: string[], suggestions: string[], onChange: (tags: string[]) => void }> = ({ tags, suggestions, onChange }) => {
+    const [draft, setDraft] = useState('');
+    const matching = draft ? suggestions.filter(s => s.startsWith(normalizeTag(draft)) && !tags.includes(s)).slice(0, 5) : [];
+
+    const add = (value: string) => {
+        const tag = normalizeTag(value);
+        if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+        setDraft('');
+    };
+
+    return (
+        <div className="shrink-0">
+            <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Tags</label>
+            <div className="flex flex-wrap items-center gap-1.5 bg-slate-50 dark:bg-slate-800 rounded-xl p-2">
+                {tags.map(tag => (
+                    <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-white dark:bg-slate-900 rounded-lg text-xs font-bold text-indigo-600">
+                        #{tag}
+                        <button onClick={() => onChange(tags.filter(t => t !== tag))} className="text-slate-300 hover:text-red-500" title="Remove">
+                            <X size={12} strokeWidth={3} />
+                        </button>
+                    </span>
+                ))}
+                <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.nativeEvent.isComposing) return;
+                        if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+                            if (e.key === 'Enter' && !draft.trim()) return;
+                            e.preventDefault();
+                            e.stopPropagation(); // Enter would otherwise save and close the editor
+                            add(draft);
+                        }
+                        if (e.key === 'Backspace' && !draft && tags.length) onChange(tags.slice(0, -1));
+                    }}
+                    onBlur={() => draft.trim() && add(draft)}
+                    placeholder={tags.length ? '' : 'Add a tag...'}
+                    className="flex-1 min-w-[80px] h-7 bg-transparent text-sm font-medium outline-none dark:text-slate-200"
+                />
+            </div>
+            {matching.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-1.5">
+                    {matching.map(tag => (
+                        <button key={tag} onMouseDown={(e) => { e.preventDefault(); add(tag); }} className="px-2 py-0.5 bg-indigo-50 dark:bg-indigo-900/30 rounded-lg text-[11px] font-bold text-indigo-600">
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Numbers are typed freely; only positive values are saved
+const GoalEditor: React.FC<{ goal?: QuantityGoal, onChange: (goal: QuantityGoal | undefined) => void }> = ({ goal, onChange }) => {
+    const setNumber = (field: 'target' | 'step', value: string) => {
+        const n = parseFloat(value);
+        if (goal && n > 0) onChange({ ...goal, [field]: n });
+    };
+    const inputClass = 'w-full h-10 px-3 bg-slate-50 dark:bg-slate-800 rounded-xl text-sm font-bold outline-none dark:text-white focus:ring-2 focus:ring-indigo-100 dark:focus:ring-indigo-900/30';
+
+    return (
+        <div className="shrink-0">
+            <div className="flex items-center justify-between mb-2">
+                <label className="text-[9px] font-black uppercase text-slate-400">Goal</label>
+                {goal && (
+                    <button onClick={() => onChange(undefined)} className="text-[9px] font-black uppercase text-slate-400 hover:text-red-500">Remove</button>
+                )}
+            </div>
+            {goal ? (
+                <div className="grid grid-cols-3 gap-2">
+                    <div>
+                        <span className="text-[9px] font-bold text-slate-400 block mb-1">Target</span>
+                        <input type="number" min="0" step="any" defaultValue={goal.target} onChange={(e) => setNumber('target', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <span className="text-[9px] font-bold text-slate-400 block mb-1">Unit</span>
+                        <input value={goal.unit} onChange={(e) => onChange({ ...goal, unit: e.target.value })} placeholder="glasses" className={inputClass} />
+                    </div>
+                    <div>
+                        <span className="text-[9px] font-bold text-slate-400 block mb-1">+/- Step</span>
+                        <input type="number" min="0" step="any" defaultValue={goal.step} onChange={(e) => setNumber('step', e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+            ) : (
+                <button
+                    onClick={() => onChange({ target: 1, unit: '', step: 1 })}
+                    className="flex items-center gap-1.5 px-3 h-8 rounded-lg text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                >
+                    <Target size={12} strokeWidth={3} /> Track an Amount
+                </button>
+            )}
+        </div>
+    );
+};
+
+// One completed occurrence; fields are saved when they lose focus
+const CompletionRow: React.FC<{ date: string, record: CompletionRecord, onSave: (record: CompletionRecord) => void, onRemove: () => void }> = ({ date, record, onSave, onRemove }) => {
+    const [time, setTime] = useState(record.at?.slice(11) || '');
+    const [minutes, setMinutes] = useState(record.minutes ? String(record.minutes) : '');
+    const [note, setNote] = useState(record.note || '');
+
+    const save = () => {
+        const next: CompletionRecord = {
+            at: time ? `${record.at?.slice(0, 10) || date}T${time}` : undefined,
+            minutes: parseInt(minutes, 10) || undefined,
+            note: note.trim() || undefined
+        };
+        if (JSON.stringify(next) !== JSON.stringify({ at: record.at, minutes: record.minutes, note: record.note })) onSave(next);
+    };
+    // Enter saves the row instead of closing the editor
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key !== 'Enter' || e.nativeEvent.isComposing) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.currentTarget.blur();
+    };
+    const inputClass = 'h-8 px-2 bg-white dark:bg-slate-900 rounded-lg text-xs font-bold outline-none dark:text-white';
+
+    return (
+        <li className="bg-slate-50 dark:bg-slate-800 rounded-xl p-2 space-y-1.5">
+            <div className="flex items-center gap-1.5">
+                <span className="flex-1 min-w-0 text-[11px] font-black text-slate-500 dark:text-slate-300 truncate">
+                    {parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                </span>
+                <input type="time" value={time} onChange={(e) => setTime(e.target.value)} onBlur={save} onKeyDown={handleKeyDown} className={`w-[5.5rem] ${inputClass}`} title="Finished at" />
+                <input type="number" min="1" value={minutes} onChange={(e) => setMinutes(e.target.value)} onBlur={save} onKeyDown={handleKeyDown} placeholder="min" className={`w-14 ${inputClass}`} title="Minutes it took" />
+                <button onClick={onRemove} className="p-1 text-slate-300 hover:text-red-500" title="Mark as not done">
+                    <X size={12} strokeWidth={3} />
+                </button>
+            </div>
+            <input value={note} onChange={(e) => setNote(e.target.value)} onBlur={save} onKeyDown={handleKeyDown} placeholder="How did it go?" className={`w-full ${inputClass} font-medium`} />
+        </li>
+    );
+};
+
+const LOG_PREVIEW = 5;
+
+// Past completions of the stored task, edited in place through the undo history
+const CompletionLog: React.FC<{ task: Task, onEdit: (date: string, record: CompletionRecord) => void, onRemove: (date: string) => void }> = ({ task, onEdit, onRemove }) => {
+    const [showAll, setShowAll] = useState(false);
+    const entries = completionEntries(task);
+    const usual = usualFinishTime(task);
+    const average = averageMinutes(task);
+    if (!entries.length) return null;
+
+    return (
+        <div className="shrink-0">
+            <div className="flex items-center justify-between mb-2">
+                <label className="flex items-center gap-1 text-[9px] font-black uppercase text-slate-400"><HistoryIcon size={10} strokeWidth={3} /> Log · {entries.length} done</label>
+                <span className="text-[9px] font-black uppercase text-slate-400">
+                    {[usual && `Usually at ${usual}`, average && `Avg ${average} min`].filter(Boolean).join(' · ')}
+                </span>
+            </div>
+            <ul className="space-y-1.5">
+                {(showAll ? entries : entries.slice(0, LOG_PREVIEW)).map(({ date, record }) => (
+                    <CompletionRow key={`${date}-${JSON.stringify(record)}`} date={date} record={record} onSave={(r) => onEdit(date, r)} onRemove={() => onRemove(date)} />
+                ))}
+            </ul>
+            {entries.length > LOG_PREVIEW && (
+                <button onClick={() => setShowAll(!showAll)} className="mt-1.5 text-[10px] font-black uppercase text-indigo-500 hover:underline">
+                    {showAll ? 'Show Less' : `Show All ${entries.length}`}
+                </button>
+            )}
+        </div>
+    );
+};
+
 export const EditTaskModal: React.FC<{ 
     task: Task, 
+    categories: CategoryDef[],
+    tagSuggestions: string[],
     onChange: (t: Task) => void,
     onClose: () => void, 
-    onDelete: (id: number) => void 
-}> = ({ task, onChange, onClose, onDelete }) => {
+    onDelete: (id: number) => void,
+    storedTask?: Task, // The saved task, whose completion log is edited directly
+    onEditCompletion?: (date: string, record: CompletionRecord) => void,
+    onRemoveCompletion?: (date: string) => void,
+    onShowStats?: () => void
+}> = ({ task, categories, tagSuggestions, onChange, onClose, onDelete, storedTask, onEditCompletion, onRemoveCompletion, onShowStats }) => {
     
     const [activePopover, setActivePopover] = useState<'none' | 'date' | 'time'>('none');
     
@@ -292,6 +716,11 @@ export const EditTaskModal: React.FC<{
                     <h3 className="text-xs font-black uppercase tracking-widest text-slate-400">
                         {isNewTask ? 'New Task' : 'Edit Task'}
                     </h3>
+                    {storedTask && getRecurrenceRule(storedTask) && onShowStats && (
+                        <button onClick={onShowStats} className="ml-auto mr-2 flex items-center gap-1.5 px-3 h-8 rounded-full bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase text-slate-500 hover:text-indigo-600 transition-colors">
+                            <BarChart3 size={12} strokeWidth={3} /> Stats
+                        </button>
+                    )}
                     <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
                         <X size={16} strokeWidth={3} />
                     </button>
@@ -318,8 +747,8 @@ export const EditTaskModal: React.FC<{
                                 onChange={(e) => updateField('category', e.target.value as Category)}
                                 className="w-full h-11 bg-slate-100 dark:bg-slate-800 rounded-xl px-2 text-sm font-bold appearance-none outline-none text-slate-700 dark:text-slate-200 border-r-[16px] border-transparent cursor-pointer hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
                             >
-                                {CATEGORIES.map((c: string) => (
-                                    <option key={c} value={c}>{c.charAt(0).toUpperCase() + c.slice(1)}</option>
+                                {pickableCategories(categories, task.category).map(c => (
+                                    <option key={c.id} value={c.id}>{c.label}</option>
                                 ))}
                             </select>
                             <ChevronDown size={14} className="absolute right-1 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
@@ -393,40 +822,83 @@ export const EditTaskModal: React.FC<{
                     </div>
                 </div>
 
-                {/* Recurrence */}
-                <div className="shrink-0">
-                     <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Recurrence</label>
-                     <div className="flex gap-2">
-                        {(['one-time', 'recurring', 'weekly'] as TaskType[]).map(t => (
-                            <button 
-                                key={t}
-                                onClick={() => updateField('type', t)}
-                                className={`flex-1 h-11 rounded-xl text-[10px] font-black uppercase transition-all flex items-center justify-center ${
-                                    task.type === t
-                                    ? 'bg-indigo-600 text-white shadow-md' 
-                                    : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'
-                                }`}
-                            >
-                                {t === 'one-time' ? 'Once' : (t === 'recurring' ? 'Daily' : 'Week')}
-                            </button>
-                        ))}
-                     </div>
-                     {task.type === 'weekly' && (
-                        <div className="mt-3 bg-slate-50 dark:bg-slate-800/50 p-3 rounded-xl flex items-center justify-between animate-fade-in">
-                             <span className="text-[10px] font-bold text-slate-500">Day of Week</span>
-                             <select 
-                                value={task.weeklyDay ?? 1}
-                                onChange={(e) => updateField('weeklyDay', parseInt(e.target.value))}
-                                className="bg-transparent text-xs font-black text-indigo-600 outline-none cursor-pointer"
-                             >
-                                 {DAYS.map((day, i) => (
-                                     <option key={i} value={i}>{day}</option>
-                                 ))}
-                             </select>
+                {/* Duration (for the timeline) */}
+                {task.time && (
+                    <div className="shrink-0">
+                        <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Duration</label>
+                        <div className="flex flex-wrap gap-1.5">
+                            {DURATION_OPTIONS.map(minutes => {
+                                const isOn = (task.duration || DEFAULT_DURATION) === minutes;
+                                return (
+                                    <button
+                                        key={minutes}
+                                        onClick={() => updateField('duration', minutes === DEFAULT_DURATION ? undefined : minutes)}
+                                        className={`px-3 h-8 rounded-lg text-[10px] font-black uppercase transition-all ${isOn ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                                    >
+                                        {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                                    </button>
+                                );
+                            })}
                         </div>
-                     )}
+                    </div>
+                )}
+
+                {/* Reminders (only meaningful with a time) */}
+                {task.time && (
+                    <div className="shrink-0">
+                        <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Remind Me</label>
+                        <div className="flex flex-wrap gap-1.5">
+                            {REMINDER_OPTIONS.map(option => {
+                                const reminders = task.reminders ?? DEFAULT_REMINDERS;
+                                const isOn = reminders.includes(option.minutes);
+                                return (
+                                    <button
+                                        key={option.minutes}
+                                        onClick={() => updateField('reminders', isOn
+                                            ? reminders.filter(m => m !== option.minutes)
+                                            : [...reminders, option.minutes].sort((a, b) => a - b))}
+                                        className={`px-3 h-8 rounded-lg text-[10px] font-black uppercase transition-all ${isOn ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                                    >
+                                        {option.minutes === 0 ? option.label : `-${option.label}`}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
+                {/* Quantity goal */}
+                <GoalEditor goal={task.goal} onChange={(goal) => updateField('goal', goal)} />
+
+                {/* Priority */}
+                <div className="shrink-0">
+                    <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Priority</label>
+                    <div className="flex flex-wrap gap-1.5">
+                        {[{ value: undefined, label: 'None' }, ...PRIORITIES].map(option => {
+                            const isOn = task.priority === option.value;
+                            return (
+                                <button
+                                    key={option.label}
+                                    onClick={() => updateField('priority', option.value)}
+                                    className={`flex items-center gap-1 px-3 h-8 rounded-lg text-[10px] font-black uppercase transition-all ${isOn ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                                >
+                                    {option.value && <Flag size={10} strokeWidth={3} className={isOn ? '' : PRIORITY_COLORS[option.value]} />}
+                                    {option.label}
+                                </button>
+                            );
+                        })}
+                    </div>
                 </div>
 
+                {/* Recurrence */}
+                <RecurrencePicker task={task} onChange={onChange} />
+
+                {/* Checklist */}
+                <SubtaskEditor task={task} onChange={(subtasks) => updateField('subtasks', subtasks.length ? subtasks : undefined)} />
+
+                {/* Tags */}
+                <TagEditor tags={task.tags || []} suggestions={tagSuggestions} onChange={(tags) => updateField('tags', tags.length ? tags : undefined)} />
+
                 {/* Notes */}
                 <div className="flex-grow min-h-0">
                     <label className="text-[9px] font-black uppercase text-slate-400 block mb-2">Notes</label>
@@ -438,10 +910,15 @@ export const EditTaskModal: React.FC<{
                     />
                 </div>
                 
+                {/* Completion log */}
+                {storedTask && onEditCompletion && onRemoveCompletion && (
+                    <CompletionLog task={storedTask} onEdit={onEditCompletion} onRemove={onRemoveCompletion} />
+                )}
+
                 {/* Footer Actions */}
                 <div className="pt-2 border-t dark:border-slate-800 flex gap-3 shrink-0">
                     {!isNewTask && (
-                         <button onClick={() => { onDelete(task.id); onClose(); }} className="p-4 bg-red-50 dark:bg-red-900/20 text-red-500 dark:text-red-400 rounded-xl flex-1 font-black text-xs uppercase hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">Delete</button>
+                         <button onClick={() => onDelete(task.id)} className="p-4 bg-red-50 dark:bg-red-900/20 text-red-500 dark:text-red-400 rounded-xl flex-1 font-black text-xs uppercase hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">Delete</button>
                     )}
                     <button onClick={onClose} className="p-4 bg-indigo-600 text-white rounded-xl flex-1 font-black text-xs uppercase shadow-lg hover:scale-[1.02] active:scale-[0.98] transition-all">
                         {isNewTask ? 'Add Task' : 'Save Changes'}
@@ -452,12 +929,17 @@ export const EditTaskModal: React.FC<{
     )
 }
 
-const TaskItem = ({ task, contextDate, onToggle, onDelete, onMoveTask, onEdit, moveDirection }: any) => {
+const TaskItem = ({ task, categories, contextDate, onToggle, onToggleSubtask, onAdjustAmount, onShowStats, onDelete, onMoveTask, onEdit, moveDirection, canDrag }: any) => {
+    const [showSubtasks, setShowSubtasks] = useState(false);
     const isDone = task.completions.includes(contextDate);
+    const subtasks: Subtask[] = task.subtasks || [];
+    const checked = checkedSubtasks(task, contextDate);
     const isOverdue = task.type === 'one-time' && task.dateCreated < contextDate && !isDone && contextDate === new Date().toISOString().split('T')[0];
-    const catStyle = CATEGORY_STYLES[task.category as keyof typeof CATEGORY_STYLES] || CATEGORY_STYLES.other;
-    const taskDisplayType = task.type === 'one-time' ? 'once' : (task.type === 'recurring' ? 'daily' : 'weekly');
+    const category = categoryById(categories, task.category);
+    const taskDisplayType = describeRecurrence(getRecurrenceRule(task));
     const hasTime = !!task.time;
+    const amount = amountOn(task, contextDate);
+    const streaks = useMemo(() => habitStreaks(task), [task]);
 
     const handleBodyClick = (e: React.MouseEvent) => {
         const target = e.target as HTMLElement;
@@ -475,9 +957,11 @@ const TaskItem = ({ task, contextDate, onToggle, onDelete, onMoveTask, onEdit, m
             }`}
         >
             <div className="flex items-center w-full">
-                <div className={`mr-4 transition-colors px-1 touch-none drag-handle cursor-grab active:cursor-grabbing text-slate-200 dark:text-slate-600 group-hover:text-slate-400`}>
-                        <GripVertical size={20} />
-                </div>
+                {canDrag && (
+                    <div className={`mr-4 transition-colors px-1 touch-none drag-handle cursor-grab active:cursor-grabbing text-slate-200 dark:text-slate-600 group-hover:text-slate-400`}>
+                            <GripVertical size={20} />
+                    </div>
+                )}
                 
                 <button 
                     onClick={() => onToggle(task.id)}
@@ -500,18 +984,38 @@ const TaskItem = ({ task, contextDate, onToggle, onDelete, onMoveTask, onEdit, m
                         <span className={`text-base font-bold tracking-tight truncate block min-w-[50px] ${isDone ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-200'}`}>
                             {task.text}
                         </span>
+                        {task.priority && <Flag size={12} strokeWidth={3} className={`shrink-0 ${PRIORITY_COLORS[task.priority as Priority]}`} />}
                         {isOverdue && <span className="text-[9px] px-2 py-0.5 bg-red-100 text-red-600 rounded-full font-black uppercase tracking-tighter shrink-0">Late</span>}
                     </div>
                     
                     <div className="flex items-center gap-2 mt-1.5 overflow-x-auto no-scrollbar">
                         <span className="flex items-center gap-2 bg-slate-50 dark:bg-slate-800/50 px-1.5 py-0.5 rounded-lg">
-                            <span className={`w-2 h-2 rounded-full ${catStyle.dot}`}></span>
-                            <span className="text-[11px] font-black uppercase tracking-widest text-slate-400">{task.category}</span>
+                            <CategoryIcon icon={category.icon} size={11} className={categoryColor(categories, task.category).text} />
+                            <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">{category.label}</span>
                         </span>
                         
                         <span className="text-[11px] font-bold text-slate-300 dark:text-slate-600 italic uppercase tracking-tighter px-1.5 py-0.5 rounded-lg">
                             {taskDisplayType}
                         </span>
+
+                        {streaks && streaks.current >= 2 && (
+                            <button onClick={() => onShowStats(task.id)} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-lg bg-orange-50 dark:bg-orange-900/20 text-[11px] font-black text-orange-500 shrink-0" title="Streak and stats">
+                                <Flame size={11} strokeWidth={3} /> {streaks.current}
+                            </button>
+                        )}
+
+                        {(task.tags || []).map((tag: string) => (
+                            <span key={tag} className="text-[11px] font-bold text-indigo-400 shrink-0">#{tag}</span>
+                        ))}
+
+                        {subtasks.length > 0 && (
+                            <button
+                                onClick={() => setShowSubtasks(!showSubtasks)}
+                                className={`flex items-center gap-1 px-1.5 py-0.5 rounded-lg text-[11px] font-black shrink-0 transition-colors ${checked.length === subtasks.length ? 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-400 hover:text-indigo-600'}`}
+                            >
+                                <ListChecks size={12} strokeWidth={3} /> {checked.length}/{subtasks.length}
+                            </button>
+                        )}
                     </div>
                 </div>
 
@@ -538,19 +1042,65 @@ const TaskItem = ({ task, contextDate, onToggle, onDelete, onMoveTask, onEdit, m
                     </button>
                 </div>
             </div>
+
+            {task.goal && (
+                <div className="mt-4 ml-[4.25rem] flex items-center gap-3">
+                    <button onClick={() => onAdjustAmount(task.id, -1)} disabled={!amount} className="w-8 h-8 shrink-0 rounded-xl bg-slate-50 dark:bg-slate-700 text-slate-400 flex items-center justify-center hover:text-indigo-600 disabled:opacity-40 transition-colors" title={`-${formatAmount(task.goal.step)}`}>
+                        <Minus size={14} strokeWidth={3} />
+                    </button>
+                    <div className="flex-1 min-w-0">
+                        <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                            <div className={`h-full rounded-full transition-all duration-500 ${amount >= task.goal.target ? 'bg-emerald-500' : 'bg-indigo-500'}`} style={{ width: `${quantityProgress(task, contextDate) * 100}%` }} />
+                        </div>
+                        <span className="block mt-1 text-[11px] font-black text-slate-400 truncate">
+                            {formatAmount(amount)} / {formatAmount(task.goal.target)} {task.goal.unit}
+                        </span>
+                    </div>
+                    <button onClick={() => onAdjustAmount(task.id, 1)} className="w-8 h-8 shrink-0 rounded-xl bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 flex items-center justify-center hover:bg-indigo-100 transition-colors" title={`+${formatAmount(task.goal.step)}`}>
+                        <Plus size={14} strokeWidth={3} />
+                    </button>
+                </div>
+            )}
+
+            {showSubtasks && subtasks.length > 0 && (
+                <ul className="mt-4 ml-[4.25rem] space-y-1.5">
+                    {subtasks.map(subtask => {
+                        const isChecked = checked.includes(subtask.id);
+                        return (
+                            <li key={subtask.id}>
+                                <button onClick={() => onToggleSubtask(task.id, subtask.id)} className="flex items-center gap-3 w-full text-left group/step">
+                                    <span className={`w-5 h-5 rounded-md border-2 flex items-center justify-center shrink-0 transition-all ${isChecked ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-200 dark:border-slate-600 group-hover/step:border-indigo-400'}`}>
+                                        {isChecked && <Check size={12} strokeWidth={3} />}
+                                    </span>
+                                    <span className={`text-sm font-medium ${isChecked ? 'line-through text-slate-400' : 'text-slate-600 dark:text-slate-300'}`}>{subtask.text}</span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
         </div>
     );
 };
 
 const TaskList: React.FC<TaskListProps> = ({ 
     tasks, 
+    categories,
     contextDate, 
     onToggle, 
+    onToggleSubtask,
+    onAdjustAmount,
+    onShowStats,
     onDelete, 
     onMoveTask, 
     onEdit,
     onReorder, 
-    moveDirection 
+    moveDirection,
+    sort,
+    hasCustomOrder,
+    onSortChange,
+    onResetOrder,
+    onSetDefaultOrder
 }) => {
     const listRef = useRef<HTMLDivElement>(null);
     const sortableRef = useRef<Sortable | null>(null);
@@ -562,6 +1112,7 @@ const TaskList: React.FC<TaskListProps> = ({
             animation: 200,
             handle: '.drag-handle',
             ghostClass: 'sortable-ghost',
+            disabled: sort !== 'manual', // Other sorts are computed, so there is nothing to drag
             delay: 100,
             delayOnTouchOnly: true,
             onEnd: (evt) => {
@@ -579,7 +1130,7 @@ const TaskList: React.FC<TaskListProps> = ({
         return () => {
             sortableRef.current?.destroy();
         };
-    }, [tasks, onReorder]);
+    }, [tasks, onReorder, sort]);
 
     if (tasks.length === 0) {
         return (
@@ -592,19 +1143,47 @@ const TaskList: React.FC<TaskListProps> = ({
     }
 
     return (
-        <div ref={listRef} className="space-y-4 pb-32 animate-fade-in">
-            {tasks.map(task => (
-                <TaskItem 
-                    key={task.id} 
-                    task={task} 
-                    contextDate={contextDate}
-                    onToggle={onToggle} 
-                    onDelete={onDelete} 
-                    onMoveTask={onMoveTask}
-                    onEdit={onEdit}
-                    moveDirection={moveDirection}
-                />
-            ))}
+        <div className="pb-32 animate-fade-in">
+            <div className="flex items-center gap-1.5 mb-4 overflow-x-auto no-scrollbar">
+                {DAY_SORTS.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => onSortChange(option.id)}
+                        className={`px-3 h-8 rounded-lg text-[10px] font-black uppercase shrink-0 transition-all ${sort === option.id ? 'bg-indigo-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+                {sort === 'manual' && hasCustomOrder && (
+                    <>
+                        <button onClick={onSetDefaultOrder} className="ml-auto flex items-center gap-1 px-2 h-8 text-[10px] font-black uppercase text-indigo-500 hover:underline shrink-0" title="Use this order on every day">
+                            <Pin size={12} strokeWidth={3} /> Set as Default
+                        </button>
+                        <button onClick={onResetOrder} className="flex items-center gap-1 px-2 h-8 text-[10px] font-black uppercase text-slate-400 hover:text-indigo-500 shrink-0" title="Go back to the default order">
+                            <RotateCcw size={12} strokeWidth={3} /> Reset
+                        </button>
+                    </>
+                )}
+            </div>
+            <div ref={listRef} className="space-y-4">
+                {tasks.map(task => (
+                    <TaskItem 
+                        key={task.id} 
+                        task={task} 
+                        categories={categories}
+                        contextDate={contextDate}
+                        onToggle={onToggle} 
+                        onToggleSubtask={onToggleSubtask}
+                        onAdjustAmount={onAdjustAmount}
+                        onShowStats={onShowStats}
+                        onDelete={onDelete} 
+                        onMoveTask={onMoveTask}
+                        onEdit={onEdit}
+                        moveDirection={moveDirection}
+                        canDrag={sort === 'manual'}
+                    />
+                ))}
+            </div>
         </div>
     );
 };
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Check, AlertTriangle } from 'lucide-react';
+import { Task } from '../types';
+import { getLocalISO } from '../utils';
+import { CategoryDef, categoryColor } from '../categories';
+import { layoutTimeline, fromMinutes, snapMinutes, SNAP_MINUTES } from '../timeline';
+
+interface TimelineProps {
+    tasks: Task[]; // Occurrences on `date`, overrides applied
+    categories: CategoryDef[];
+    date: string;
+    onToggle: (id: number) => void;
+    onEdit: (task: Task) => void;
+    onReschedule: (task: Task, time: string, duration: number) => void;
+}
+
+const HOUR_HEIGHT = 56; // px
+const PX_PER_MINUTE = HOUR_HEIGHT / 60;
+const DRAG_THRESHOLD = 4; // px of movement before a press counts as a drag
+
+interface DragState {
+    id: number;
+    mode: 'move' | 'resize';
+    startY: number;
+    delta: number; // Snapped minutes
+    moved: boolean;
+}
+
+const minutesNow = () => {
+    const d = new Date();
+    return d.getHours() * 60 + d.getMinutes();
+};
+
+const Timeline: React.FC<TimelineProps> = ({ tasks, categories, date, onToggle, onEdit, onReschedule }) => {
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const [now, setNow] = useState(minutesNow);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const isToday = date === getLocalISO();
+
+    const blocks = useMemo(() => layoutTimeline(tasks), [tasks]);
+    const anytime = tasks.filter(t => !t.time);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setNow(minutesNow()), 60000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    // Open an hour before now, or before the first block on other days
+    useEffect(() => {
+        const focus = isToday ? now : (blocks[0]?.start ?? 8 * 60);
+        scrollRef.current?.scrollTo({ top: Math.max(0, (focus - 60) * PX_PER_MINUTE) });
+    }, [date]);
+
+    // Where a block is drawn, including an in-progress drag
+    const extentOf = (start: number, end: number, id: number) => {
+        if (!drag || drag.id !== id) return { start, end };
+        if (drag.mode === 'resize') return { start, end: Math.min(24 * 60, Math.max(start + SNAP_MINUTES, end + drag.delta)) };
+        const shift = Math.max(-start, Math.min(24 * 60 - end, drag.delta));
+        return { start: start + shift, end: end + shift };
+    };
+
+    const beginDrag = (e: React.PointerEvent, id: number, mode: DragState['mode']) => {
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        setDrag({ id, mode, startY: e.clientY, delta: 0, moved: false });
+    };
+
+    const updateDrag = (e: React.PointerEvent) => {
+        if (!drag) return;
+        const dy = e.clientY - drag.startY;
+        setDrag({ ...drag, delta: snapMinutes(dy / PX_PER_MINUTE), moved: drag.moved || Math.abs(dy) > DRAG_THRESHOLD });
+    };
+
+    const endDrag = (task: Task, start: number, end: number) => {
+        if (!drag) return;
+        const current = drag;
+        setDrag(null);
+        if (!current.moved) {
+            if (current.mode === 'move') onEdit(task);
+            return;
+        }
+        const extent = extentOf(start, end, task.id);
+        if (extent.start !== start || extent.end !== end) onReschedule(task, fromMinutes(extent.start), extent.end - extent.start);
+    };
+
+    return (
+        <div className="pb-32 animate-fade-in">
+            <div className="mb-4">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">Anytime · {anytime.length}</span>
+                <div className="flex flex-wrap gap-2 mt-2">
+                    {anytime.map(task => {
+                        const isDone = task.completions.includes(date);
+                        return (
+                            <div key={task.id} className={`flex items-center gap-2 pl-1.5 pr-3 py-1.5 rounded-xl border-2 ${categoryColor(categories, task.category).block} ${isDone ? 'opacity-50' : ''}`}>
+                                <button onClick={() => onToggle(task.id)} className={`w-5 h-5 rounded-full border-2 flex items-center justify-center shrink-0 ${isDone ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 dark:border-slate-600'}`}>
+                                    {isDone && <Check size={10} strokeWidth={3} />}
+                                </button>
+                                <button onClick={() => onEdit(task)} className={`text-xs font-bold truncate max-w-[180px] ${isDone ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{task.text}</button>
+                            </div>
+                        );
+                    })}
+                    {anytime.length === 0 && <span className="text-xs font-bold text-slate-300 dark:text-slate-600">Nothing unscheduled</span>}
+                </div>
+            </div>
+
+            <div ref={scrollRef} className="relative max-h-[65vh] overflow-y-auto no-scrollbar rounded-3xl border-2 border-slate-100 dark:border-slate-800">
+                <div className="relative" style={{ height: 24 * HOUR_HEIGHT }}>
+                    {Array.from({ length: 24 }, (_, h) => (
+                        <div key={h} className="absolute left-0 right-0 border-t border-slate-100 dark:border-slate-800" style={{ top: h * HOUR_HEIGHT }}>
+                            <span className="absolute left-2 top-0.5 text-[10px] font-black text-slate-300 dark:text-slate-600">{String(h).padStart(2, '0')}:00</span>
+                        </div>
+                    ))}
+
+                    {isToday && (
+                        <div className="absolute left-10 right-0 z-20 pointer-events-none flex items-center" style={{ top: now * PX_PER_MINUTE }}>
+                            <span className="w-2 h-2 -ml-1 rounded-full bg-red-500" />
+                            <span className="flex-1 h-0.5 bg-red-500" />
+                        </div>
+                    )}
+
+                    <div className="absolute top-0 bottom-0 left-12 right-2">
+                        {blocks.map(block => {
+                            const { task } = block;
+                            const extent = extentOf(block.start, block.end, task.id);
+                            const isDone = task.completions.includes(date);
+                            const isDragging = drag?.id === task.id;
+                            const height = Math.max((extent.end - extent.start) * PX_PER_MINUTE, 20);
+                            return (
+                                <div
+                                    key={task.id}
+                                    onPointerDown={e => beginDrag(e, task.id, 'move')}
+                                    onPointerMove={updateDrag}
+                                    onPointerUp={() => endDrag(task, block.start, block.end)}
+                                    onPointerCancel={() => setDrag(null)}
+                                    className={`absolute rounded-xl border-l-4 px-2 py-1 overflow-hidden touch-none select-none cursor-grab ${categoryColor(categories, task.category).block} ${isDone ? 'opacity-50' : ''} ${block.overlaps ? 'ring-2 ring-amber-400' : ''} ${isDragging ? 'z-30 shadow-xl cursor-grabbing' : 'z-10'}`}
+                                    style={{
+                                        top: extent.start * PX_PER_MINUTE,
+                                        height,
+                                        left: `${(block.column / block.columns) * 100}%`,
+                                        width: `calc(${100 / block.columns}% - 4px)`
+                                    }}
+                                >
+                                    <div className="flex items-start gap-1.5">
+                                        <button
+                                            onPointerDown={e => e.stopPropagation()}
+                                            onClick={() => onToggle(task.id)}
+                                            className={`mt-0.5 w-4 h-4 rounded-full border-2 flex items-center justify-center shrink-0 ${isDone ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 dark:border-slate-500 bg-white/60 dark:bg-slate-900/40'}`}
+                                        >
+                                            {isDone && <Check size={8} strokeWidth={4} />}
+                                        </button>
+                                        <div className="min-w-0 flex-1">
+                                            <div className={`text-xs font-bold truncate ${isDone ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-100'}`}>{task.text}</div>
+                                            {height >= 36 && (
+                                                <div className="text-[10px] font-bold text-slate-400">{fromMinutes(extent.start)}–{fromMinutes(extent.end)}</div>
+                                            )}
+                                        </div>
+                                        {block.overlaps && (
+                                            <span title="Overlaps another task" className="text-amber-500 shrink-0">
+                                                <AlertTriangle size={12} strokeWidth={3} />
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div
+                                        onPointerDown={e => beginDrag(e, task.id, 'resize')}
+                                        onPointerUp={e => { e.stopPropagation(); endDrag(task, block.start, block.end); }}
+                                        className="absolute left-0 right-0 bottom-0 h-2 cursor-ns-resize touch-none"
+                                        title="Drag to change length"
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Timeline;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { History as HistoryIcon, RotateCcw, RotateCw, X } from 'lucide-react';
+import { UndoHistory, HistoryEntry } from '../undoHistory';
+
+interface UndoHistoryPanelProps {
+    history: UndoHistory;
+    onStep: (steps: number) => void; // Negative undoes, positive redoes
+    onClose: () => void;
+}
+
+const EntryRow: React.FC<{ entry: HistoryEntry, undone: boolean, onClick: () => void }> = ({ entry, undone, onClick }) => (
+    <button
+        onClick={onClick}
+        className={`w-full flex items-center justify-between gap-3 px-4 py-3 rounded-xl text-left transition-colors hover:bg-slate-50 dark:hover:bg-slate-800 ${undone ? 'opacity-40' : ''}`}
+    >
+        <div className="min-w-0">
+            <div className={`text-sm font-bold text-slate-700 dark:text-slate-200 truncate ${undone ? 'line-through' : ''}`}>{entry.label}</div>
+            <div className="text-[10px] font-bold text-slate-400">
+                {new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {entry.changes.length} {entry.changes.length === 1 ? 'task' : 'tasks'}
+            </div>
+        </div>
+        {undone ? <RotateCw size={14} strokeWidth={3} className="text-slate-400 shrink-0" /> : <RotateCcw size={14} strokeWidth={3} className="text-slate-400 shrink-0" />}
+    </button>
+);
+
+// Clicking an entry jumps to the state right before it (or, for undone entries, right after it)
+const UndoHistoryPanel: React.FC<UndoHistoryPanelProps> = ({ history, onStep, onClose }) => {
+    const past = history.past.slice().reverse();
+    const future = history.future.slice().reverse();
+
+    return (
+        <div className="fixed inset-0 z-[130] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 w-full max-w-md rounded-[2rem] p-8 shadow-2xl animate-fade-in-up flex flex-col gap-4 max-h-[80vh]" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-2xl">
+                            <HistoryIcon size={20} strokeWidth={2.5} />
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-black dark:text-white">Changes</h3>
+                            <p className="text-[10px] font-bold text-slate-400">Ctrl/⌘+Z to undo · Shift to redo</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-full text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+                        <X size={16} strokeWidth={3} />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto no-scrollbar -mx-2">
+                    {future.map((entry, i) => (
+                        <EntryRow key={entry.id} entry={entry} undone onClick={() => onStep(future.length - i)} />
+                    ))}
+                    <div className="flex items-center gap-2 px-4 py-2">
+                        <div className="h-[2px] flex-1 bg-indigo-600 rounded-full"></div>
+                        <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600">Now</span>
+                        <div className="h-[2px] flex-1 bg-indigo-600 rounded-full"></div>
+                    </div>
+                    {past.map((entry, i) => (
+                        <EntryRow key={entry.id} entry={entry} undone={false} onClick={() => onStep(-(i + 1))} />
+                    ))}
+                    {past.length === 0 && future.length === 0 && (
+                        <p className="text-center text-xs font-bold text-slate-400 py-6">No changes yet</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UndoHistoryPanel;
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef } from 'react';
+import Sortable from 'sortablejs';
+import { ChevronLeft, ChevronRight, Check } from 'lucide-react';
+import { Task } from '../types';
+import { getLocalISO, parseLocalDate, addDays, shouldShowTask } from '../utils';
+import { resolveOccurrence } from '../series';
+import { taskProgress } from '../subtasks';
+import { CategoryDef, categoryColor } from '../categories';
+
+interface WeekBoardProps {
+    tasks: Task[];
+    categories: CategoryDef[];
+    weekStart: string; // Sunday
+    countPartialProgress: boolean;
+    onToggle: (id: number, date: string) => void;
+    onEdit: (task: Task, date: string) => void;
+    onMove: (id: number, from: string, to: string) => void;
+    onShiftWeek: (weeks: number) => void;
+}
+
+// Untimed tasks first, then by time
+const byTime = (a: Task, b: Task) => (a.time || '').localeCompare(b.time || '');
+
+const WeekBoard: React.FC<WeekBoardProps> = ({ tasks, categories, weekStart, countPartialProgress, onToggle, onEdit, onMove, onShiftWeek }) => {
+    const columnRefs = useRef<(HTMLUListElement | null)[]>([]);
+    const onMoveRef = useRef(onMove);
+    onMoveRef.current = onMove;
+    const todayStr = getLocalISO();
+
+    const days = Array.from({ length: 7 }, (_, i) => {
+        const date = addDays(weekStart, i);
+        const occurrences = tasks.filter(t => shouldShowTask(t, date)).map(t => resolveOccurrence(t, date)).sort(byTime);
+        const done = occurrences.reduce((sum, t) => sum + taskProgress(t, date, countPartialProgress), 0);
+        return { date, occurrences, pct: occurrences.length ? Math.round((done / occurrences.length) * 100) : 0 };
+    });
+
+    // Cards can be dragged to another day. Sortable moves the DOM node itself, so the
+    // move is undone before the state update and React stays in charge of the lists.
+    useEffect(() => {
+        const sortables = columnRefs.current.filter((el): el is HTMLUListElement => !!el).map(el => new Sortable(el, {
+            group: 'week-board',
+            animation: 150,
+            delay: 100,
+            delayOnTouchOnly: true,
+            ghostClass: 'sortable-ghost',
+            onEnd: (evt) => {
+                const { item, from, to, oldIndex } = evt;
+                if (oldIndex === undefined) return;
+                from.insertBefore(item, from.children[oldIndex] || null);
+                if (from !== to) onMoveRef.current(Number(item.dataset.id), from.dataset.date!, to.dataset.date!);
+            }
+        }));
+        return () => sortables.forEach(s => s.destroy());
+    }, [weekStart]);
+
+    const start = parseLocalDate(weekStart);
+    const end = parseLocalDate(addDays(weekStart, 6));
+    const format = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+    return (
+        <div className="pb-32 animate-fade-in">
+            <div className="flex items-center justify-between mb-4 bg-slate-50 dark:bg-slate-900 p-2 rounded-2xl">
+                <button onClick={() => onShiftWeek(-1)} className="p-2 text-slate-500 hover:text-indigo-500" title="Previous week">
+                    <ChevronLeft size={20} strokeWidth={3} />
+                </button>
+                <div className="flex items-center gap-3">
+                    <span className="text-xs font-black uppercase tracking-widest text-slate-700 dark:text-slate-200">{format(start)} – {format(end)}</span>
+                    {(todayStr < weekStart || todayStr > addDays(weekStart, 6)) && (
+                        <button onClick={() => onShiftWeek(0)} className="text-[10px] font-black uppercase text-indigo-500 hover:underline">This Week</button>
+                    )}
+                </div>
+                <button onClick={() => onShiftWeek(1)} className="p-2 text-slate-500 hover:text-indigo-500" title="Next week">
+                    <ChevronRight size={20} strokeWidth={3} />
+                </button>
+            </div>
+
+            <div className="grid grid-flow-col auto-cols-[minmax(180px,1fr)] gap-3 overflow-x-auto no-scrollbar snap-x pb-2">
+                {days.map(({ date, occurrences, pct }, i) => {
+                    const d = parseLocalDate(date);
+                    const isToday = date === todayStr;
+                    return (
+                        <section key={date} className={`snap-start flex flex-col rounded-3xl p-3 border-2 ${isToday ? 'border-indigo-200 dark:border-indigo-800 bg-indigo-50/40 dark:bg-indigo-900/10' : 'border-slate-100 dark:border-slate-800'}`}>
+                            <header className="px-1 mb-3">
+                                <div className="flex items-baseline justify-between">
+                                    <span className={`text-[10px] font-black uppercase tracking-widest ${isToday ? 'text-indigo-600' : 'text-slate-400'}`}>{d.toLocaleDateString('en-US', { weekday: 'short' })}</span>
+                                    <span className="text-lg font-black dark:text-white">{d.getDate()}</span>
+                                </div>
+                                <div className="h-1.5 mt-2 w-full bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                                    <div className="h-full bg-indigo-600 rounded-full transition-all duration-500" style={{ width: `${pct}%` }} />
+                                </div>
+                                <div className="text-[9px] font-black text-slate-400 mt-1">{occurrences.length ? `${pct}%` : 'Free'}</div>
+                            </header>
+                            <ul ref={el => { columnRefs.current[i] = el; }} data-date={date} className="flex-1 space-y-2 min-h-[80px]">
+                                {occurrences.map(task => {
+                                    const isDone = task.completions.includes(date);
+                                    return (
+                                        <li key={task.id} data-id={task.id} className={`flex items-start gap-2 bg-white dark:bg-slate-800 rounded-2xl p-2.5 shadow-sm cursor-grab active:cursor-grabbing ${isDone ? 'opacity-50' : ''}`}>
+                                            <button
+                                                onClick={() => onToggle(task.id, date)}
+                                                className={`mt-0.5 w-5 h-5 rounded-full border-2 flex items-center justify-center shrink-0 transition-all ${isDone ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-200 dark:border-slate-600 hover:border-indigo-400'}`}
+                                            >
+                                                {isDone && <Check size={10} strokeWidth={3} />}
+                                            </button>
+                                            <button onClick={() => onEdit(task, date)} className="min-w-0 flex-1 text-left">
+                                                <div className={`text-xs font-bold leading-snug break-words ${isDone ? 'line-through text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{task.text}</div>
+                                                <div className="flex items-center gap-1.5 mt-1">
+                                                    <span className={`w-1.5 h-1.5 rounded-full ${categoryColor(categories, task.category).dot}`} />
+                                                    {task.time && <span className="text-[10px] font-black text-indigo-500">{task.time}</span>}
+                                                </div>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default WeekBoard;
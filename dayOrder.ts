@@ -0,0 +1,81 @@
+import { Task, Category } from './types';
+import { CategoryDef } from './categories';
+
+// --- Day Order ---
+// The task list's own order is the default template for every day. Dragging
+// on a date saves each visible task's position for that date only, in
+// Task.dayPositions, so it syncs and undoes like any other per-date field.
+// Tasks without a position for the date (added or carried over later) come
+// first, in template order.
+
+export type DaySort = 'manual' | 'time' | 'category' | 'priority';
+
+export const DAY_SORTS: { id: DaySort, label: string }[] = [
+    { id: 'manual', label: 'Manual' },
+    { id: 'time', label: 'Time' },
+    { id: 'category', label: 'Category' },
+    { id: 'priority', label: 'Priority' }
+];
+
+export const DAY_SORT_KEY = 'moti_day_sort';
+
+export const readDaySort = (storage: Storage = window.localStorage): DaySort => {
+    const stored = storage.getItem(DAY_SORT_KEY);
+    return DAY_SORTS.some(s => s.id === stored) ? stored as DaySort : 'manual';
+};
+
+export const writeDaySort = (sort: DaySort, storage: Storage = window.localStorage) => {
+    storage.setItem(DAY_SORT_KEY, sort);
+};
+
+export const hasDayOrder = (tasks: Task[], date: string): boolean =>
+    tasks.some(t => t.dayPositions?.[date] !== undefined);
+
+// `tasks` in template order; equal positions (e.g. from two devices) keep that order
+export const manualOrder = (tasks: Task[], date: string): Task[] => {
+    const unplaced = tasks.filter(t => t.dayPositions?.[date] === undefined);
+    const placed = tasks.filter(t => t.dayPositions?.[date] !== undefined)
+        .sort((a, b) => a.dayPositions![date] - b.dayPositions![date]);
+    return [...unplaced, ...placed];
+};
+
+// Untimed tasks go last; ties keep the manual order
+const compareTime = (a: Task, b: Task) => (a.time ? 0 : 1) - (b.time ? 0 : 1) || (a.time || '').localeCompare(b.time || '');
+
+export const sortForDay = (tasks: Task[], date: string, sort: DaySort, categories: CategoryDef[]): Task[] => {
+    const ordered = manualOrder(tasks, date);
+    if (sort === 'time') return ordered.sort(compareTime);
+    if (sort === 'category') {
+        const rank = new Map<Category, number>(categories.map((c, i) => [c.id, i]));
+        return ordered.sort((a, b) => (rank.get(a.category) ?? Infinity) - (rank.get(b.category) ?? Infinity));
+    }
+    if (sort === 'priority') return ordered.sort((a, b) => (a.priority ?? 4) - (b.priority ?? 4));
+    return ordered;
+};
+
+const withPosition = (task: Task, date: string, position: number | undefined): Task => {
+    const dayPositions = { ...(task.dayPositions || {}) };
+    if (position === undefined) delete dayPositions[date];
+    else dayPositions[date] = position;
+    return { ...task, dayPositions: Object.keys(dayPositions).length ? dayPositions : undefined };
+};
+
+// Saves `orderedIds` as the order for `date`, leaving other days untouched
+export const setDayOrder = (tasks: Task[], date: string, orderedIds: number[]): Task[] => {
+    const position = new Map(orderedIds.map((id, i) => [id, i]));
+    return tasks.map(t => position.has(t.id) ? withPosition(t, date, position.get(t.id)) : t);
+};
+
+export const clearDayOrder = (tasks: Task[], date: string): Task[] =>
+    tasks.map(t => t.dayPositions?.[date] !== undefined ? withPosition(t, date, undefined) : t);
+
+// Makes `orderedIds` the template: they keep the slots they already hold in the
+// list, filled in the new order. The date's own positions are no longer needed.
+export const setDefaultOrder = (tasks: Task[], date: string, orderedIds: number[]): Task[] => {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const present = orderedIds.filter(id => byId.has(id));
+    const ids = new Set(present);
+    let next = 0;
+    const reordered = tasks.map(t => ids.has(t.id) ? byId.get(present[next++])! : t);
+    return clearDayOrder(reordered, date);
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { habitPeriods, habitStreaks, completionRates, dayStatus } from './habitStats';
+import { Task } from './types';
+
+// Oct 19 2026 is a Monday
+const TODAY = '2026-10-19';
+
+const habit = (extra: Partial<Task>): Task => ({
+    id: 1, text: 'Habit', type: 'recurring', category: 'health', dateCreated: '2026-10-12',
+    recurrence: { freq: 'daily', interval: 1 }, completions: [], hiddenDates: [], ...extra
+});
+
+// Every day of the last week but Thursday the 15th
+const DAILY = habit({ completions: ['2026-10-12', '2026-10-13', '2026-10-14', '2026-10-16', '2026-10-17', '2026-10-18'] });
+
+describe('habit stats', () => {
+    it('count daily streaks, leaving today pending until it is done', () => {
+        expect(habitPeriods(DAILY, TODAY)).toEqual(['kept', 'kept', 'kept', 'missed', 'kept', 'kept', 'kept', 'pending']);
+        expect(habitStreaks(DAILY, TODAY)).toEqual({ unit: 'daily', current: 3, best: 3 });
+        expect(habitStreaks({ ...DAILY, completions: [...DAILY.completions, TODAY] }, TODAY)?.current).toBe(4);
+    });
+
+    it('skip hidden days instead of counting them as missed', () => {
+        const hidden = { ...DAILY, hiddenDates: ['2026-10-15'] };
+        expect(habitStreaks(hidden, TODAY)).toEqual({ unit: 'daily', current: 6, best: 6 });
+        expect(dayStatus(hidden, '2026-10-15', TODAY)).toBe('hidden');
+    });
+
+    it('keep a week only when all of its days are done', () => {
+        // Mondays and Thursdays from Sep 28
+        const weekly = habit({
+            type: 'weekly', weeklyDay: 1, dateCreated: '2026-09-28', recurrence: { freq: 'weekly', interval: 1, byDay: [1, 4] },
+            completions: ['2026-09-28', '2026-10-01', '2026-10-05', '2026-10-08', '2026-10-12']
+        });
+        // Thursday the 15th is still ahead on Wednesday, and missed by Friday
+        expect(habitPeriods(weekly, '2026-10-14')).toEqual(['kept', 'kept', 'pending']);
+        expect(habitStreaks(weekly, '2026-10-14')).toEqual({ unit: 'weekly', current: 2, best: 2 });
+        expect(habitStreaks(weekly, '2026-10-16')).toEqual({ unit: 'weekly', current: 0, best: 2 });
+    });
+
+    it('count months for a monthly rule', () => {
+        const monthly = habit({
+            dateCreated: '2026-07-05', recurrence: { freq: 'monthly', interval: 1, byMonthDay: 5 },
+            completions: ['2026-07-05', '2026-08-05', '2026-10-05']
+        });
+        expect(habitPeriods(monthly, TODAY)).toEqual(['kept', 'kept', 'missed', 'kept']);
+        expect(habitStreaks(monthly, TODAY)).toEqual({ unit: 'monthly', current: 1, best: 2 });
+    });
+
+    it('rate completions over the days already due', () => {
+        const [month] = completionRates(DAILY, TODAY);
+        expect(month).toEqual({ days: 30, done: 6, total: 7, pct: 86 });
+        expect(completionRates({ ...DAILY, completions: [...DAILY.completions, TODAY] }, TODAY)[0]).toMatchObject({ done: 7, total: 8 });
+    });
+
+    it('report each day against the schedule', () => {
+        expect(dayStatus(DAILY, '2026-10-14', TODAY)).toBe('done');
+        expect(dayStatus(DAILY, '2026-10-15', TODAY)).toBe('missed');
+        expect(dayStatus(DAILY, TODAY, TODAY)).toBe('pending');
+        expect(dayStatus(DAILY, '2026-10-11', TODAY)).toBe('off');
+        expect(habitStreaks(habit({ type: 'one-time', recurrence: undefined }), TODAY)).toBeNull();
+    });
+});
@@ -0,0 +1,129 @@
+import { Task, Frequency, RecurrenceRule } from './types';
+import { getRecurrenceRule, occursOn } from './recurrence';
+import { getLocalISO, addDays, getWeekStart, parseLocalDate } from './utils';
+
+// --- Habit Stats ---
+// Streaks and completion rates of one repeating task, measured against its own
+// schedule. A streak counts periods of the rule's frequency: days for a daily
+// rule, weeks for a weekly one, and so on. A period is kept when every
+// occurrence in it is done. Hidden occurrences are skipped rather than counted
+// as misses, and the period holding today only breaks a streak once it has a miss.
+
+export type PeriodStatus = 'kept' | 'missed' | 'pending';
+export type DayStatus = 'done' | 'missed' | 'hidden' | 'pending' | 'off'; // 'off' is not scheduled
+
+export const RATE_WINDOWS = [30, 90, 365];
+
+export const STREAK_UNITS: Record<Frequency, { one: string, many: string }> = {
+    daily: { one: 'day', many: 'days' },
+    weekly: { one: 'week', many: 'weeks' },
+    monthly: { one: 'month', many: 'months' },
+    yearly: { one: 'year', many: 'years' }
+};
+
+export interface Streaks {
+    unit: Frequency;
+    current: number;
+    best: number;
+}
+
+export interface CompletionRate {
+    days: number;
+    done: number;
+    total: number; // Occurrences due in the window; today's only once it is done
+    pct: number;
+}
+
+const periodKey = (freq: Frequency, date: string): string => {
+    if (freq === 'weekly') return getWeekStart(date);
+    if (freq === 'monthly') return date.slice(0, 7);
+    if (freq === 'yearly') return date.slice(0, 4);
+    return date;
+};
+
+// Last day of the period holding `date`
+const periodEnd = (freq: Frequency, date: string): string => {
+    if (freq === 'weekly') return addDays(getWeekStart(date), 6);
+    if (freq === 'monthly') {
+        const d = parseLocalDate(date);
+        return `${date.slice(0, 8)}${String(new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate()).padStart(2, '0')}`;
+    }
+    if (freq === 'yearly') return `${date.slice(0, 4)}-12-31`;
+    return date;
+};
+
+// Occurrences from `from` to `to`, without hidden ones
+const scheduledDates = (task: Task, rule: RecurrenceRule, from: string, to: string): string[] => {
+    const hidden = new Set(task.hiddenDates || []);
+    const dates: string[] = [];
+    for (let date = from < task.dateCreated ? task.dateCreated : from; date <= to; date = addDays(date, 1)) {
+        if (rule.until && date > rule.until) break;
+        if (!hidden.has(date) && occursOn(rule, task.dateCreated, date)) dates.push(date);
+    }
+    return dates;
+};
+
+// Every period with an occurrence, oldest first, up to the one holding `today`
+export const habitPeriods = (task: Task, today: string = getLocalISO()): PeriodStatus[] => {
+    const rule = getRecurrenceRule(task);
+    if (!rule) return [];
+    const done = new Set(task.completions);
+    const periods = new Map<string, string[]>();
+    scheduledDates(task, rule, task.dateCreated, periodEnd(rule.freq, today)).forEach(date => {
+        const key = periodKey(rule.freq, date);
+        periods.set(key, [...(periods.get(key) || []), date]);
+    });
+    return Array.from(periods.values()).map(dates => {
+        if (dates.every(d => done.has(d))) return 'kept';
+        return dates.some(d => d < today && !done.has(d)) ? 'missed' : 'pending';
+    });
+};
+
+export const habitStreaks = (task: Task, today: string = getLocalISO()): Streaks | null => {
+    const rule = getRecurrenceRule(task);
+    if (!rule) return null;
+    const periods = habitPeriods(task, today);
+
+    let best = 0;
+    let run = 0;
+    periods.forEach(status => {
+        if (status === 'kept') best = Math.max(best, ++run);
+        if (status === 'missed') run = 0;
+    });
+
+    // Only the period still in progress may be pending
+    let current = 0;
+    for (let i = periods.length - 1; i >= 0; i--) {
+        if (periods[i] === 'pending' && i === periods.length - 1) continue;
+        if (periods[i] !== 'kept') break;
+        current++;
+    }
+    return { unit: rule.freq, current, best };
+};
+
+export const completionRates = (task: Task, today: string = getLocalISO()): CompletionRate[] => {
+    const rule = getRecurrenceRule(task);
+    return RATE_WINDOWS.map(days => {
+        const dates = rule ? scheduledDates(task, rule, addDays(today, 1 - days), today) : [];
+        const due = dates.filter(d => d < today || task.completions.includes(d));
+        const done = due.filter(d => task.completions.includes(d)).length;
+        return { days, done, total: due.length, pct: due.length ? Math.round((done / due.length) * 100) : 0 };
+    });
+};
+
+export const dayStatus = (task: Task, date: string, today: string = getLocalISO()): DayStatus => {
+    const rule = getRecurrenceRule(task);
+    if (!rule || !occursOn(rule, task.dateCreated, date)) return 'off';
+    if ((task.hiddenDates || []).includes(date)) return 'hidden';
+    if (task.completions.includes(date)) return 'done';
+    return date < today ? 'missed' : 'pending';
+};
+
+// `weeks` columns of Sunday-to-Saturday days, ending with the week holding `today`
+export const habitHeatmap = (task: Task, weeks: number, today: string = getLocalISO()): { date: string, status: DayStatus }[][] => {
+    const first = addDays(getWeekStart(today), -7 * (weeks - 1));
+    return Array.from({ length: weeks }, (_, w) => Array.from({ length: 7 }, (_, d) => {
+        const date = addDays(first, w * 7 + d);
+        return { date, status: dayStatus(task, date, today) };
+    }));
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { exportICalendar, parseICalendar } from './ical';
+import { DEFAULT_CATEGORIES, CategoryDef } from './categories';
+import { Task } from './types';
+
+const CATEGORIES: CategoryDef[] = [...DEFAULT_CATEGORIES, { id: 'home-garden', label: 'Home, Garden', color: 'emerald', icon: 'home' }];
+
+const base = { completions: [], hiddenDates: [], notes: '' };
+
+const roundTrip = (tasks: Task[]) => parseICalendar(exportICalendar(tasks, CATEGORIES), CATEGORIES);
+
+describe('iCalendar', () => {
+    it('keeps a timed daily task with UNTIL, its skipped days and completions', () => {
+        const task: Task = {
+            ...base, id: 1, text: 'Stretch', type: 'recurring', category: 'health', dateCreated: '2026-10-01', time: '07:30',
+            recurrence: { freq: 'daily', interval: 1, until: '2026-10-31' },
+            completions: ['2026-10-01', '2026-10-02'], hiddenDates: ['2026-10-05']
+        };
+        const content = exportICalendar([task], CATEGORIES);
+        expect(content).toContain('BEGIN:VEVENT');
+        expect(content).toContain('DTSTART:20261001T073000');
+        expect(content).toContain('RRULE:FREQ=DAILY;UNTIL=20261031T235959');
+
+        const { tasks: [imported], errors } = parseICalendar(content, CATEGORIES);
+        expect(errors).toEqual([]);
+        expect(imported).toMatchObject({
+            id: 1, text: 'Stretch', type: 'recurring', category: 'health', dateCreated: '2026-10-01', time: '07:30',
+            recurrence: { freq: 'daily', interval: 1, until: '2026-10-31' },
+            completions: ['2026-10-01', '2026-10-02'], hiddenDates: ['2026-10-05']
+        });
+    });
+
+    it('keeps an all-day weekly task with COUNT', () => {
+        const task: Task = {
+            ...base, id: 2, text: 'Bins out', type: 'weekly', category: 'home-garden', dateCreated: '2026-10-19', weeklyDay: 1,
+            recurrence: { freq: 'weekly', interval: 2, byDay: [1, 4], count: 6 }
+        };
+        const content = exportICalendar([task], CATEGORIES);
+        expect(content).toContain('BEGIN:VTODO');
+        expect(content).toContain('DTSTART;VALUE=DATE:20261019');
+
+        const [imported] = roundTrip([task]).tasks;
+        expect(imported.time).toBeUndefined();
+        expect(imported).toMatchObject({ type: 'weekly', weeklyDay: 1, recurrence: task.recurrence });
+    });
+
+    it('escapes text and exports the category by its name', () => {
+        const task: Task = {
+            ...base, id: 3, text: 'Buy soil; seeds, and a \\ rake', type: 'one-time', category: 'home-garden', dateCreated: '2026-10-20',
+            notes: 'Line one\nLine two, with; marks', completions: ['2026-10-20']
+        };
+        const content = exportICalendar([task], CATEGORIES);
+        expect(content).toContain('SUMMARY:Buy soil\\; seeds\\, and a \\\\ rake');
+        expect(content).toContain('CATEGORIES:Home\\, Garden');
+        expect(content).not.toContain('HOME-GARDEN');
+        expect(content).toContain('STATUS:COMPLETED');
+
+        const [imported] = roundTrip([task]).tasks;
+        expect(imported).toMatchObject({ text: task.text, notes: task.notes, category: 'home-garden', completions: ['2026-10-20'] });
+    });
+
+    it('folds long lines and unfolds them on import', () => {
+        const task: Task = { ...base, id: 4, text: '긴 제목 '.repeat(20).trim(), type: 'one-time', category: 'work', dateCreated: '2026-10-21' };
+        const content = exportICalendar([task], CATEGORIES);
+        content.split('\r\n').forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+        expect(roundTrip([task]).tasks[0].text).toBe(task.text);
+    });
+
+    it('imports an unsupported rule as one-time and reports it', () => {
+        const content = [
+            'BEGIN:VCALENDAR', 'VERSION:2.0',
+            'BEGIN:VEVENT', 'UID:abc@example.com', 'DTSTART:20261019T090000', 'SUMMARY:Standup', 'RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', 'END:VEVENT',
+            'END:VCALENDAR'
+        ].join('\r\n');
+        const { tasks, errors } = parseICalendar(content, CATEGORIES);
+        expect(tasks[0]).toMatchObject({ text: 'Standup', type: 'one-time', dateCreated: '2026-10-19', time: '09:00' });
+        expect(tasks[0].recurrence).toBeUndefined();
+        expect(errors).toEqual(['"Standup": unsupported repeat rule, imported as one-time']);
+    });
+});
@@ -0,0 +1,215 @@
+import { Task, Category } from './types';
+import { CategoryDef, DEFAULT_CATEGORIES, FALLBACK_CATEGORY, categoryById } from './categories';
+import { getLocalISO } from './utils';
+import { getRecurrenceRule, toRRuleString, parseRRuleString, withRecurrence } from './recurrence';
+import { ParsedBackup } from './backup';
+
+// --- iCalendar (RFC 5545) ---
+// Timed tasks become VEVENTs, untimed ones VTODOs. Times are written as floating
+// local times, matching how the app stores them. Completion history travels in
+// an X- property so a round trip through a file keeps it.
+
+const PRODID = '-//MOTI-ON//Planner//EN';
+const UID_PATTERN = /^task-(\d+)@moti-on$/;
+const X_COMPLETIONS = 'X-MOTI-ON-COMPLETIONS';
+
+const escapeText = (text: string): string => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string => text
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([\\;,])/g, '$1');
+
+// Lines longer than 75 octets are folded; counting bytes keeps multi-byte text intact
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let bytes = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        if (bytes + size > (parts.length ? 74 : 75)) {
+            parts.push(current);
+            current = '';
+            bytes = 0;
+        }
+        current += char;
+        bytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toICalDate = (iso: string): string => iso.replace(/-/g, '');
+const toICalDateTime = (iso: string, time: string): string => `${toICalDate(iso)}T${time.replace(':', '')}00`;
+
+const stampNow = (): string => new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const taskToComponent = (task: Task, categories: CategoryDef[]): string[] => {
+    const kind = task.time ? 'VEVENT' : 'VTODO';
+    const rule = getRecurrenceRule(task);
+    const lines = [
+        `BEGIN:${kind}`,
+        `UID:task-${task.id}@moti-on`,
+        `DTSTAMP:${stampNow()}`,
+        task.time ? `DTSTART:${toICalDateTime(task.dateCreated, task.time)}` : `DTSTART;VALUE=DATE:${toICalDate(task.dateCreated)}`,
+        `SUMMARY:${escapeText(task.text)}`,
+        `CATEGORIES:${escapeText(categoryById(categories, task.category).label)}`
+    ];
+    if (task.notes) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+    if (rule) lines.push(`RRULE:${toRRuleString(rule, task.time)}`);
+    if (rule && task.hiddenDates.length) {
+        lines.push(task.time
+            ? `EXDATE:${task.hiddenDates.map(d => toICalDateTime(d, task.time!)).join(',')}`
+            : `EXDATE;VALUE=DATE:${task.hiddenDates.map(toICalDate).join(',')}`);
+    }
+    if (kind === 'VTODO' && !rule && task.completions.includes(task.dateCreated)) lines.push('STATUS:COMPLETED');
+    if (task.completions.length) lines.push(`${X_COMPLETIONS}:${task.completions.map(toICalDate).join(',')}`);
+    lines.push(`END:${kind}`);
+    return lines;
+};
+
+// Categories go out by name, which is what other calendars show and what import matches
+export const exportICalendar = (tasks: Task[], categories: CategoryDef[] = DEFAULT_CATEGORIES): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        ...tasks.flatMap(t => taskToComponent(t, categories)),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- Import ---
+
+interface Property {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+const unfold = (content: string): string[] => content.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(Boolean);
+
+const parseProperty = (line: string): Property | null => {
+    // The value starts at the first colon outside a quoted parameter
+    let inQuotes = false;
+    let split = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) { split = i; break; }
+    }
+    if (split < 0) return null;
+    const [name, ...paramParts] = line.slice(0, split).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(p => {
+        const [key, value] = p.split('=');
+        if (key && value !== undefined) params[key.toUpperCase()] = value.replace(/"/g, '');
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+};
+
+// Converts a DATE or DATE-TIME value to local date and optional HH:mm
+const parseDateValue = (value: string): { date: string, time?: string } | null => {
+    const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+    if (!m) return null;
+    if (!m[4]) return { date: `${m[1]}-${m[2]}-${m[3]}` };
+    if (m[7]) {
+        // UTC times are shown in the viewer's local zone
+        const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5]));
+        return { date: getLocalISO(d), time: `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}` };
+    }
+    return { date: `${m[1]}-${m[2]}-${m[3]}`, time: `${m[4]}:${m[5]}` };
+};
+
+const parseDateList = (value: string): string[] =>
+    value.split(',').map(v => parseDateValue(v)?.date).filter((d): d is string => !!d);
+
+// Matches CATEGORIES values against category ids and names; escaped commas belong to a name
+const toCategory = (value: string | undefined, categories: CategoryDef[]): Category => {
+    const names = (value || '').split(/(?<!\\),/).map(c => unescapeText(c).trim().toLowerCase());
+    return categories.find(c => names.includes(c.id) || names.includes(c.label.toLowerCase()))?.id ?? FALLBACK_CATEGORY;
+};
+
+/**
+ * Parses VEVENT and VTODO components into tasks. Unsupported recurrence rules
+ * import as one-time tasks and are reported in `errors`.
+ */
+export const parseICalendar = (content: string, categories: CategoryDef[] = DEFAULT_CATEGORIES): ParsedBackup => {
+    const lines = unfold(content);
+    if (!lines.length || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+        throw new Error('File is not an iCalendar file');
+    }
+
+    const tasks: Task[] = [];
+    const errors: string[] = [];
+    const usedIds = new Set<number>();
+    let nextId = Date.now();
+    let component: Property[] | null = null;
+    let depth = 0; // Nested components such as VALARM are skipped
+
+    const finish = (props: Property[]) => {
+        const get = (name: string) => props.find(p => p.name === name);
+        const summary = unescapeText(get('SUMMARY')?.value || '').trim();
+        const start = parseDateValue(get('DTSTART')?.value || '') || parseDateValue(get('DUE')?.value || '');
+        if (!summary) {
+            errors.push('Skipped an entry without a title');
+            return;
+        }
+
+        const uidMatch = UID_PATTERN.exec(get('UID')?.value || '');
+        let id = uidMatch ? parseInt(uidMatch[1], 10) : nextId++;
+        while (usedIds.has(id)) id = nextId++;
+        usedIds.add(id);
+
+        const completions = parseDateList(get(X_COMPLETIONS)?.value || '');
+        const dateCreated = start?.date || getLocalISO();
+        if (get('STATUS')?.value.toUpperCase() === 'COMPLETED' && !completions.includes(dateCreated)) completions.push(dateCreated);
+
+        let task: Task = {
+            id,
+            text: summary,
+            type: 'one-time',
+            category: toCategory(get('CATEGORIES')?.value, categories),
+            dateCreated,
+            completions,
+            hiddenDates: props.filter(p => p.name === 'EXDATE').flatMap(p => parseDateList(p.value)),
+            notes: unescapeText(get('DESCRIPTION')?.value || ''),
+            time: start?.time
+        };
+
+        const rrule = get('RRULE');
+        if (rrule) {
+            const rule = parseRRuleString(rrule.value);
+            if (rule) task = withRecurrence(task, rule);
+            else errors.push(`"${summary}": unsupported repeat rule, imported as one-time`);
+        }
+        tasks.push(task);
+    };
+
+    lines.forEach(line => {
+        const prop = parseProperty(line);
+        if (!prop) return;
+        if (prop.name === 'BEGIN') {
+            const kind = prop.value.toUpperCase();
+            if (!component && (kind === 'VEVENT' || kind === 'VTODO')) component = [];
+            else if (component) depth++;
+            return;
+        }
+        if (prop.name === 'END') {
+            if (component && depth > 0) depth--;
+            else if (component) {
+                finish(component);
+                component = null;
+            }
+            return;
+        }
+        if (component && depth === 0) component.push(prop);
+    });
+
+    return { tasks, settings: {}, exportedAt: '', errors };
+};
@@ -0,0 +1,56 @@
+import { Task, Category } from './types';
+import { getRecurrenceRule, occursOn } from './recurrence';
+import { getLocalISO } from './utils';
+
+// --- Month Load ---
+// Per-day counts for the sidebar calendar. Each task is visited once and only
+// walks the part of the month its series can cover, so a month costs about
+// tasks × days-in-range rather than a full shouldShowTask pass per cell render.
+
+export interface DayLoad {
+    total: number;
+    done: number;
+    overdue: number; // Past occurrences left open, plus late one-time tasks carried to today
+    categories: Partial<Record<Category, number>>;
+}
+
+const emptyLoad = (): DayLoad => ({ total: 0, done: 0, overdue: 0, categories: {} });
+
+// `month` is 0-based, as in Date#getMonth
+export const computeMonthLoad = (tasks: Task[], year: number, month: number, todayStr: string = getLocalISO()): Record<string, DayLoad> => {
+    const prefix = `${year}-${String(month + 1).padStart(2, '0')}-`;
+    const dates = Array.from({ length: new Date(year, month + 1, 0).getDate() }, (_, i) => `${prefix}${String(i + 1).padStart(2, '0')}`);
+    const first = dates[0];
+    const last = dates[dates.length - 1];
+    const load: Record<string, DayLoad> = {};
+
+    const add = (task: Task, date: string, isDone: boolean, isLate: boolean) => {
+        const day = load[date] || (load[date] = emptyLoad());
+        const category = task.overrides?.[date]?.category ?? task.category;
+        day.total++;
+        if (isDone) day.done++;
+        if (isLate) day.overdue++;
+        day.categories[category] = (day.categories[category] || 0) + 1;
+    };
+
+    tasks.forEach(task => {
+        const hidden = new Set(task.hiddenDates);
+        if (task.type === 'one-time') {
+            const date = task.dateCreated;
+            const isDone = task.completions.includes(date);
+            if (date >= first && date <= last && !hidden.has(date)) add(task, date, isDone, !isDone && date < todayStr);
+            // Mirrors shouldShowTask: an open one-time task from the past also shows on today
+            if (!isDone && date < todayStr && todayStr >= first && todayStr <= last && !hidden.has(todayStr)) add(task, todayStr, false, true);
+            return;
+        }
+
+        const rule = getRecurrenceRule(task);
+        if (!rule || task.dateCreated > last || (rule.until && rule.until < first)) return;
+        dates.forEach(date => {
+            if (date < task.dateCreated || hidden.has(date) || !occursOn(rule, task.dateCreated, date)) return;
+            const isDone = task.completions.includes(date);
+            add(task, date, isDone, !isDone && date < todayStr);
+        });
+    });
+    return load;
+};
@@ -0,0 +1,81 @@
+// --- System Notifications ---
+// Alerts are shown through the service worker when one is active, so they get
+// Complete/Snooze buttons and stay in the tray after the tab loses focus.
+
+export const NOTIFICATION_SNOOZE_MINUTES = 10; // Matches SNOOZE_MINUTES in public/sw.js
+const ACTION_PARAM = 'alert-action'; // Matches ACTION_PARAM in public/sw.js
+
+export interface AlertNotificationData {
+    key: string;
+    taskId: number;
+    date: string;
+}
+
+export interface NotificationActionMessage extends AlertNotificationData {
+    type: 'alert-action';
+    action: 'complete' | 'snooze';
+}
+
+// Only production builds register the worker; in dev it would cache Vite's modules
+export const registerServiceWorker = () => {
+    if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js').catch(e => console.warn('Service worker registration failed', e));
+    });
+};
+
+export const requestNotificationPermission = () => {
+    if ('Notification' in window && Notification.permission === 'default') {
+        Notification.requestPermission().catch(() => {});
+    }
+};
+
+// `silent` is used during quiet hours: the notification shows without sound or vibration
+export const showAlertNotification = async (title: string, body: string, data: AlertNotificationData, silent = false) => {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (!registration) {
+        new Notification(title, { body, icon: '/icon-192.png', tag: data.key, silent });
+        return;
+    }
+    // `actions` is missing from the DOM typings
+    const options: any = {
+        body,
+        icon: '/icon-192.png',
+        badge: '/icon-192.png',
+        tag: data.key,
+        requireInteraction: !silent,
+        silent,
+        data,
+        actions: [
+            { action: 'complete', title: 'Complete' },
+            { action: 'snooze', title: `Snooze ${NOTIFICATION_SNOOZE_MINUTES} min` }
+        ]
+    };
+    await registration.showNotification(title, options);
+};
+
+// The handler returns true when this tab applied the action; the worker is
+// told so, and otherwise applies it itself
+export const onNotificationAction = (handler: (message: NotificationActionMessage) => boolean): (() => void) => {
+    if (!('serviceWorker' in navigator)) return () => {};
+    const listener = (e: MessageEvent) => {
+        if (e.data?.type === 'alert-action' && handler(e.data)) e.ports[0]?.postMessage({ type: 'alert-action-applied' });
+    };
+    navigator.serviceWorker.addEventListener('message', listener);
+    return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+// An action the worker could not apply opens the app with it in the URL.
+// Reads it once and removes it, so a reload does not apply it again.
+export const takeLaunchAction = (): NotificationActionMessage | null => {
+    const params = new URLSearchParams(window.location.search);
+    const action = params.get(ACTION_PARAM);
+    const key = params.get('key');
+    const taskId = Number(params.get('taskId'));
+    const date = params.get('date');
+    if (!action) return null;
+    window.history.replaceState(null, '', window.location.pathname);
+    if ((action !== 'complete' && action !== 'snooze') || !key || !Number.isFinite(taskId) || !date) return null;
+    return { type: 'alert-action', action, key, taskId, date };
+};
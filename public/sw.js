@@ -0,0 +1,148 @@
+// MOTI-ON service worker: offline cache and notification actions.
+// Kept as plain JS in public/ so it is served from the site root unbundled.
+
+// Both are filled in at build time by the precache plugin in vite.config.ts:
+// the build id versions the cache, and ASSETS lists the hashed bundle files.
+const BUILD = 'dev';
+const ASSETS = [];
+const CACHE = `moti-on-${BUILD}`;
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png', ...ASSETS];
+const SNOOZE_MINUTES = 10; // Matches NOTIFICATION_SNOOZE_MINUTES in notifications.ts
+const ACTION_PARAM = 'alert-action'; // Matches ACTION_PARAM in notifications.ts
+const ACK_TIMEOUT_MS = 3000;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(k => k !== CACHE).map(k => caches.delete(k))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Pages: network first so deploys show up, cached shell when offline.
+// Hashed build assets: cache first. Anything else same-origin: stale while revalidate.
+self.addEventListener('fetch', (event) => {
+    const request = event.request;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then(response => {
+                    const copy = response.clone();
+                    caches.open(CACHE).then(cache => cache.put('/index.html', copy));
+                    return response;
+                })
+                .catch(() => caches.match('/index.html'))
+        );
+        return;
+    }
+
+    event.respondWith(caches.open(CACHE).then(async cache => {
+        const cached = await cache.match(request);
+        const network = fetch(request).then(response => {
+            if (response.ok) cache.put(request, response.clone());
+            return response;
+        });
+        if (cached && url.pathname.startsWith('/assets/')) return cached;
+        if (cached) {
+            network.catch(() => {});
+            return cached;
+        }
+        return network;
+    }));
+});
+
+// --- Notification Actions ---
+// With a window open, the page applies the action so undo and sync see it.
+// If no page confirms it, the task is updated in IndexedDB directly, and when
+// it is not there (tasks kept in localStorage) a window is opened to apply it.
+
+const pad = (n) => String(n).padStart(2, '0');
+const localDateTime = (d) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+const openDatabase = () => new Promise((resolve, reject) => {
+    const request = indexedDB.open('moti-on');
+    // Never create the database here; the app owns its schema
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const updateStoredTask = async (taskId, update) => {
+    const db = await openDatabase();
+    try {
+        const tx = db.transaction('tasks', 'readwrite');
+        const store = tx.objectStore('tasks');
+        const task = await new Promise((resolve, reject) => {
+            const get = store.get(taskId);
+            get.onsuccess = () => resolve(get.result);
+            get.onerror = () => reject(get.error);
+        });
+        if (task) store.put(update(task));
+        await new Promise((resolve, reject) => {
+            tx.oncomplete = resolve;
+            tx.onerror = () => reject(tx.error);
+        });
+        return !!task;
+    } finally {
+        db.close();
+    }
+};
+
+const applyAction = (action, { taskId, date }) => updateStoredTask(taskId, task => {
+    if (action === 'complete') {
+        const snooze = task.snooze && task.snooze.date === date ? undefined : task.snooze;
+        if (task.completions.includes(date)) return { ...task, snooze };
+        // A quantity habit is completed by logging its full target, as in quantity.ts
+        const amounts = task.goal ? { ...(task.amounts || {}), [date]: Math.max((task.amounts || {})[date] || 0, task.goal.target) } : task.amounts;
+        // Stamped like completionLog.ts does in the app
+        const completionLog = { ...(task.completionLog || {}), [date]: { ...(task.completionLog || {})[date], at: localDateTime(new Date()) } };
+        return { ...task, completions: [...task.completions, date], amounts, completionLog, snooze };
+    }
+    const until = localDateTime(new Date(Date.now() + SNOOZE_MINUTES * 60000));
+    return { ...task, snooze: { date, until }, snoozeCount: (task.snoozeCount || 0) + 1 };
+});
+
+// Resolves true once a page reports that it applied the action
+const postToWindows = (windows, message) => new Promise(resolve => {
+    const timer = setTimeout(() => resolve(false), ACK_TIMEOUT_MS);
+    windows.forEach(client => {
+        const channel = new MessageChannel();
+        channel.port1.onmessage = () => {
+            clearTimeout(timer);
+            resolve(true);
+        };
+        client.postMessage(message, [channel.port2]);
+    });
+});
+
+const openWithAction = (action, { key, taskId, date }) =>
+    self.clients.openWindow(`/?${new URLSearchParams({ [ACTION_PARAM]: action, key, taskId: String(taskId), date })}`);
+
+self.addEventListener('notificationclick', (event) => {
+    const { action } = event;
+    const data = event.notification.data || {};
+    event.notification.close();
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (action === 'complete' || action === 'snooze') {
+            if (windows.length && await postToWindows(windows, { type: 'alert-action', action, ...data })) return;
+            const applied = await applyAction(action, data).catch(e => {
+                console.warn('Notification action failed', e);
+                return false;
+            });
+            if (applied) return;
+            // An open window already has the message and applies it once it wakes up
+            return windows.length ? windows[0].focus() : openWithAction(action, data);
+        }
+        if (windows.length) return windows[0].focus();
+        return self.clients.openWindow('/');
+    })());
+});
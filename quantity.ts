@@ -0,0 +1,74 @@
+import { Task } from './types';
+import { addDays, getWeekStart, shouldShowTask } from './utils';
+
+// --- Quantity Habits ---
+// A task with a goal ("8 glasses") records an amount per occurrence date in
+// Task.amounts. Reaching the target completes the occurrence and dropping
+// below it reopens it, the same way a checklist completes its task.
+
+export const DEFAULT_STEP = 1;
+
+// Amounts keep two decimals so steps like 0.25 l add up cleanly
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const amountOn = (task: Task, date: string): number => task.amounts?.[date] || 0;
+
+// From 0 to 1; amounts past the target count as done
+export const quantityProgress = (task: Task, date: string): number =>
+    task.goal ? Math.min(1, amountOn(task, date) / task.goal.target) : 0;
+
+export const formatAmount = (value: number): string => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// Replaces the amount for `date`, dropping the entry at zero
+export const withAmount = (task: Task, date: string, amount: number): Task => {
+    const amounts = { ...(task.amounts || {}) };
+    if (amount > 0) amounts[date] = amount;
+    else delete amounts[date];
+    return { ...task, amounts: Object.keys(amounts).length ? amounts : undefined };
+};
+
+export const setAmount = (task: Task, date: string, amount: number): Task => {
+    const value = Math.max(0, round(amount));
+    const next = withAmount(task, date, value);
+    if (!task.goal) return next;
+    const reached = value >= task.goal.target;
+    const isDone = task.completions.includes(date);
+    if (reached && !isDone) return { ...next, completions: [...task.completions, date] };
+    if (!reached && isDone) return { ...next, completions: task.completions.filter(c => c !== date) };
+    return next;
+};
+
+// One step up (+1) or down (-1)
+export const adjustAmount = (task: Task, date: string, direction: number): Task =>
+    setAmount(task, date, amountOn(task, date) + direction * (task.goal?.step || DEFAULT_STEP));
+
+export const completeQuantity = (task: Task, date: string): Task =>
+    setAmount(task, date, Math.max(amountOn(task, date), task.goal?.target || 0));
+
+// Checking off logs the full target; unchecking clears the day's amount
+export const toggleQuantity = (task: Task, date: string): Task =>
+    task.completions.includes(date) ? setAmount(task, date, 0) : completeQuantity(task, date);
+
+// --- Totals for charts ---
+export interface AmountTotal {
+    start: string; // First day of the bucket
+    amount: number;
+    target: number; // What the bucket would hold with the goal met on every occurrence
+}
+
+// The `count` days up to and including `end`
+export const dailyTotals = (task: Task, end: string, count: number): AmountTotal[] =>
+    Array.from({ length: count }, (_, i) => {
+        const date = addDays(end, i - count + 1);
+        return { start: date, amount: amountOn(task, date), target: shouldShowTask(task, date) ? task.goal?.target || 0 : 0 };
+    });
+
+// The `count` weeks (Sunday to Saturday) up to the one holding `end`
+export const weeklyTotals = (task: Task, end: string, count: number): AmountTotal[] => {
+    const lastWeek = getWeekStart(end);
+    return Array.from({ length: count }, (_, i) => {
+        const start = addDays(lastWeek, (i - count + 1) * 7);
+        const days = dailyTotals(task, addDays(start, 6), 7);
+        return { start, amount: round(days.reduce((sum, d) => sum + d.amount, 0)), target: round(days.reduce((sum, d) => sum + d.target, 0)) };
+    });
+};
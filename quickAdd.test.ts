@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuickAdd } from './quickAdd';
+import { DEFAULT_CATEGORIES } from './categories';
+
+const BASE = '2026-10-19'; // A Monday
+
+describe('parseQuickAdd', () => {
+    describe('English', () => {
+        it('reads a weekly rule with a time and a category tag', () => {
+            const result = parseQuickAdd('gym every Mon 7pm #health', BASE);
+            expect(result.text).toBe('gym');
+            expect(result.category).toBe('health');
+            expect(result.type).toBe('weekly');
+            expect(result.recurrence).toEqual({ freq: 'weekly', interval: 1, byDay: [1] });
+            expect(result.weeklyDay).toBe(1);
+            expect(result.dateCreated).toBe(BASE);
+            expect(result.time).toBe('19:00');
+            expect(result.detections.map(d => d.kind).sort()).toEqual(['category', 'recurrence', 'time']);
+        });
+
+        it('reads a day of the month with an ordinal', () => {
+            const result = parseQuickAdd('pay rent on the 1st', BASE);
+            expect(result.text).toBe('pay rent');
+            expect(result.type).toBe('one-time');
+            expect(result.dateCreated).toBe('2026-11-01');
+        });
+
+        it('reads "tomorrow" and leaves the rest as text', () => {
+            const result = parseQuickAdd('call mom tomorrow at 9am', BASE);
+            expect(result.text).toBe('call mom');
+            expect(result.dateCreated).toBe('2026-10-20');
+            expect(result.time).toBe('09:00');
+        });
+
+        it('reads a monthly set position', () => {
+            const result = parseQuickAdd('team retro last Friday of the month', BASE);
+            expect(result.recurrence).toEqual({ freq: 'monthly', interval: 1, bySetPos: -1, byDay: [5] });
+            expect(result.dateCreated).toBe('2026-10-30');
+        });
+    });
+
+    describe('Korean', () => {
+        it('reads a relative day and an afternoon time', () => {
+            const result = parseQuickAdd('내일 오후 3시 회의', BASE);
+            expect(result.text).toBe('회의');
+            expect(result.dateCreated).toBe('2026-10-20');
+            expect(result.time).toBe('15:00');
+            expect(result.type).toBe('one-time');
+        });
+
+        it('reads weekly days and a Korean category tag', () => {
+            const result = parseQuickAdd('매주 월수금 운동하기 #운동', BASE);
+            expect(result.text).toBe('운동하기');
+            expect(result.category).toBe('health');
+            expect(result.recurrence).toEqual({ freq: 'weekly', interval: 1, byDay: [1, 3, 5] });
+        });
+    });
+
+    describe('ambiguous input', () => {
+        it('keeps a bare number as text', () => {
+            const result = parseQuickAdd('3', BASE);
+            expect(result.text).toBe('3');
+            expect(result.dateCreated).toBe(BASE);
+            expect(result.time).toBeUndefined();
+            expect(result.detections).toEqual([]);
+        });
+
+        it('keeps a count that is not a date as text', () => {
+            const result = parseQuickAdd('read the 30 pages', BASE);
+            expect(result.text).toBe('read the 30 pages');
+            expect(result.dateCreated).toBe(BASE);
+        });
+
+        it('leaves an unknown #tag in the text and uses the default category', () => {
+            const result = parseQuickAdd('buy milk #groceries', BASE);
+            expect(result.text).toBe('buy milk #groceries');
+            expect(result.category).toBe('personal');
+            expect(result.detections).toEqual([]);
+        });
+
+        it('does not match archived categories', () => {
+            const categories = DEFAULT_CATEGORIES.map(c => c.id === 'work' ? { ...c, archived: true } : c);
+            const result = parseQuickAdd('report #work', BASE, categories);
+            expect(result.text).toBe('report #work');
+            expect(result.category).toBe('personal');
+        });
+
+        it('leaves short weekday words alone without "on"', () => {
+            const result = parseQuickAdd('sat down to write', BASE);
+            expect(result.text).toBe('sat down to write');
+            expect(result.dateCreated).toBe(BASE);
+        });
+    });
+});
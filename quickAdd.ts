@@ -0,0 +1,253 @@
+import { Category, TaskType, RecurrenceRule } from './types';
+import { getLocalISO, parseLocalDate, extractTimeFromText } from './utils';
+import { nextOccurrence, typeForRule, describeRecurrence } from './recurrence';
+import { CategoryDef, DEFAULT_CATEGORIES, defaultCategoryId } from './categories';
+
+// --- Natural-language Quick Add Parser ---
+// Turns free text such as "gym every Mon 7pm #health", "내일 오후 3시 회의"
+// or "pay rent on the 1st" into the scheduling fields of a Task.
+
+export type DetectionKind = 'date' | 'time' | 'recurrence' | 'category';
+
+export interface Detection {
+    kind: DetectionKind;
+    label: string; // Human readable summary for the preview chips
+    source: string; // Fragment of the input that produced it
+}
+
+export interface QuickAddResult {
+    text: string;
+    type: TaskType;
+    category: Category;
+    dateCreated: string;
+    weeklyDay: number | null;
+    recurrence?: RecurrenceRule;
+    time?: string;
+    detections: Detection[];
+}
+
+// Removed fragments are replaced with this marker first, so connector words
+// ("at", "on", "에") that only made sense next to them can be cleaned up.
+const MARK = '\u0000';
+
+// Extra tags for the built-in categories; every category also matches its id and name
+const CATEGORY_ALIASES: Record<Category, string[]> = {
+    personal: ['personal', 'me', 'home', '개인', '집'],
+    work: ['work', 'job', 'office', '업무', '회사', '일'],
+    health: ['health', 'gym', 'fitness', 'workout', '건강', '운동'],
+    other: ['other', 'misc', '기타']
+};
+
+// Longest names first so "thursday" wins over "thu"
+const EN_DAY_NAMES: [string, number][] = [
+    ['sunday', 0], ['monday', 1], ['tuesday', 2], ['wednesday', 3], ['thursday', 4], ['friday', 5], ['saturday', 6],
+    ['thurs', 4], ['tues', 2], ['thur', 4],
+    ['sun', 0], ['mon', 1], ['tue', 2], ['wed', 3], ['thu', 4], ['fri', 5], ['sat', 6]
+];
+const EN_DAY_PATTERN = EN_DAY_NAMES.map(([n]) => n).join('|');
+const EN_DAY_LIST = `(?:${EN_DAY_PATTERN})(?:\\s*(?:,|/|&|and)\\s*(?:${EN_DAY_PATTERN}))*`;
+const KO_DAYS = '일월화수목금토';
+
+const EN_SET_POSITIONS: Record<string, number> = { first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, last: -1 };
+const KO_SET_POSITIONS: Record<string, number> = { '첫째': 1, '첫번째': 1, '둘째': 2, '셋째': 3, '넷째': 4, '마지막': -1 };
+
+const dayFromEnglish = (name: string): number => {
+    const found = EN_DAY_NAMES.find(([n]) => n === name.toLowerCase());
+    return found ? found[1] : 0;
+};
+
+// "mon/wed/fri", "mon, wed and fri" or "월수금"
+const parseDayList = (list: string): number[] => {
+    const english = list.match(new RegExp(EN_DAY_PATTERN, 'gi'));
+    const days = english
+        ? english.map(dayFromEnglish)
+        : list.replace(/요일/g, '').split('').filter(c => KO_DAYS.includes(c)).map(c => KO_DAYS.indexOf(c));
+    return Array.from(new Set(days)).sort();
+};
+
+const addDays = (iso: string, days: number): string => {
+    const d = parseLocalDate(iso);
+    d.setDate(d.getDate() + days);
+    return getLocalISO(d);
+};
+
+// Next date falling on `weekday`. `includeBase` decides whether the base date itself counts.
+const nextWeekday = (baseIso: string, weekday: number, includeBase: boolean): string => {
+    const base = parseLocalDate(baseIso);
+    let diff = (weekday - base.getDay() + 7) % 7;
+    if (diff === 0 && !includeBase) diff = 7;
+    return addDays(baseIso, diff);
+};
+
+// Next date (on or after base) whose day-of-month is `day`, skipping months that are too short.
+const nextMonthDay = (baseIso: string, day: number): string | undefined => {
+    if (day < 1 || day > 31) return undefined;
+    const base = parseLocalDate(baseIso);
+    for (let i = 0; i < 12; i++) {
+        const year = base.getFullYear();
+        const month = base.getMonth() + i;
+        const lastDay = new Date(year, month + 1, 0).getDate();
+        if (day > lastDay) continue;
+        const candidate = getLocalISO(new Date(year, month, day));
+        if (candidate >= baseIso) return candidate;
+    }
+    return undefined;
+};
+
+// Explicit calendar date; the year rolls forward when the date already passed.
+const upcomingDate = (baseIso: string, month: number, day: number): string | undefined => {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+    const baseYear = parseLocalDate(baseIso).getFullYear();
+    for (const year of [baseYear, baseYear + 1]) {
+        const d = new Date(year, month - 1, day);
+        if (d.getMonth() !== month - 1) return undefined; // e.g. Feb 30th
+        const iso = getLocalISO(d);
+        if (iso >= baseIso) return iso;
+    }
+    return undefined;
+};
+
+const formatDateLabel = (iso: string, baseIso: string): string => {
+    if (iso === baseIso) return 'Today';
+    if (iso === addDays(baseIso, 1)) return 'Tomorrow';
+    return parseLocalDate(iso).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+interface Rule<T> {
+    regex: RegExp;
+    handler: (match: RegExpExecArray) => T | undefined;
+}
+
+// Cuts the match out of the input, leaving a marker in its place
+const cut = (input: string, match: RegExpExecArray): string =>
+    input.slice(0, match.index) + MARK + input.slice(match.index + match[0].length);
+
+// Runs the rules in order and applies the first one that both matches and yields a value.
+const applyFirst = <T,>(input: string, rules: Rule<T>[]): { value: T, source: string, rest: string } | null => {
+    for (const { regex, handler } of rules) {
+        const match = regex.exec(input);
+        if (!match) continue;
+        const value = handler(match);
+        if (value === undefined) continue;
+        return { value, source: match[0].trim(), rest: cut(input, match) };
+    }
+    return null;
+};
+
+const categoryTags = (c: CategoryDef): string[] => {
+    const label = c.label.toLowerCase();
+    return [c.id, label, label.replace(/\s+/g, ''), ...(CATEGORY_ALIASES[c.id] || [])];
+};
+
+export const parseQuickAdd = (input: string, baseDate: string = getLocalISO(), categories: CategoryDef[] = DEFAULT_CATEGORIES): QuickAddResult => {
+    const detections: Detection[] = [];
+    let rest = input;
+
+    let category: Category = defaultCategoryId(categories);
+    let type: TaskType = 'one-time';
+    let weeklyDay: number | null = null;
+    let dateCreated = baseDate;
+    let time: string | undefined;
+
+    // 1. Category: "#health", "#운동". Unknown hashtags stay in the text; archived categories are not matched.
+    const tagRegex = /(^|\s)#([^\s#]+)/g;
+    const active = categories.filter(c => !c.archived);
+    let tagMatch: RegExpExecArray | null;
+    while ((tagMatch = tagRegex.exec(rest)) !== null) {
+        const tag = tagMatch[2].toLowerCase();
+        const found = active.find(c => categoryTags(c).includes(tag));
+        if (found) {
+            category = found.id;
+            detections.push({ kind: 'category', label: found.label, source: `#${tagMatch[2]}` });
+            rest = rest.slice(0, tagMatch.index) + tagMatch[1] + MARK + rest.slice(tagMatch.index + tagMatch[0].length);
+            break;
+        }
+    }
+
+    // 2. Recurrence. A weekly rule without byDay follows its start date; see below.
+    const daily = (interval: number): RecurrenceRule => ({ freq: 'daily', interval });
+    const weekly = (interval: number, byDay?: number[]): RecurrenceRule => byDay ? { freq: 'weekly', interval, byDay } : { freq: 'weekly', interval };
+    const recurrence = applyFirst<RecurrenceRule>(rest, [
+        { regex: new RegExp(`\\b(?:every\\s+|on\\s+the\\s+|the\\s+)?(${Object.keys(EN_SET_POSITIONS).join('|')})\\s+(${EN_DAY_PATTERN})\\s+of\\s+(?:the|every|each)\\s+month\\b`, 'i'),
+            handler: m => ({ freq: 'monthly', interval: 1, bySetPos: EN_SET_POSITIONS[m[1].toLowerCase()], byDay: [dayFromEnglish(m[2])] }) },
+        { regex: new RegExp(`(?:매월|매달)\\s*(${Object.keys(KO_SET_POSITIONS).join('|')})\\s*(?:주\\s*)?([${KO_DAYS}])요일`),
+            handler: m => ({ freq: 'monthly', interval: 1, bySetPos: KO_SET_POSITIONS[m[1]], byDay: [KO_DAYS.indexOf(m[2])] }) },
+        { regex: /\bevery\s+(\d+)\s+days?\b|(\d+)일\s*마다/i, handler: m => daily(parseInt(m[1] || m[2], 10) || 1) },
+        { regex: /\bevery\s+other\s+day\b|격일/i, handler: () => daily(2) },
+        { regex: new RegExp(`\\bevery\\s+(\\d+|other)\\s+weeks?(?:\\s+on\\s+(${EN_DAY_LIST}))?\\b`, 'i'),
+            handler: m => weekly(m[1].toLowerCase() === 'other' ? 2 : (parseInt(m[1], 10) || 1), m[2] ? parseDayList(m[2]) : undefined) },
+        { regex: /\b(?:every\s+)?weekdays?\b|평일/i, handler: () => weekly(1, [1, 2, 3, 4, 5]) },
+        { regex: /\b(?:every\s+)?weekends?\b|주말/i, handler: () => weekly(1, [0, 6]) },
+        { regex: /\b(?:every\s*day|everyday|daily)\b|매일/i, handler: () => daily(1) },
+        { regex: new RegExp(`\\b(?:every|each|weekly\\s+on)\\s+(${EN_DAY_LIST})\\b`, 'i'), handler: m => weekly(1, parseDayList(m[1])) },
+        { regex: new RegExp(`매주\\s*((?:[${KO_DAYS}](?:요일)?(?:\\s*[,/]\\s*)?)+)`), handler: m => weekly(1, parseDayList(m[1])) },
+        { regex: /\b(?:every\s+week|weekly)\b|매주/i, handler: () => weekly(1) },
+        { regex: /\b(?:every\s+month|monthly)\b|매월|매달/i, handler: () => ({ freq: 'monthly', interval: 1 }) },
+        { regex: /\b(?:every\s+year|yearly|annually)\b|매년/i, handler: () => ({ freq: 'yearly', interval: 1 }) }
+    ]);
+    let rule: RecurrenceRule | null = null;
+    if (recurrence) {
+        rule = recurrence.value;
+        rest = recurrence.rest;
+    }
+
+    // 3. Date. For repeating tasks this becomes the start date.
+    const date = applyFirst<string>(rest, [
+        { regex: /\b(?:the\s+)?day\s+after\s+tomorrow\b|모레/i, handler: () => addDays(baseDate, 2) },
+        { regex: /\b(?:tomorrow|tmrw|tmr)\b|내일/i, handler: () => addDays(baseDate, 1) },
+        { regex: /\b(?:today|tonight)\b|오늘/i, handler: () => baseDate },
+        { regex: /\b(\d{4})-(\d{2})-(\d{2})\b/, handler: m => {
+            const iso = `${m[1]}-${m[2]}-${m[3]}`;
+            return getLocalISO(parseLocalDate(iso)) === iso ? iso : undefined;
+        } },
+        { regex: /(\d{1,2})월\s*(\d{1,2})일/, handler: m => upcomingDate(baseDate, parseInt(m[1], 10), parseInt(m[2], 10)) },
+        { regex: /\b(\d{1,2})\/(\d{1,2})\b/, handler: m => upcomingDate(baseDate, parseInt(m[1], 10), parseInt(m[2], 10)) },
+        // "next Mon" always means the following week's occurrence, never today
+        { regex: new RegExp(`\\bnext\\s+(${EN_DAY_PATTERN})\\b`, 'i'), handler: m => nextWeekday(baseDate, dayFromEnglish(m[1]), false) },
+        { regex: new RegExp(`다음\\s*주\\s*([${KO_DAYS}])요일`), handler: m => {
+            const nextSunday = nextWeekday(baseDate, 0, false);
+            return addDays(nextSunday, KO_DAYS.indexOf(m[1]));
+        } },
+        // A plain weekday ("on Fri", "Friday", "금요일") is the nearest one, including today.
+        // Abbreviations need "on"/"this" so words like "sun" or "sat" are left alone.
+        { regex: new RegExp(`\\b(?:on|this)\\s+(${EN_DAY_PATTERN})\\b`, 'i'), handler: m => nextWeekday(baseDate, dayFromEnglish(m[1]), true) },
+        { regex: /\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i, handler: m => nextWeekday(baseDate, dayFromEnglish(m[1]), true) },
+        { regex: new RegExp(`(?:이번\\s*주\\s*)?([${KO_DAYS}])요일`), handler: m => nextWeekday(baseDate, KO_DAYS.indexOf(m[1]), true) },
+        // Day of month needs an ordinal suffix or "on the", so "read the 30 pages" stays text
+        { regex: /\bon\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\b|\b(?:on\s+)?(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)\b/i, handler: m => nextMonthDay(baseDate, parseInt(m[1] || m[2], 10)) },
+        { regex: /(\d{1,2})일(?!\s*(?:동안|간))/, handler: m => nextMonthDay(baseDate, parseInt(m[1], 10)) }
+    ]);
+    if (date) {
+        dateCreated = date.value;
+        rest = date.rest;
+        detections.push({ kind: 'date', label: formatDateLabel(date.value, baseDate), source: date.source });
+    } else if (rule && (rule.bySetPos || (rule.byDay && rule.freq === 'weekly'))) {
+        // Without an explicit start, begin at the first matching day
+        dateCreated = nextOccurrence(rule, baseDate, baseDate) || baseDate;
+    }
+    if (rule && recurrence) {
+        // "weekly from Friday" repeats on the day it starts
+        if (rule.freq === 'weekly' && !rule.byDay) rule = { ...rule, byDay: [parseLocalDate(dateCreated).getDay()] };
+        type = typeForRule(rule);
+        weeklyDay = rule.byDay && rule.freq === 'weekly' ? rule.byDay[0] : null;
+        const label = describeRecurrence(rule);
+        detections.push({ kind: 'recurrence', label: label.charAt(0).toUpperCase() + label.slice(1), source: recurrence.source });
+    }
+
+    // 4. Time, reusing the shared time extractor
+    const timeResult = extractTimeFromText(rest);
+    if (timeResult.time && timeResult.matched) {
+        time = timeResult.time;
+        rest = rest.replace(timeResult.matched, MARK);
+        detections.push({ kind: 'time', label: time, source: timeResult.matched.trim() });
+    }
+
+    // Drop connectors that belonged to removed fragments, then the markers themselves
+    const text = rest
+        .replace(new RegExp(`(?:\\b(?:at|on|by|from|starting)|@)\\s*(?=${MARK})`, 'gi'), '')
+        .replace(new RegExp(`${MARK}(?:에는|에|까지|부터)?`, 'g'), ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return { text, type, category, dateCreated, weeklyDay, recurrence: rule ?? undefined, time, detections };
+};
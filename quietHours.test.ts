@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { quietStateAt, breaksThrough, QuietSettings, QuietWindow } from './quietHours';
+
+// Oct 19 2026 is a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+
+const quietWindow = (id: string, start: string, end: string, mode: QuietWindow['mode'], days = [0, 1, 2, 3, 4, 5, 6]): QuietWindow => ({
+    id, label: id, start, end, days, mode, enabled: true
+});
+
+const settings = (...windows: QuietWindow[]): QuietSettings => ({ windows, breakthrough: ['health'] });
+
+describe('quiet hours', () => {
+    it('run a window across midnight into the day after the one it starts on', () => {
+        const night = settings(quietWindow('Night', '22:00', '07:00', 'delay', [1]));
+        expect(quietStateAt(night, 0, at(19, 23))).toEqual({ mode: 'delay', label: 'Night', until: at(20, 7).getTime() });
+        expect(quietStateAt(night, 0, at(20, 6, 59))?.until).toBe(at(20, 7).getTime());
+        expect(quietStateAt(night, 0, at(20, 7))).toBeNull();
+        // Sunday night is not part of it, and neither is Tuesday night
+        expect(quietStateAt(night, 0, at(19, 6))).toBeNull();
+        expect(quietStateAt(night, 0, at(20, 23))).toBeNull();
+    });
+
+    it('end a same-day window at its end time, only on its days', () => {
+        const focus = settings(quietWindow('Focus', '09:00', '12:00', 'badge', [1, 2, 3, 4, 5]));
+        expect(quietStateAt(focus, 0, at(19, 9))?.until).toBe(at(19, 12).getTime());
+        expect(quietStateAt(focus, 0, at(19, 12))).toBeNull();
+        expect(quietStateAt(focus, 0, at(18, 10))).toBeNull();
+    });
+
+    it('use the strictest overlapping window until the last of them ends', () => {
+        const overlapping = settings(
+            quietWindow('Meeting', '08:00', '10:00', 'silent'),
+            quietWindow('Deep Work', '09:00', '11:00', 'delay'),
+            quietWindow('Focus', '09:30', '13:00', 'badge')
+        );
+        expect(quietStateAt(overlapping, 0, at(19, 9, 45))).toEqual({ mode: 'delay', label: 'Deep Work', until: at(19, 13).getTime() });
+        expect(quietStateAt(overlapping, 0, at(19, 8, 30))).toEqual({ mode: 'silent', label: 'Meeting', until: at(19, 10).getTime() });
+    });
+
+    it('skip disabled and empty windows', () => {
+        const skipped = settings({ ...quietWindow('Off', '00:00', '23:59', 'delay'), enabled: false }, quietWindow('Empty', '10:00', '10:00', 'badge'));
+        expect(quietStateAt(skipped, 0, at(19, 10))).toBeNull();
+    });
+
+    it('let DND win over every window until it runs out', () => {
+        const night = settings(quietWindow('Night', '22:00', '07:00', 'delay'));
+        const dndUntil = at(19, 23, 30).getTime();
+        expect(quietStateAt(night, dndUntil, at(19, 23))).toEqual({ mode: 'badge', label: 'Do Not Disturb', until: dndUntil });
+        expect(quietStateAt(night, dndUntil, at(19, 23, 30))?.label).toBe('Night');
+    });
+
+    it('let breakthrough categories ring', () => {
+        expect(breaksThrough(settings(), 'health')).toBe(true);
+        expect(breaksThrough(settings(), 'work')).toBe(false);
+        expect(breaksThrough(settings())).toBe(false);
+    });
+});
@@ -0,0 +1,161 @@
+import { Category } from './types';
+import { ScheduledReminder } from './reminders';
+
+// --- Quiet Hours ---
+// Windows during which alarms are toned down. A window that ends before it
+// starts (22:00–07:00) runs past midnight; `days` are the days it starts on.
+
+// silent: overlay and notification, but no sound or wake lock
+// badge:  only counted on the header badge until opened
+// delay:  held back and rung when the window ends
+export type QuietMode = 'silent' | 'badge' | 'delay';
+
+export const QUIET_MODES: { id: QuietMode, label: string }[] = [
+    { id: 'silent', label: 'Silent' },
+    { id: 'badge', label: 'Badge Only' },
+    { id: 'delay', label: 'Delay' }
+];
+
+export interface QuietWindow {
+    id: string;
+    label: string;
+    start: string; // HH:mm
+    end: string;   // HH:mm
+    days: number[]; // 0 = Sunday
+    mode: QuietMode;
+    enabled: boolean;
+}
+
+export interface QuietSettings {
+    windows: QuietWindow[];
+    breakthrough: Category[]; // Categories that always ring
+}
+
+export interface QuietState {
+    mode: QuietMode;
+    label: string;
+    until: number; // ms timestamp when it ends
+}
+
+export const DEFAULT_QUIET_SETTINGS: QuietSettings = {
+    windows: [
+        { id: 'night', label: 'Night', start: '22:00', end: '07:00', days: [0, 1, 2, 3, 4, 5, 6], mode: 'delay', enabled: false },
+        { id: 'focus', label: 'Work Focus', start: '09:00', end: '12:00', days: [1, 2, 3, 4, 5], mode: 'badge', enabled: false }
+    ],
+    breakthrough: []
+};
+
+export const DND_DURATION_MS = 60 * 60000;
+const DND_MODE: QuietMode = 'badge';
+
+export const QUIET_SETTINGS_KEY = 'moti_quiet_hours';
+export const DND_KEY = 'moti_dnd_until'; // Not part of the settings, so backups never restore a stale DND
+
+const TIME = /^\d{2}:\d{2}$/;
+
+const isQuietWindow = (w: any): w is QuietWindow =>
+    !!w && typeof w.id === 'string' && typeof w.label === 'string' &&
+    TIME.test(w.start) && TIME.test(w.end) &&
+    Array.isArray(w.days) && w.days.every((d: any) => Number.isInteger(d) && d >= 0 && d <= 6) &&
+    QUIET_MODES.some(m => m.id === w.mode) && typeof w.enabled === 'boolean';
+
+export const readQuietSettings = (storage: Storage = window.localStorage): QuietSettings => {
+    try {
+        const stored = JSON.parse(storage.getItem(QUIET_SETTINGS_KEY) || 'null');
+        if (!stored || !Array.isArray(stored.windows)) return DEFAULT_QUIET_SETTINGS;
+        return {
+            windows: stored.windows.filter(isQuietWindow),
+            breakthrough: Array.isArray(stored.breakthrough) ? stored.breakthrough.filter((c: any) => typeof c === 'string') : []
+        };
+    } catch (e) {
+        return DEFAULT_QUIET_SETTINGS;
+    }
+};
+
+export const writeQuietSettings = (settings: QuietSettings, storage: Storage = window.localStorage) => {
+    storage.setItem(QUIET_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const readDndUntil = (storage: Storage = window.localStorage): number => {
+    const until = Number(storage.getItem(DND_KEY));
+    return until > Date.now() ? until : 0;
+};
+
+// Pass 0 to switch DND off
+export const writeDndUntil = (until: number, storage: Storage = window.localStorage) => {
+    if (until) storage.setItem(DND_KEY, String(until));
+    else storage.removeItem(DND_KEY);
+};
+
+const minutesOf = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+};
+
+// The end of `window` if `now` falls inside it, else null
+const windowEnd = (window: QuietWindow, now: Date): number | null => {
+    const start = minutesOf(window.start);
+    const end = minutesOf(window.end);
+    if (start === end) return null;
+    const minute = now.getHours() * 60 + now.getMinutes();
+    const endOn = (dayOffset: number) => {
+        const d = new Date(now);
+        d.setDate(d.getDate() + dayOffset);
+        d.setHours(Math.floor(end / 60), end % 60, 0, 0);
+        return d.getTime();
+    };
+    const today = now.getDay();
+    const yesterday = (today + 6) % 7;
+    if (start < end) {
+        return window.days.includes(today) && minute >= start && minute < end ? endOn(0) : null;
+    }
+    // Crosses midnight: the evening part belongs to today, the morning part to yesterday
+    if (minute >= start && window.days.includes(today)) return endOn(1);
+    if (minute < end && window.days.includes(yesterday)) return endOn(0);
+    return null;
+};
+
+// The quiet state at `now`. DND wins over windows; among overlapping windows
+// the strictest mode applies, until the latest of their ends.
+export const quietStateAt = (settings: QuietSettings, dndUntil: number, now: Date = new Date()): QuietState | null => {
+    if (dndUntil > now.getTime()) return { mode: DND_MODE, label: 'Do Not Disturb', until: dndUntil };
+    const strictness: Record<QuietMode, number> = { silent: 0, badge: 1, delay: 2 };
+    let state: QuietState | null = null;
+    settings.windows.filter(w => w.enabled).forEach(w => {
+        const until = windowEnd(w, now);
+        if (until === null) return;
+        if (!state) state = { mode: w.mode, label: w.label, until };
+        else {
+            if (strictness[w.mode] > strictness[state.mode]) state = { ...state, mode: w.mode, label: w.label };
+            state.until = Math.max(state.until, until);
+        }
+    });
+    return state;
+};
+
+export const breaksThrough = (settings: QuietSettings, category?: Category) =>
+    !!category && settings.breakthrough.includes(category);
+
+// --- Delayed Reminders ---
+// Kept in localStorage so a reload or a new leader tab still rings them.
+
+export interface DelayedReminder {
+    reminder: ScheduledReminder;
+    releaseAt: number;
+}
+
+const DELAYED_KEY = 'moti_delayed_reminders';
+
+export const readDelayedReminders = (storage: Storage = window.localStorage): DelayedReminder[] => {
+    try {
+        const delayed = JSON.parse(storage.getItem(DELAYED_KEY) || '[]');
+        return Array.isArray(delayed) ? delayed : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+export const writeDelayedReminders = (delayed: DelayedReminder[], storage: Storage = window.localStorage) => {
+    if (delayed.length) storage.setItem(DELAYED_KEY, JSON.stringify(delayed));
+    else storage.removeItem(DELAYED_KEY);
+};
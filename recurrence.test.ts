@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { toRRuleString, parseRRuleString } from './recurrence';
+import { RecurrenceRule } from './types';
+
+describe('RRULE interop', () => {
+    it('writes UNTIL as a date for all-day tasks', () => {
+        expect(toRRuleString({ freq: 'daily', interval: 1, until: '2026-12-31' })).toBe('FREQ=DAILY;UNTIL=20261231');
+    });
+
+    it('writes UNTIL as the end of the day for tasks with a time', () => {
+        expect(toRRuleString({ freq: 'daily', interval: 1, until: '2026-12-31' }, '07:30')).toBe('FREQ=DAILY;UNTIL=20261231T235959');
+    });
+
+    it('reads UNTIL back as a date either way', () => {
+        expect(parseRRuleString('FREQ=DAILY;UNTIL=20261231')?.until).toBe('2026-12-31');
+        expect(parseRRuleString('FREQ=DAILY;UNTIL=20261231T235959')?.until).toBe('2026-12-31');
+    });
+
+    it('reads the single-value forms it can represent', () => {
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=-1FR')).toEqual({ freq: 'monthly', interval: 1, byDay: [5], bySetPos: -1 });
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2')).toEqual({ freq: 'monthly', interval: 1, byDay: [2], bySetPos: 2 });
+        expect(parseRRuleString('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=15')).toEqual({ freq: 'yearly', interval: 1, byMonth: 3, byMonthDay: 15 });
+    });
+
+    it('rejects lists it cannot represent', () => {
+        expect(parseRRuleString('FREQ=MONTHLY;BYMONTHDAY=1,15')).toBeNull();
+        expect(parseRRuleString('FREQ=YEARLY;BYMONTH=1,7')).toBeNull();
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1,-1')).toBeNull();
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=1MO,3WE')).toBeNull();
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')).toBeNull();
+    });
+
+    it('rejects days the frequency would ignore', () => {
+        expect(parseRRuleString('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')).toBeNull();
+        expect(parseRRuleString('FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3')).toBeNull();
+        expect(parseRRuleString('FREQ=WEEKLY;BYDAY=2MO')).toBeNull();
+        expect(parseRRuleString('FREQ=WEEKLY;BYMONTHDAY=3')).toBeNull();
+        expect(parseRRuleString('FREQ=MONTHLY;BYMONTH=3')).toBeNull();
+    });
+
+    it('rejects monthly weekdays without a position', () => {
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=MO')).toBeNull();
+        expect(parseRRuleString('FREQ=MONTHLY;BYDAY=MO,WE')).toBeNull();
+    });
+
+    it('rejects yearly month days without a month', () => {
+        expect(parseRRuleString('FREQ=YEARLY;BYMONTHDAY=15')).toBeNull();
+    });
+
+    it('rejects parts it does not support', () => {
+        expect(parseRRuleString('FREQ=DAILY;BYHOUR=9,17')).toBeNull();
+        expect(parseRRuleString('FREQ=YEARLY;BYWEEKNO=20')).toBeNull();
+        expect(parseRRuleString('FREQ=YEARLY;BYYEARDAY=100')).toBeNull();
+        expect(parseRRuleString('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;WKST=MO')).toBeNull();
+    });
+
+    it('reads back every rule it writes', () => {
+        const rules: RecurrenceRule[] = [
+            { freq: 'daily', interval: 3, count: 10 },
+            { freq: 'weekly', interval: 2, byDay: [1, 3, 5] },
+            { freq: 'monthly', interval: 1, byDay: [2], bySetPos: 2 },
+            { freq: 'monthly', interval: 1, byMonthDay: -1, until: '2027-06-30' },
+            { freq: 'yearly', interval: 1 }
+        ];
+        rules.forEach(rule => expect(parseRRuleString(toRRuleString(rule))).toEqual(rule));
+    });
+});
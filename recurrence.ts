@@ -0,0 +1,278 @@
+import { Task, TaskType, RecurrenceRule, Frequency } from './types';
+
+// --- Recurrence Engine ---
+// Date math works on whole UTC day numbers so it is immune to DST shifts.
+
+const DAY_MS = 86400000;
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const SHORT_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+const toDayNumber = (iso: string): number => {
+    const [y, m, d] = iso.split('-').map(Number);
+    return Math.floor(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const fromDayNumber = (n: number): string => new Date(n * DAY_MS).toISOString().slice(0, 10);
+
+const partsOf = (iso: string) => {
+    const [year, month, day] = iso.split('-').map(Number);
+    const n = toDayNumber(iso);
+    return { year, month, day, weekday: (n + 4) % 7, dayNumber: n }; // 1970-01-01 was a Thursday
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const ordinalSuffix = (n: number): string => {
+    if (n > 3 && n < 21) return `${n}th`;
+    return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`;
+};
+
+// Does `iso` fit the rule's pattern, ignoring start/end bounds?
+const matchesPattern = (rule: RecurrenceRule, startIso: string, iso: string): boolean => {
+    const s = partsOf(startIso);
+    const d = partsOf(iso);
+    const interval = Math.max(1, rule.interval || 1);
+
+    switch (rule.freq) {
+        case 'daily':
+            return (d.dayNumber - s.dayNumber) % interval === 0;
+        case 'weekly': {
+            const byDay = rule.byDay && rule.byDay.length ? rule.byDay : [s.weekday];
+            if (!byDay.includes(d.weekday)) return false;
+            // Weeks start on Sunday, matching DAYS
+            const weeks = ((d.dayNumber - d.weekday) - (s.dayNumber - s.weekday)) / 7;
+            return weeks % interval === 0;
+        }
+        case 'monthly': {
+            const months = (d.year - s.year) * 12 + (d.month - s.month);
+            if (months % interval !== 0) return false;
+            const dim = daysInMonth(d.year, d.month);
+            if (rule.bySetPos && rule.byDay && rule.byDay.length) {
+                if (!rule.byDay.includes(d.weekday)) return false;
+                if (rule.bySetPos > 0) return Math.ceil(d.day / 7) === rule.bySetPos;
+                return Math.ceil((dim - d.day + 1) / 7) === -rule.bySetPos;
+            }
+            const target = rule.byMonthDay ?? s.day;
+            // Like RRULE, months without the target day are skipped
+            return target < 0 ? d.day === dim + target + 1 : d.day === target;
+        }
+        case 'yearly': {
+            if ((d.year - s.year) % interval !== 0) return false;
+            return d.month === (rule.byMonth ?? s.month) && d.day === (rule.byMonthDay ?? s.day);
+        }
+    }
+    return false;
+};
+
+// Date of the last occurrence allowed by `count`, cached per rule and start
+const countEndCache = new Map<string, string | null>();
+const MAX_SCAN_DAYS = 366 * 100;
+
+const getCountEnd = (rule: RecurrenceRule, startIso: string): string | null => {
+    const key = `${startIso}|${JSON.stringify(rule)}`;
+    if (countEndCache.has(key)) return countEndCache.get(key)!;
+
+    let found = 0;
+    let result: string | null = null;
+    const start = toDayNumber(startIso);
+    for (let n = start; n < start + MAX_SCAN_DAYS; n++) {
+        const iso = fromDayNumber(n);
+        if (rule.until && iso > rule.until) break;
+        if (matchesPattern(rule, startIso, iso) && ++found >= (rule.count || 0)) {
+            result = iso;
+            break;
+        }
+    }
+    countEndCache.set(key, result);
+    return result;
+};
+
+export const occursOn = (rule: RecurrenceRule, startIso: string, iso: string): boolean => {
+    if (iso < startIso) return false;
+    if (rule.until && iso > rule.until) return false;
+    if (!matchesPattern(rule, startIso, iso)) return false;
+    if (rule.count) {
+        const end = getCountEnd(rule, startIso);
+        if (end && iso > end) return false;
+    }
+    return true;
+};
+
+// First occurrence on or after `fromIso`, looking at most `limitDays` ahead
+export const nextOccurrence = (rule: RecurrenceRule, startIso: string, fromIso: string, limitDays: number = 366 * 4): string | null => {
+    const from = Math.max(toDayNumber(fromIso), toDayNumber(startIso));
+    for (let n = from; n < from + limitDays; n++) {
+        const iso = fromDayNumber(n);
+        if (rule.until && iso > rule.until) return null;
+        if (occursOn(rule, startIso, iso)) return iso;
+    }
+    return null;
+};
+
+// Number of occurrences strictly before `beforeIso`
+export const countOccurrencesBefore = (rule: RecurrenceRule, startIso: string, beforeIso: string): number => {
+    let found = 0;
+    for (let n = toDayNumber(startIso); n < toDayNumber(beforeIso); n++) {
+        if (occursOn(rule, startIso, fromDayNumber(n))) found++;
+    }
+    return found;
+};
+
+// Ends the rule on `lastIso` at the latest. COUNT becomes UNTIL since RRULE allows only one of them.
+export const truncateRule = (rule: RecurrenceRule, startIso: string, lastIso: string): RecurrenceRule => {
+    const { count, ...rest } = rule;
+    let until = rule.until && rule.until < lastIso ? rule.until : lastIso;
+    if (count) {
+        const end = getCountEnd(rule, startIso);
+        if (end && end < until) until = end;
+    }
+    return { ...rest, until };
+};
+
+// Rule implied by the legacy type/weeklyDay fields, for tasks saved before recurrence existed
+const legacyRule = (task: Pick<Task, 'type' | 'weeklyDay' | 'dateCreated'>): RecurrenceRule | null => {
+    if (task.type === 'recurring') return { freq: 'daily', interval: 1 };
+    if (task.type === 'weekly') {
+        const day = task.weeklyDay ?? partsOf(task.dateCreated).weekday;
+        return { freq: 'weekly', interval: 1, byDay: [day] };
+    }
+    return null;
+};
+
+export const getRecurrenceRule = (task: Pick<Task, 'type' | 'weeklyDay' | 'dateCreated' | 'recurrence'>): RecurrenceRule | null => {
+    if (task.type === 'one-time') return null;
+    return task.recurrence ?? legacyRule(task);
+};
+
+export const typeForRule = (rule: RecurrenceRule | null): TaskType => {
+    if (!rule) return 'one-time';
+    return rule.freq === 'weekly' ? 'weekly' : 'recurring';
+};
+
+// Applies a rule to a task, keeping the legacy type/weeklyDay fields consistent with it
+export const withRecurrence = <T extends Task>(task: T, rule: RecurrenceRule | null): T => ({
+    ...task,
+    type: typeForRule(rule),
+    recurrence: rule ?? undefined,
+    weeklyDay: rule && rule.freq === 'weekly' && rule.byDay && rule.byDay.length ? rule.byDay[0] : task.weeklyDay
+});
+
+// MIGRATION: Tasks stored before recurrence rules get an explicit rule derived from type/weeklyDay
+export const migrateRecurrence = <T extends Pick<Task, 'type' | 'weeklyDay' | 'dateCreated' | 'recurrence'>>(task: T): T => {
+    if (task.type === 'one-time' || task.recurrence) return task;
+    const rule = legacyRule(task);
+    return rule ? { ...task, recurrence: rule } : task;
+};
+
+// Short label for list items, e.g. "daily", "every 2 wks", "mon·wed·fri", "last fri"
+export const describeRecurrence = (rule: RecurrenceRule | null): string => {
+    if (!rule) return 'once';
+    const interval = Math.max(1, rule.interval || 1);
+    switch (rule.freq) {
+        case 'daily':
+            return interval === 1 ? 'daily' : `every ${interval} days`;
+        case 'weekly': {
+            const days = (rule.byDay || []).slice().sort().map(d => SHORT_DAYS[d]).join('·');
+            if (interval === 1) return days ? (rule.byDay!.length === 1 ? `every ${days}` : days) : 'weekly';
+            return `every ${interval} wks${days ? ` · ${days}` : ''}`;
+        }
+        case 'monthly': {
+            const prefix = interval === 1 ? 'monthly' : `every ${interval} mos`;
+            if (rule.bySetPos && rule.byDay && rule.byDay.length) return `${prefix} · ${ORDINALS[rule.bySetPos] || ordinalSuffix(rule.bySetPos)} ${SHORT_DAYS[rule.byDay[0]]}`;
+            if (rule.byMonthDay === -1) return `${prefix} · last day`;
+            return rule.byMonthDay ? `${prefix} · ${ordinalSuffix(rule.byMonthDay)}` : prefix;
+        }
+        case 'yearly':
+            return interval === 1 ? 'yearly' : `every ${interval} yrs`;
+    }
+    return 'repeating';
+};
+
+// --- iCalendar RRULE Interop ---
+
+const toICalDate = (iso: string): string => iso.replace(/-/g, '');
+
+// UNTIL must have the same value type as DTSTART, so a task with a time ends at the close of its last day
+export const toRRuleString = (rule: RecurrenceRule, time?: string): string => {
+    const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+    if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay && rule.byDay.length) {
+        const prefix = rule.bySetPos ? String(rule.bySetPos) : '';
+        parts.push(`BYDAY=${rule.byDay.map(d => prefix + RRULE_DAYS[d]).join(',')}`);
+    }
+    if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+    if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth}`);
+    if (rule.until) parts.push(`UNTIL=${toICalDate(rule.until)}${time ? 'T235959' : ''}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.freq === 'weekly') parts.push('WKST=SU');
+    return parts.join(';');
+};
+
+// Parts a rule can carry, and the frequencies that honour each one in matchesPattern
+const RRULE_PARTS: Record<string, Frequency[]> = {
+    FREQ: ['daily', 'weekly', 'monthly', 'yearly'],
+    INTERVAL: ['daily', 'weekly', 'monthly', 'yearly'],
+    COUNT: ['daily', 'weekly', 'monthly', 'yearly'],
+    UNTIL: ['daily', 'weekly', 'monthly', 'yearly'],
+    WKST: ['daily', 'weekly', 'monthly', 'yearly'],
+    BYDAY: ['weekly', 'monthly'],
+    BYSETPOS: ['monthly'],
+    BYMONTHDAY: ['monthly', 'yearly'],
+    BYMONTH: ['yearly']
+};
+
+// Parses the subset of RRULE this app can represent; returns null for anything
+// else, so an import can report the rule instead of scheduling it on wrong days
+export const parseRRuleString = (input: string): RecurrenceRule | null => {
+    const fields: Record<string, string> = {};
+    input.replace(/^RRULE:/i, '').split(';').forEach(part => {
+        const [key, value] = part.split('=');
+        if (key && value) fields[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    });
+
+    const freq = (fields.FREQ || '').toLowerCase() as Frequency;
+    if (!['daily', 'weekly', 'monthly', 'yearly'].includes(freq)) return null;
+    // BYHOUR, BYWEEKNO, BYYEARDAY and the like, or a part this frequency ignores
+    if (Object.keys(fields).some(key => !RRULE_PARTS[key]?.includes(freq))) return null;
+
+    // Rules take one month day, one month and one set position; lists like BYMONTHDAY=1,15 are not representable
+    if (['BYMONTHDAY', 'BYMONTH', 'BYSETPOS'].some(key => fields[key]?.includes(','))) return null;
+
+    const rule: RecurrenceRule = { freq, interval: parseInt(fields.INTERVAL || '1', 10) || 1 };
+    // Weeks are counted from Sunday, which only matters when skipping weeks
+    if (freq === 'weekly' && rule.interval > 1 && fields.WKST && fields.WKST !== 'SU') return null;
+
+    if (fields.BYDAY) {
+        const tokens = fields.BYDAY.split(',');
+        const days: number[] = [];
+        for (const token of tokens) {
+            const m = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(token);
+            if (!m) return null;
+            // An ordinal ("2TU") only works as the single day: "1MO,3WE" has no equivalent
+            if (m[1] && tokens.length > 1) return null;
+            if (m[1] && freq !== 'monthly') return null;
+            if (m[1]) rule.bySetPos = parseInt(m[1], 10);
+            days.push(RRULE_DAYS.indexOf(m[2]));
+        }
+        rule.byDay = days;
+    }
+    if (fields.BYSETPOS) {
+        // A set position picks among several days ("last weekday"), which only matches ours for one day
+        if (!rule.byDay || rule.byDay.length !== 1) return null;
+        rule.bySetPos = parseInt(fields.BYSETPOS, 10);
+    }
+    // Monthly weekdays need a position ("2nd Tuesday"); plain BYDAY=MO means every Monday
+    if (freq === 'monthly' && rule.byDay && (!rule.bySetPos || fields.BYMONTHDAY)) return null;
+    // Yearly BYMONTHDAY alone repeats in every month
+    if (freq === 'yearly' && fields.BYMONTHDAY && !fields.BYMONTH) return null;
+
+    if (fields.BYMONTHDAY) rule.byMonthDay = parseInt(fields.BYMONTHDAY, 10);
+    if (fields.BYMONTH) rule.byMonth = parseInt(fields.BYMONTH, 10);
+    if (fields.COUNT) rule.count = parseInt(fields.COUNT, 10);
+    if (fields.UNTIL) {
+        const m = /^(\d{4})(\d{2})(\d{2})/.exec(fields.UNTIL);
+        if (m) rule.until = `${m[1]}-${m[2]}-${m[3]}`;
+    }
+    return rule;
+};
@@ -0,0 +1,87 @@
+import { Task, DEFAULT_REMINDERS, REMINDER_OPTIONS } from './types';
+import { getLocalISO, parseLocalDate, shouldShowTask } from './utils';
+import { resolveOccurrence } from './series';
+
+// --- Reminder Schedule ---
+// Reminders are computed once per change to the task list for a window of time,
+// so each alarm tick only looks at a short sorted list.
+
+export interface ScheduledReminder {
+    key: string;    // Unique per task, occurrence and offset
+    taskId: number;
+    date: string;   // Occurrence date
+    at: number;     // Epoch ms when it rings
+    offset: number; // Minutes before the task time; SNOOZE_OFFSET for a snooze
+}
+
+export interface ReminderSchedule {
+    from: number;
+    until: number;
+    reminders: ScheduledReminder[];
+}
+
+export const SNOOZE_OFFSET = -1;
+
+const MINUTE = 60000;
+
+const occurrenceTime = (date: string, time: string): number => {
+    const d = parseLocalDate(date);
+    const [h, m] = time.split(':').map(Number);
+    d.setHours(h, m, 0, 0);
+    return d.getTime();
+};
+
+export const getReminderOffsets = (task: Task): number[] => task.reminders ?? DEFAULT_REMINDERS;
+
+/**
+ * All reminders ringing between `from` and `until`. One-time tasks ring on their
+ * own date only, not again on each day they are shown as overdue.
+ */
+export const buildReminderSchedule = (tasks: Task[], from: number, until: number): ReminderSchedule => {
+    const reminders: ScheduledReminder[] = [];
+    const maxOffset = Math.max(0, ...tasks.flatMap(getReminderOffsets));
+
+    // Occurrences up to `maxOffset` after the window can still ring inside it
+    const dates: string[] = [];
+    const cursor = parseLocalDate(getLocalISO(new Date(from)));
+    const lastDate = getLocalISO(new Date(until + maxOffset * MINUTE));
+    while (getLocalISO(cursor) <= lastDate) {
+        dates.push(getLocalISO(cursor));
+        cursor.setDate(cursor.getDate() + 1);
+    }
+
+    tasks.forEach(series => {
+        const candidates = series.type === 'one-time' ? dates.filter(d => d === series.dateCreated) : dates;
+        candidates.forEach(date => {
+            const t = resolveOccurrence(series, date);
+            if (!t.time || t.completions.includes(date) || !shouldShowTask(t, date)) return;
+            const base = occurrenceTime(date, t.time);
+            getReminderOffsets(t).forEach(offset => {
+                const at = base - offset * MINUTE;
+                if (at >= from && at <= until) reminders.push({ key: `${t.id}-${date}-${offset}`, taskId: t.id, date, at, offset });
+            });
+        });
+
+        const snooze = series.snooze;
+        if (snooze && !series.completions.includes(snooze.date)) {
+            const at = new Date(snooze.until).getTime();
+            if (at >= from && at <= until) {
+                reminders.push({ key: `${series.id}-snooze-${snooze.until}`, taskId: series.id, date: snooze.date, at, offset: SNOOZE_OFFSET });
+            }
+        }
+    });
+
+    return { from, until, reminders: reminders.sort((a, b) => a.at - b.at) };
+};
+
+export const dueReminders = (schedule: ReminderSchedule, after: number, upTo: number): ScheduledReminder[] =>
+    schedule.reminders.filter(r => r.at > after && r.at <= upTo);
+
+// "15 min before", "At time", "Snoozed"
+export const describeOffset = (offset: number): string => {
+    if (offset === SNOOZE_OFFSET) return 'Snoozed';
+    if (offset === 0) return 'At time';
+    const option = REMINDER_OPTIONS.find(o => o.minutes === offset);
+    if (option) return `${option.label} before`;
+    return offset % 60 === 0 ? `${offset / 60} h before` : `${offset} min before`;
+};
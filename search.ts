@@ -0,0 +1,137 @@
+import { Task, TaskType, Category } from './types';
+import { getRecurrenceRule, nextOccurrence } from './recurrence';
+import { getLocalISO } from './utils';
+
+// --- Search & Smart Lists ---
+// Searches every task regardless of date, including completed tasks and
+// hidden occurrences. A smart list is a named, saved filter.
+
+export type StatusFilter = 'any' | 'open' | 'done';
+
+export const STATUS_FILTERS: { id: StatusFilter, label: string }[] = [
+    { id: 'any', label: 'Any' },
+    { id: 'open', label: 'Open' },
+    { id: 'done', label: 'Done' }
+];
+
+export interface SearchFilter {
+    query: string;        // Words match text, notes, checklist steps and tags; "#tag" matches tags only
+    categories: Category[]; // Empty means every category
+    types: TaskType[];      // Empty means every type
+    status: StatusFilter;
+    from?: string; // ISO dates, inclusive
+    to?: string;
+}
+
+export interface SmartList {
+    id: string;
+    name: string;
+    filter: SearchFilter;
+}
+
+export interface SearchResult {
+    task: Task;
+    date: string; // Occurrence to open: the task's date, or the next one in range for repeating tasks
+    isDone: boolean;
+    isHidden: boolean;
+}
+
+export const EMPTY_FILTER: SearchFilter = { query: '', categories: [], types: [], status: 'any' };
+
+const RANGE_LIMIT_DAYS = 366 * 10;
+const DAY_MS = 86400000;
+
+// Tags are stored lowercase, without the leading '#'
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').toLowerCase();
+
+export const isFilterEmpty = (filter: SearchFilter): boolean =>
+    !filter.query.trim() && !filter.categories.length && !filter.types.length && filter.status === 'any' && !filter.from && !filter.to;
+
+const matchesQuery = (task: Task, query: string): boolean => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.length) return true;
+    const tags = task.tags || [];
+    const haystack = [task.text, task.notes || '', ...(task.subtasks || []).map(s => s.text), ...tags, ...Object.values(task.overrides || {}).map(o => `${o.text || ''} ${o.notes || ''}`)]
+        .join('\n').toLowerCase();
+    return terms.every(term => term.startsWith('#') && term.length > 1
+        ? tags.some(tag => tag.startsWith(normalizeTag(term)))
+        : haystack.includes(term));
+};
+
+const daysBetween = (from: string, to: string): number =>
+    Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
+
+// Applies the range and status to one task. Hidden occurrences still count, so they can be found.
+const evaluate = (task: Task, filter: SearchFilter, today: string): SearchResult | null => {
+    const from = filter.from || '0000-01-01';
+    const to = filter.to || '9999-12-31';
+    const inRange = (d: string) => d >= from && d <= to;
+    const rule = getRecurrenceRule(task);
+
+    if (!rule) {
+        const date = task.dateCreated;
+        const isDone = task.completions.includes(date);
+        if (!inRange(date)) return null;
+        if ((filter.status === 'open' && isDone) || (filter.status === 'done' && !isDone)) return null;
+        return { task, date, isDone, isHidden: task.hiddenDates.includes(date) };
+    }
+
+    // Repeating: done means a completion in range; open means an occurrence in range, from today on
+    const completed = task.completions.filter(inRange).sort();
+    if (filter.status === 'done') {
+        if (!completed.length) return null;
+        const date = completed[completed.length - 1];
+        return { task, date, isDone: true, isHidden: task.hiddenDates.includes(date) };
+    }
+    const start = filter.status === 'open' ? (from > today ? from : today) : from;
+    const searchFrom = start > task.dateCreated ? start : task.dateCreated;
+    const limit = filter.to ? Math.min(RANGE_LIMIT_DAYS, Math.max(0, daysBetween(searchFrom, to))) : RANGE_LIMIT_DAYS;
+    const next = limit > 0 ? nextOccurrence(rule, task.dateCreated, searchFrom, limit) : null;
+    if (!next || !inRange(next)) {
+        if (filter.status === 'open' || !completed.length) return null;
+        const date = completed[completed.length - 1];
+        return { task, date, isDone: true, isHidden: task.hiddenDates.includes(date) };
+    }
+    return { task, date: next, isDone: task.completions.includes(next), isHidden: task.hiddenDates.includes(next) };
+};
+
+// Results come with the soonest dates first
+export const searchTasks = (tasks: Task[], filter: SearchFilter, today: string = getLocalISO()): SearchResult[] => {
+    const results: SearchResult[] = [];
+    tasks.forEach(task => {
+        if (filter.categories.length && !filter.categories.includes(task.category)) return;
+        if (filter.types.length && !filter.types.includes(task.type)) return;
+        if (!matchesQuery(task, filter.query)) return;
+        const result = evaluate(task, filter, today);
+        if (result) results.push(result);
+    });
+    return results.sort((a, b) => a.date.localeCompare(b.date) || a.task.text.localeCompare(b.task.text));
+};
+
+// Every tag in use, most used first, for suggestions
+export const allTags = (tasks: Task[]): string[] => {
+    const counts = new Map<string, number>();
+    tasks.forEach(t => (t.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+// --- Saved Smart Lists ---
+export const SMART_LISTS_KEY = 'moti_smart_lists';
+
+const isFilter = (f: any): f is SearchFilter =>
+    !!f && typeof f.query === 'string' && Array.isArray(f.categories) && Array.isArray(f.types) &&
+    STATUS_FILTERS.some(s => s.id === f.status);
+
+export const readSmartLists = (storage: Storage = window.localStorage): SmartList[] => {
+    try {
+        const lists = JSON.parse(storage.getItem(SMART_LISTS_KEY) || '[]');
+        return Array.isArray(lists) ? lists.filter(l => l && typeof l.id === 'string' && typeof l.name === 'string' && isFilter(l.filter)) : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+export const writeSmartLists = (lists: SmartList[], storage: Storage = window.localStorage) => {
+    if (lists.length) storage.setItem(SMART_LISTS_KEY, JSON.stringify(lists));
+    else storage.removeItem(SMART_LISTS_KEY);
+};
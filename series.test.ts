@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { applySeriesEdit, applySeriesDelete, diffTask, resolveOccurrence } from './series';
+import { Task } from './types';
+
+// Oct 1 2026 is a Thursday; ten daily occurrences end on Oct 10
+const DAILY: Task = {
+    id: 1, text: 'Stretch', type: 'recurring', category: 'health', dateCreated: '2026-10-01', time: '07:30',
+    recurrence: { freq: 'daily', interval: 1, count: 10 },
+    completions: ['2026-10-02', '2026-10-05'], hiddenDates: ['2026-10-07'], amounts: { '2026-10-05': 3 }
+};
+
+// Mondays until the end of November
+const WEEKLY: Task = {
+    id: 2, text: 'Bins out', type: 'weekly', weeklyDay: 1, category: 'home', dateCreated: '2026-10-05',
+    recurrence: { freq: 'weekly', interval: 1, byDay: [1], until: '2026-11-30' },
+    completions: ['2026-10-05', '2026-10-19'], hiddenDates: []
+};
+
+describe('series edits', () => {
+    it('keep a change to one occurrence as an override', () => {
+        const [edited] = applySeriesEdit(DAILY, '2026-10-05', { text: 'Long stretch', time: '08:00' }, 'this', 99);
+        expect(edited.text).toBe('Stretch');
+        expect(edited.overrides).toEqual({ '2026-10-05': { text: 'Long stretch', time: '08:00' } });
+        expect(resolveOccurrence(edited, '2026-10-05')).toMatchObject({ text: 'Long stretch', time: '08:00' });
+        expect(resolveOccurrence(edited, '2026-10-06')).toMatchObject({ text: 'Stretch', time: '07:30' });
+
+        // Setting a field back to the series value drops it from the override
+        const [reverted] = applySeriesEdit(edited, '2026-10-05', { text: 'Stretch' }, 'this', 99);
+        expect(reverted.overrides).toEqual({ '2026-10-05': { time: '08:00' } });
+    });
+
+    it('apply series-only fields to the whole series even for one occurrence', () => {
+        const [edited] = applySeriesEdit(DAILY, '2026-10-05', { tags: ['morning'], text: 'Long stretch' }, 'this', 99);
+        expect(edited.tags).toEqual(['morning']);
+        expect(edited.overrides?.['2026-10-05']).toEqual({ text: 'Long stretch' });
+    });
+
+    it('split a counted series, moving the rest of the count and history to the new one', () => {
+        const [head, tail] = applySeriesEdit(DAILY, '2026-10-05', { text: 'Long stretch' }, 'following', 99);
+        expect(head).toMatchObject({ id: 1, text: 'Stretch', recurrence: { freq: 'daily', interval: 1, until: '2026-10-04' }, completions: ['2026-10-02'] });
+        expect(head.recurrence?.count).toBeUndefined();
+        expect(head.amounts).toBeUndefined();
+        expect(tail).toMatchObject({
+            id: 99, text: 'Long stretch', dateCreated: '2026-10-05',
+            recurrence: { freq: 'daily', interval: 1, count: 6 },
+            completions: ['2026-10-05'], hiddenDates: ['2026-10-07'], amounts: { '2026-10-05': 3 }
+        });
+    });
+
+    it('split a series with an end date, keeping the end date on the new one', () => {
+        const [head, tail] = applySeriesEdit(WEEKLY, '2026-10-19', { time: '20:00' }, 'following', 99);
+        expect(head.recurrence).toEqual({ freq: 'weekly', interval: 1, byDay: [1], until: '2026-10-18' });
+        expect(head.completions).toEqual(['2026-10-05']);
+        expect(tail).toMatchObject({ id: 99, dateCreated: '2026-10-19', time: '20:00', recurrence: WEEKLY.recurrence, completions: ['2026-10-19'] });
+    });
+
+    it('change the whole series for all, or for following from the first occurrence', () => {
+        expect(applySeriesEdit(WEEKLY, '2026-10-19', { text: 'Recycling' }, 'all', 99)).toEqual([{ ...WEEKLY, text: 'Recycling' }]);
+        expect(applySeriesEdit(WEEKLY, '2026-10-05', { text: 'Recycling' }, 'following', 99)).toEqual([{ ...WEEKLY, text: 'Recycling' }]);
+    });
+
+    it('diff only the fields the editor can change', () => {
+        expect(diffTask(DAILY, { ...DAILY, text: 'Yoga', completions: [], priority: 2 })).toEqual({ text: 'Yoga', priority: 2 });
+    });
+});
+
+describe('series deletes', () => {
+    it('hide one occurrence and drop what was logged for it', () => {
+        const deleted = applySeriesDelete(DAILY, '2026-10-05', 'this', '2026-10-06')!;
+        expect(deleted.hiddenDates).toEqual(['2026-10-07', '2026-10-05']);
+        expect(deleted.amounts).toBeUndefined();
+        expect(deleted.recurrence).toEqual(DAILY.recurrence);
+    });
+
+    it('end the series before the occurrence for following', () => {
+        expect(applySeriesDelete(WEEKLY, '2026-10-19', 'following', '2026-10-06')).toMatchObject({
+            recurrence: { until: '2026-10-18' }, completions: ['2026-10-05']
+        });
+        // A count that already ends earlier is kept as that end date
+        expect(applySeriesDelete(DAILY, '2026-10-20', 'following', '2026-10-06')?.recurrence).toEqual({ freq: 'daily', interval: 1, until: '2026-10-10' });
+        expect(applySeriesDelete(WEEKLY, '2026-10-05', 'following', '2026-10-06')).toBeNull();
+    });
+
+    it('end the series before today for all, keeping its history', () => {
+        expect(applySeriesDelete(DAILY, '2026-10-08', 'all', '2026-10-06')).toMatchObject({
+            recurrence: { freq: 'daily', interval: 1, until: '2026-10-05' }, completions: ['2026-10-02', '2026-10-05']
+        });
+        // A series that has not started yet is removed
+        expect(applySeriesDelete(WEEKLY, '2026-10-19', 'all', '2026-10-05')).toBeNull();
+    });
+});
@@ -0,0 +1,184 @@
+import { Task, TaskOverride, EditScope } from './types';
+import { getLocalISO, parseLocalDate, addDays } from './utils';
+import { getRecurrenceRule, withRecurrence, truncateRule, countOccurrencesBefore } from './recurrence';
+import { withSubtaskChecks } from './subtasks';
+import { withAmount } from './quantity';
+import { withCompletionRecord } from './completionLog';
+
+// --- Recurring Series Editing ---
+// Edits and deletes of a repeating task apply to one occurrence (override/hide),
+// to that occurrence and the rest of the series (split), or to the whole series.
+
+const OVERRIDE_FIELDS: (keyof TaskOverride)[] = ['text', 'category', 'time', 'notes', 'reminders', 'subtasks', 'duration'];
+const SCHEDULE_FIELDS: (keyof Task)[] = ['type', 'recurrence', 'dateCreated', 'weeklyDay'];
+const SERIES_FIELDS: (keyof Task)[] = ['tags', 'priority', 'goal']; // Never per-occurrence; an edit to one day applies to the series
+const EDITABLE_FIELDS: (keyof Task)[] = [...OVERRIDE_FIELDS, ...SCHEDULE_FIELDS, ...SERIES_FIELDS];
+
+// Assigns one field of a record; keeps loops over field lists typed
+const setField = <T, K extends keyof T>(target: T, field: K, value: T[K]) => { target[field] = value; };
+
+const isRepeating = (task: Task): boolean => getRecurrenceRule(task) !== null;
+
+// Fields the user changed in the editor, compared against what they were shown
+export const diffTask = (before: Task, after: Task): Partial<Task> => {
+    const changes: Partial<Task> = {};
+    EDITABLE_FIELDS.forEach(field => {
+        if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+            setField(changes, field, after[field]);
+        }
+    });
+    return changes;
+};
+
+export const changesSchedule = (changes: Partial<Task>): boolean =>
+    SCHEDULE_FIELDS.some(field => field in changes);
+
+// The task as it appears on `date`, with that occurrence's overrides applied
+export const resolveOccurrence = (task: Task, date: string): Task => {
+    const override = task.overrides?.[date];
+    if (!override) return task;
+    const resolved: Task = { ...task };
+    if (override.text !== undefined) resolved.text = override.text;
+    if (override.category !== undefined) resolved.category = override.category;
+    if (override.notes !== undefined) resolved.notes = override.notes;
+    if (override.time !== undefined) resolved.time = override.time ?? undefined;
+    if (override.reminders !== undefined) resolved.reminders = override.reminders;
+    if (override.subtasks !== undefined) resolved.subtasks = override.subtasks;
+    if (override.duration !== undefined) resolved.duration = override.duration;
+    return resolved;
+};
+
+// Keep only the entries dated before `date`, or on/after it with `fromDate`
+const splitByDate = (task: Task, date: string, fromDate: boolean) => {
+    const keep = (d: string) => fromDate ? d >= date : d < date;
+    const overrides = Object.fromEntries(Object.entries(task.overrides || {}).filter(([d]) => keep(d)));
+    const subtaskChecks = Object.fromEntries(Object.entries(task.subtaskChecks || {}).filter(([d]) => keep(d)));
+    const dayPositions = Object.fromEntries(Object.entries(task.dayPositions || {}).filter(([d]) => keep(d)));
+    const amounts = Object.fromEntries(Object.entries(task.amounts || {}).filter(([d]) => keep(d)));
+    const completionLog = Object.fromEntries(Object.entries(task.completionLog || {}).filter(([d]) => keep(d)));
+    return {
+        completions: task.completions.filter(keep),
+        hiddenDates: (task.hiddenDates || []).filter(keep),
+        overrides: Object.keys(overrides).length ? overrides : undefined,
+        subtaskChecks: Object.keys(subtaskChecks).length ? subtaskChecks : undefined,
+        dayPositions: Object.keys(dayPositions).length ? dayPositions : undefined,
+        amounts: Object.keys(amounts).length ? amounts : undefined,
+        completionLog: Object.keys(completionLog).length ? completionLog : undefined,
+        snooze: task.snooze && keep(task.snooze.date) ? task.snooze : undefined,
+        snoozeCount: fromDate ? undefined : task.snoozeCount // Stats stay with the original series
+    };
+};
+
+const applyOverride = (task: Task, date: string, changes: Partial<Task>): Task => {
+    const override: TaskOverride = { ...(task.overrides?.[date] || {}) };
+    OVERRIDE_FIELDS.forEach(field => {
+        if (!(field in changes)) return;
+        const value = changes[field];
+        // Values equal to the series drop out of the override again
+        if (field === 'time') override.time = value === task.time ? undefined : (changes.time ?? null);
+        else setField(override, field, JSON.stringify(value) === JSON.stringify(task[field]) ? undefined : value);
+    });
+    OVERRIDE_FIELDS.forEach(field => { if (override[field] === undefined) delete override[field]; });
+
+    const overrides = { ...(task.overrides || {}) };
+    if (Object.keys(override).length) overrides[date] = override;
+    else delete overrides[date];
+    return { ...task, overrides: Object.keys(overrides).length ? overrides : undefined };
+};
+
+// Ends the series the day before `date`, dropping everything recorded from then on
+const endSeriesBefore = (task: Task, date: string): Task => {
+    const rule = getRecurrenceRule(task)!;
+    return { ...withRecurrence(task, truncateRule(rule, task.dateCreated, addDays(date, -1))), ...splitByDate(task, date, false) };
+};
+
+/**
+ * Applies an edit made on occurrence `date`. Returns the tasks that replace `original`:
+ * one for 'this'/'all', two when 'following' splits the series.
+ */
+export const applySeriesEdit = (original: Task, date: string, changes: Partial<Task>, scope: EditScope, newId: number): Task[] => {
+    if (!isRepeating(original) || scope === 'all' || (scope === 'following' && date <= original.dateCreated)) {
+        return [{ ...original, ...changes }];
+    }
+
+    if (scope === 'this') {
+        const seriesChanges = Object.fromEntries(SERIES_FIELDS.filter(field => field in changes).map(field => [field, changes[field]]));
+        return [applyOverride({ ...original, ...seriesChanges }, date, changes)];
+    }
+
+    // 'following': the old series stops before `date`, a new one carries the edit forward
+    const rule = getRecurrenceRule(original)!;
+    const head = endSeriesBefore(original, date);
+
+    let tail: Task = { ...original, ...changes, id: newId, ...splitByDate(original, date, true) };
+    if (!('dateCreated' in changes)) tail.dateCreated = date;
+    if (!('recurrence' in changes) && !('type' in changes)) {
+        const tailRule = { ...rule };
+        if (rule.count) tailRule.count = Math.max(1, rule.count - countOccurrencesBefore(rule, original.dateCreated, date));
+        tail = withRecurrence(tail, tailRule);
+    }
+    return [head, tail];
+};
+
+/**
+ * Removes occurrence `date` ('this'), the series from `date` on ('following'),
+ * or the series from `today` on ('all'). History is kept: a removed occurrence
+ * is only hidden, and a removed series ends rather than disappearing, unless it
+ * has not started yet. Returns null when nothing of the task remains.
+ */
+export const applySeriesDelete = (task: Task, date: string, scope: EditScope, today: string = getLocalISO()): Task | null => {
+    if (isRepeating(task) && scope === 'all') return today <= task.dateCreated ? null : endSeriesBefore(task, today);
+    if (isRepeating(task) && scope === 'following') return date <= task.dateCreated ? null : endSeriesBefore(task, date);
+    // The logged amount and completion record go, so charts and the log skip the hidden day
+    return {
+        ...withCompletionRecord(withAmount(task, date, 0), date, undefined),
+        hiddenDates: [...(task.hiddenDates || []), date],
+        snooze: task.snooze?.date === date ? undefined : task.snooze
+    };
+};
+
+/**
+ * Moves occurrence `date` by `direction` days. One-time tasks change date;
+ * repeating tasks skip that occurrence.
+ */
+export const moveOccurrence = (task: Task, date: string, direction: number): Task => {
+    const d = parseLocalDate(date);
+    d.setDate(d.getDate() + direction);
+    const target = getLocalISO(d);
+    const cleared = { ...withCompletionRecord(withAmount(withSubtaskChecks(task, date, []), date, 0), date, undefined), completions: task.completions.filter(c => c !== date), snooze: task.snooze?.date === date ? undefined : task.snooze };
+    if (isRepeating(task)) return { ...cleared, hiddenDates: [...(task.hiddenDates || []), date] };
+    // A moved one-time task keeps its checked steps and amount, and shows on the new date even if it was hidden there
+    return {
+        ...withAmount(withSubtaskChecks(cleared, target, task.subtaskChecks?.[date] || []), target, task.amounts?.[date] || 0),
+        dateCreated: target,
+        hiddenDates: (task.hiddenDates || []).filter(h => h !== target)
+    };
+};
+
+/**
+ * Moves occurrence `from` to `to`. One-time tasks change date; for a repeating
+ * task that occurrence is skipped and a one-time copy of it is made on `to`.
+ */
+export const rescheduleOccurrence = (task: Task, from: string, to: string, newId: number): Task[] => {
+    const days = Math.round((parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / 86400000);
+    if (!isRepeating(task)) return [moveOccurrence(task, from, days)];
+    const occurrence = resolveOccurrence(task, from);
+    const checks = task.subtaskChecks?.[from] || [];
+    const copy: Task = {
+        ...occurrence,
+        id: newId,
+        type: 'one-time',
+        recurrence: undefined,
+        dateCreated: to,
+        completions: task.completions.includes(from) ? [to] : [],
+        hiddenDates: [],
+        overrides: undefined,
+        snooze: undefined,
+        snoozeCount: undefined,
+        subtaskChecks: checks.length ? { [to]: checks } : undefined,
+        dayPositions: undefined,
+        amounts: task.amounts?.[from] ? { [to]: task.amounts[from] } : undefined,
+        completionLog: task.completions.includes(from) && task.completionLog?.[from] ? { [to]: task.completionLog[from] } : undefined
+    };
+    return [moveOccurrence(task, from, 0), copy];
+};
@@ -0,0 +1,105 @@
+// Reference sync server for MOTI-ON.
+// Keeps an append-only change log in a JSON Lines file and hands out changes
+// by sequence number. It never merges anything: clients resolve conflicts
+// from the change stamps, so the server only has to store and relay.
+//
+//   node server/sync-server.mjs            (port 8787, ./sync-data.jsonl)
+//   PORT=9000 SYNC_FILE=/tmp/log.jsonl node server/sync-server.mjs
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const FILE = path.resolve(process.env.SYNC_FILE || 'sync-data.jsonl');
+const MAX_BODY = 5 * 1024 * 1024;
+
+// Each entry: { seq, clientId, change }
+const log = [];
+const stamps = new Set();
+
+const load = () => {
+    if (!fs.existsSync(FILE)) return;
+    fs.readFileSync(FILE, 'utf8').split('\n').filter(Boolean).forEach((line, i) => {
+        try {
+            const entry = JSON.parse(line);
+            log.push(entry);
+            stamps.add(entry.change.stamp);
+        } catch (e) {
+            console.warn(`Skipping unreadable line ${i + 1} in ${FILE}`);
+        }
+    });
+};
+
+const isChange = (c) => c && typeof c.stamp === 'string' && typeof c.taskId === 'number' && typeof c.field === 'string'
+    && (c.kind === 'field' || (c.kind === 'date' && typeof c.date === 'string' && typeof c.present === 'boolean'));
+
+// Stamps are unique per change, so a retried push does not duplicate entries
+const append = (clientId, changes) => {
+    const lines = [];
+    changes.forEach(change => {
+        if (!isChange(change) || stamps.has(change.stamp)) return;
+        const entry = { seq: log.length + 1, clientId, change };
+        log.push(entry);
+        stamps.add(change.stamp);
+        lines.push(JSON.stringify(entry));
+    });
+    if (lines.length) fs.appendFileSync(FILE, lines.join('\n') + '\n');
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY) {
+            reject(new Error('Request too large'));
+            req.destroy();
+        } else chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+// POST /sync { clientId, cursor, changes } -> { cursor, changes }
+// Returns every change after `cursor` that came from another client.
+const handleSync = async (req, res) => {
+    let body;
+    try {
+        body = JSON.parse(await readBody(req));
+    } catch (e) {
+        return send(res, 400, { error: 'Body must be JSON' });
+    }
+    const { clientId, cursor = 0, changes = [] } = body || {};
+    if (typeof clientId !== 'string' || !clientId || !Array.isArray(changes) || typeof cursor !== 'number') {
+        return send(res, 400, { error: 'Expected { clientId, cursor, changes }' });
+    }
+
+    append(clientId, changes);
+    const incoming = log.filter(e => e.seq > cursor && e.clientId !== clientId).map(e => e.change);
+    send(res, 200, { cursor: log.length, changes: incoming });
+};
+
+const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method === 'GET' && req.url === '/health') return send(res, 200, { ok: true, changes: log.length });
+    if (req.method === 'POST' && req.url === '/sync') {
+        return handleSync(req, res).catch(e => send(res, 500, { error: e.message }));
+    }
+    send(res, 404, { error: 'Not found' });
+});
+
+load();
+server.listen(PORT, () => {
+    console.log(`MOTI-ON sync server on http://localhost:${PORT} (${log.length} changes in ${FILE})`);
+});
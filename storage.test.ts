@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { migrateTasks, createMemoryRepository, createLocalStorageRepository, MIGRATIONS, SCHEMA_VERSION, LEGACY_TASKS_KEY } from './storage';
+
+// Stored shapes from before each migration
+const V0_TASKS = [
+    { id: -5, text: 'Draft that kept its id', type: 'one-time', category: 'Work', dateCreated: '2026-10-01', completions: [], hiddenDates: [] },
+    { id: 6, text: 'Water plants', type: 'weekly', weeklyDay: 3, category: ' Personal ', dateCreated: '2026-10-01', completions: [], hiddenDates: [] },
+    { id: 7, text: 'Journal', type: 'recurring', category: '', dateCreated: '2026-10-01', completions: [], hiddenDates: [] }
+];
+
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        key: (i: number) => Array.from(items.keys())[i] ?? null,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear()
+    };
+};
+
+describe('migrations', () => {
+    it('are numbered in order up to the schema version', () => {
+        expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+        expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+    });
+
+    it('take v0 data through every step', () => {
+        const [draft, weekly, daily] = migrateTasks(V0_TASKS, 0);
+        expect(draft).toMatchObject({ id: 5, category: 'work' });
+        expect(draft.recurrence).toBeUndefined();
+        expect(weekly).toMatchObject({ id: 6, category: 'personal', recurrence: { freq: 'weekly', interval: 1, byDay: [3] } });
+        expect(daily).toMatchObject({ id: 7, category: 'other', recurrence: { freq: 'daily', interval: 1 } });
+    });
+
+    it('skip the steps v1 data has already had', () => {
+        const [draft, weekly] = migrateTasks(V0_TASKS, 1);
+        expect(draft.id).toBe(-5);
+        expect(weekly.recurrence).toEqual({ freq: 'weekly', interval: 1, byDay: [3] });
+    });
+
+    it('only move v2 data to category ids', () => {
+        const [, weekly, daily] = migrateTasks(V0_TASKS, 2);
+        expect(weekly.recurrence).toBeUndefined();
+        expect(weekly.category).toBe('personal');
+        expect(daily.category).toBe('other');
+    });
+
+    it('leave current and newer data alone', () => {
+        expect(migrateTasks(V0_TASKS, SCHEMA_VERSION)).toEqual(V0_TASKS);
+        expect(migrateTasks(V0_TASKS, SCHEMA_VERSION + 1)).toEqual(V0_TASKS);
+    });
+
+    it('drop entries that are not tasks', () => {
+        expect(migrateTasks([null, 3, 'x', [], V0_TASKS[0]], 0)).toHaveLength(1);
+    });
+});
+
+describe('memory repository', () => {
+    it('migrates what it was created with on load', async () => {
+        const repository = createMemoryRepository(V0_TASKS, 0);
+        expect(repository.kind).toBe('memory');
+        const tasks = await repository.load();
+        expect(tasks.map(t => t.id)).toEqual([5, 6, 7]);
+        // Loading again does not migrate twice
+        expect(await repository.load()).toEqual(tasks);
+    });
+
+    it('loads what was saved, as a copy', async () => {
+        const repository = createMemoryRepository();
+        expect(await repository.load()).toEqual([]);
+        const tasks = migrateTasks(V0_TASKS, 0);
+        await repository.save(tasks);
+        tasks[0].text = 'Changed after saving';
+
+        const loaded = await repository.load();
+        expect(loaded[0].text).toBe('Draft that kept its id');
+        loaded[1].completions.push('2026-10-08');
+        expect((await repository.load())[1].completions).toEqual([]);
+    });
+});
+
+describe('localStorage repository', () => {
+    it('treats data without a version as v0 and saves the current version', async () => {
+        const storage = memoryStorage();
+        storage.setItem(LEGACY_TASKS_KEY, JSON.stringify(V0_TASKS));
+        const repository = createLocalStorageRepository(storage);
+
+        const tasks = await repository.load();
+        expect(tasks[0].id).toBe(5);
+        await repository.save(tasks);
+        expect(await createLocalStorageRepository(storage).load()).toEqual(tasks);
+    });
+});
@@ -0,0 +1,237 @@
+import { Task } from './types';
+import { migrateRecurrence } from './recurrence';
+import { FALLBACK_CATEGORY } from './categories';
+
+// --- Persistence Layer ---
+// Tasks are stored behind a repository so the backend can be swapped:
+// IndexedDB in the browser, localStorage as a fallback, memory for tests.
+
+export interface TaskRepository {
+    kind: 'indexeddb' | 'localstorage' | 'memory';
+    load: () => Promise<Task[]>; // Returns tasks migrated to SCHEMA_VERSION
+    save: (tasks: Task[]) => Promise<void>;
+}
+
+// A task as some older schema stored it. Each migration narrows the fields it touches.
+export type StoredTask = Record<string, unknown>;
+
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (tasks: StoredTask[]) => StoredTask[];
+}
+
+type LegacyRepeating = StoredTask & Pick<Task, 'type' | 'weeklyDay' | 'dateCreated' | 'recurrence'>;
+
+const isLegacyRepeating = (t: StoredTask): t is LegacyRepeating =>
+    (t.type === 'recurring' || t.type === 'weekly') && typeof t.dateCreated === 'string' &&
+    (t.weeklyDay === undefined || t.weeklyDay === null || typeof t.weeklyDay === 'number');
+
+const isStoredTask = (t: unknown): t is StoredTask => !!t && typeof t === 'object' && !Array.isArray(t);
+
+// Ordered list of schema changes. Append new entries; never edit shipped ones.
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Ensure all tasks have positive IDs',
+        // Fixes the "Duplicate on Edit" bug where saved tasks retained negative "Draft" IDs
+        migrate: tasks => tasks.map(t => typeof t.id === 'number' ? { ...t, id: Math.abs(t.id) } : t)
+    },
+    {
+        version: 2,
+        description: 'Derive recurrence rules from type/weeklyDay',
+        migrate: tasks => tasks.map(t => isLegacyRepeating(t) ? migrateRecurrence(t) : t)
+    },
+    {
+        version: 3,
+        description: 'Store categories as ids of user-defined categories',
+        // The four built-in names became the ids of the default category list; anything unusable joins "other"
+        migrate: tasks => tasks.map(t => typeof t.category === 'string' && t.category.trim()
+            ? { ...t, category: t.category.trim().toLowerCase() }
+            : { ...t, category: FALLBACK_CATEGORY })
+    }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Entries that are not objects are dropped. The result has the current shape as far
+// as the migrations can tell; backups still validate each task afterwards.
+export const migrateTasks = (tasks: unknown[], fromVersion: number): Task[] => {
+    const stored = tasks.filter(isStoredTask);
+    if (fromVersion > SCHEMA_VERSION) {
+        console.warn(`Stored schema v${fromVersion} is newer than v${SCHEMA_VERSION}; loading as-is`);
+        return stored as unknown as Task[];
+    }
+    return MIGRATIONS
+        .filter(m => m.version > fromVersion)
+        .reduce((acc, m) => m.migrate(acc), stored) as unknown as Task[];
+};
+
+// --- In-Memory ---
+export const createMemoryRepository = (initial: unknown[] = [], initialVersion: number = SCHEMA_VERSION): TaskRepository => {
+    let stored: { version: number, tasks: unknown[] } = { version: initialVersion, tasks: initial };
+    return {
+        kind: 'memory',
+        load: async () => {
+            const tasks = migrateTasks(stored.tasks, stored.version);
+            stored = { version: SCHEMA_VERSION, tasks };
+            return JSON.parse(JSON.stringify(tasks));
+        },
+        save: async (tasks) => {
+            stored = { version: SCHEMA_VERSION, tasks: JSON.parse(JSON.stringify(tasks)) };
+        }
+    };
+};
+
+// --- localStorage ---
+export const LEGACY_TASKS_KEY = 'pro_tasks';
+const LEGACY_VERSION_KEY = 'pro_tasks_version';
+
+// Data written before versioning has no version key and counts as v0
+const readLocalStorage = (storage: Storage): { version: number, tasks: unknown[] } | null => {
+    const raw = storage.getItem(LEGACY_TASKS_KEY);
+    if (!raw) return null;
+    const tasks: unknown = JSON.parse(raw);
+    const version = parseInt(storage.getItem(LEGACY_VERSION_KEY) || '0', 10);
+    return { version, tasks: Array.isArray(tasks) ? tasks : [] };
+};
+
+export const createLocalStorageRepository = (storage: Storage = window.localStorage): TaskRepository => ({
+    kind: 'localstorage',
+    load: async () => {
+        const stored = readLocalStorage(storage);
+        return stored ? migrateTasks(stored.tasks, stored.version) : [];
+    },
+    save: async (tasks) => {
+        storage.setItem(LEGACY_TASKS_KEY, JSON.stringify(tasks));
+        storage.setItem(LEGACY_VERSION_KEY, String(SCHEMA_VERSION));
+    }
+});
+
+// --- IndexedDB ---
+const DB_NAME = 'moti-on';
+const DB_VERSION = 1;
+const TASK_STORE = 'tasks';
+const META_STORE = 'meta';
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (name: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASK_STORE)) db.createObjectStore(TASK_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+});
+
+/**
+ * Tasks live one per record so a save only writes what changed. The list order
+ * (used for manual sorting) is kept separately in the meta store.
+ * On first run, data from the localStorage key is imported and then removed.
+ */
+export const createIndexedDBRepository = async (name: string = DB_NAME, legacyStorage: Storage | null = window.localStorage): Promise<TaskRepository> => {
+    const db = await openDatabase(name);
+    // Serialized form of what is on disk, to diff against on save
+    let written = new Map<number, string>();
+    let writtenOrder = '';
+    let pending: Promise<void> = Promise.resolve();
+
+    const writeAll = async (tasks: Task[]) => {
+        const tx = db.transaction([TASK_STORE, META_STORE], 'readwrite');
+        const store = tx.objectStore(TASK_STORE);
+        const next = new Map<number, string>();
+
+        tasks.forEach(t => {
+            const json = JSON.stringify(t);
+            next.set(t.id, json);
+            if (written.get(t.id) !== json) store.put(t);
+        });
+        written.forEach((_, id) => { if (!next.has(id)) store.delete(id); });
+
+        const order = JSON.stringify(tasks.map(t => t.id));
+        const meta = tx.objectStore(META_STORE);
+        if (order !== writtenOrder) meta.put(tasks.map(t => t.id), 'order');
+        meta.put(SCHEMA_VERSION, 'schemaVersion');
+
+        await transactionDone(tx);
+        written = next;
+        writtenOrder = order;
+    };
+
+    return {
+        kind: 'indexeddb',
+        load: async () => {
+            const tx = db.transaction([TASK_STORE, META_STORE], 'readonly');
+            const [records, order, version] = await Promise.all([
+                promisify(tx.objectStore(TASK_STORE).getAll()),
+                promisify(tx.objectStore(META_STORE).get('order')),
+                promisify(tx.objectStore(META_STORE).get('schemaVersion'))
+            ]);
+
+            if (version === undefined) {
+                // Fresh database: import whatever the localStorage era left behind
+                const legacy = legacyStorage ? readLocalStorage(legacyStorage) : null;
+                const tasks = legacy ? migrateTasks(legacy.tasks, legacy.version) : [];
+                await writeAll(tasks);
+                if (legacy) {
+                    legacyStorage!.removeItem(LEGACY_TASKS_KEY);
+                    legacyStorage!.removeItem(LEGACY_VERSION_KEY);
+                }
+                return tasks;
+            }
+
+            const position = new Map<number, number>((order as number[] || []).map((id, i) => [id, i]));
+            const sorted = (records as Task[]).slice().sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+            const tasks = migrateTasks(sorted, version as number);
+
+            written = new Map(sorted.map(t => [t.id, JSON.stringify(t)]));
+            writtenOrder = JSON.stringify(sorted.map(t => t.id));
+            if (version !== SCHEMA_VERSION) await writeAll(tasks);
+            return tasks;
+        },
+        // Saves are chained so each diff is taken against the previous write
+        save: (tasks) => {
+            const run = pending.then(() => writeAll(tasks));
+            pending = run.catch(() => {});
+            return run;
+        }
+    };
+};
+
+// Picks the best backend available: IndexedDB, then localStorage, then memory
+export const createTaskRepository = async (): Promise<TaskRepository> => {
+    if (typeof indexedDB !== 'undefined') {
+        try {
+            return await createIndexedDBRepository();
+        } catch (e) {
+            console.warn('IndexedDB unavailable, falling back to localStorage', e);
+        }
+    }
+    return createFallbackRepository();
+};
+
+// localStorage if it works, otherwise memory. Also used when the chosen backend fails to load.
+export const createFallbackRepository = (): TaskRepository => {
+    try {
+        const probe = '__moti_probe__';
+        window.localStorage.setItem(probe, probe);
+        window.localStorage.removeItem(probe);
+        return createLocalStorageRepository();
+    } catch (e) {
+        console.warn('localStorage unavailable, changes will not persist', e);
+        return createMemoryRepository();
+    }
+};
@@ -0,0 +1,53 @@
+import { Task } from './types';
+import { quantityProgress } from './quantity';
+
+// --- Subtasks ---
+// A task's checklist is checked off per occurrence date, so each day of a
+// repeating task starts with a fresh list. Checking the last step completes
+// the task; unchecking a step of a completed task reopens it.
+
+export const PARTIAL_PROGRESS_KEY = 'moti_partial_progress'; // 'on' counts checked steps in the progress ring
+
+export const checkedSubtasks = (task: Task, date: string): number[] => {
+    const ids = new Set((task.subtasks || []).map(s => s.id));
+    return (task.subtaskChecks?.[date] || []).filter(id => ids.has(id));
+};
+
+export const subtaskProgress = (task: Task, date: string): { done: number, total: number } => ({
+    done: checkedSubtasks(task, date).length,
+    total: task.subtasks?.length || 0
+});
+
+// How much of the occurrence is done, from 0 to 1. Logged amounts always count.
+export const taskProgress = (task: Task, date: string, countPartial: boolean): number => {
+    if (task.completions.includes(date)) return 1;
+    if (task.goal) return quantityProgress(task, date);
+    const { done, total } = subtaskProgress(task, date);
+    return countPartial && total ? done / total : 0;
+};
+
+// Replaces the checks for `date`, dropping the entry when none are left
+export const withSubtaskChecks = (task: Task, date: string, ids: number[]): Task => {
+    const subtaskChecks = { ...(task.subtaskChecks || {}) };
+    if (ids.length) subtaskChecks[date] = ids;
+    else delete subtaskChecks[date];
+    return { ...task, subtaskChecks: Object.keys(subtaskChecks).length ? subtaskChecks : undefined };
+};
+
+// `task` is the stored series; `subtasks` the list shown for that date, which may be overridden
+export const toggleSubtask = (task: Task, date: string, subtaskId: number, subtasks = task.subtasks || []): Task => {
+    const checked = new Set(task.subtaskChecks?.[date] || []);
+    if (checked.has(subtaskId)) checked.delete(subtaskId);
+    else checked.add(subtaskId);
+    const ids = subtasks.map(s => s.id).filter(id => checked.has(id));
+    const next = withSubtaskChecks(task, date, ids);
+
+    const isDone = task.completions.includes(date);
+    const allChecked = subtasks.length > 0 && ids.length === subtasks.length;
+    if (allChecked && !isDone) return { ...next, completions: [...task.completions, date] };
+    if (!allChecked && isDone) return { ...next, completions: task.completions.filter(c => c !== date) };
+    return next;
+};
+
+export const nextSubtaskId = (task: Task): number =>
+    (task.subtasks || []).reduce((max, s) => Math.max(max, s.id), 0) + 1;
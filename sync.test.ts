@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawn, ChildProcess } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createSyncEngine } from './sync';
+import { Task } from './types';
+
+// Runs against the reference server in server/sync-server.mjs
+const PORT = 18000 + Math.floor(Math.random() * 1000);
+const SERVER_URL = `http://localhost:${PORT}`;
+
+let server: ChildProcess;
+let dir: string;
+
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        key: (i: number) => Array.from(items.keys())[i] ?? null,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear()
+    };
+};
+
+const task = (id: number, text: string): Task => ({
+    id, text, type: 'one-time', category: 'personal', dateCreated: '2026-10-19', completions: [], hiddenDates: []
+});
+
+beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'moti-sync-'));
+    server = spawn(process.execPath, ['server/sync-server.mjs'], {
+        env: { ...process.env, PORT: String(PORT), SYNC_FILE: path.join(dir, 'log.jsonl') },
+        stdio: ['ignore', 'pipe', 'inherit']
+    });
+    await new Promise<void>((resolve, reject) => {
+        server.stdout!.on('data', chunk => { if (String(chunk).includes('sync server on')) resolve(); });
+        server.on('exit', code => reject(new Error(`Sync server exited with ${code}`)));
+    });
+});
+
+afterAll(() => {
+    server?.kill();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('sync engine', () => {
+    it('keeps edits made between two overlapping syncs', async () => {
+        const a = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+        const b = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+
+        a.track([task(1, 'first')]);
+        const first = a.sync();
+        const second = a.sync();
+        // Edited after both calls were made, while the first is still in flight
+        a.track([task(1, 'first'), task(2, 'second')]);
+        await Promise.all([first, second]);
+        expect(a.pendingCount()).toBe(0);
+
+        const result = await b.sync();
+        expect(b.rebase([], result.changedIds).map(t => t.text).sort()).toEqual(['first', 'second']);
+
+        const health = await (await fetch(`${SERVER_URL}/health`)).json();
+        expect(health.changes).toBe(result.pulled);
+    });
+
+    it('shares one follow-up round between calls made during a sync', async () => {
+        const engine = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+        engine.track([task(3, 'third')]);
+        const first = engine.sync();
+        const second = engine.sync();
+        const third = engine.sync();
+        expect(third).toBe(second);
+        expect((await first).pushed).toBeGreaterThan(0);
+        expect((await second).pushed).toBe(0);
+    });
+
+    it('keeps working and reports it when the sync state does not fit in storage', () => {
+        const storage = memoryStorage();
+        storage.setItem = () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); };
+        const engine = createSyncEngine({ serverUrl: SERVER_URL }, storage);
+
+        expect(() => engine.track([task(4, 'fourth')])).not.toThrow();
+        expect(engine.pendingCount()).toBeGreaterThan(0);
+        expect(engine.saveError()).toMatch(/storage is full/);
+    });
+
+    it('keeps a task whose remote state fails validation instead of deleting it', async () => {
+        const a = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+        const b = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+        const original = task(10, 'tenth');
+        a.track([original]);
+        await a.sync();
+        const pulled = b.rebase([], (await b.sync()).changedIds);
+
+        // A device with a newer or broken client writes a value this one rejects
+        b.track(pulled.map(t => t.id === 10 ? { ...t, time: 'whenever' } : t));
+        await b.sync();
+
+        const result = await a.sync();
+        expect(result.rejectedIds).toEqual([10]);
+        expect(result.changedIds).not.toContain(10);
+        expect(a.rebase([original], [10])).toEqual([original]);
+        expect(a.pendingCount()).toBe(0);
+    });
+
+    it('deletes a task on a tombstone', async () => {
+        const a = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+        const b = createSyncEngine({ serverUrl: SERVER_URL }, memoryStorage());
+        const original = task(11, 'eleventh');
+        a.track([original]);
+        await a.sync();
+        const pulled = b.rebase([], (await b.sync()).changedIds);
+        b.track(pulled);
+
+        b.track(pulled.filter(t => t.id !== 11));
+        await b.sync();
+        const result = await a.sync();
+        expect(result.changedIds).toContain(11);
+        expect(a.rebase([original], result.changedIds)).toEqual([]);
+    });
+});
@@ -0,0 +1,304 @@
+import { Task } from './types';
+import { validateTask } from './backup';
+
+// --- Device Sync ---
+// Every edit becomes a change in a shared log kept by a sync server
+// (see server/sync-server.mjs). Each task field is a last-writer-wins register,
+// `completions`/`hiddenDates` are per-date add/remove registers, `overrides`,
+// `subtaskChecks`, `dayPositions`, `amounts` and `completionLog` get one register per
+// date, and deleting a task sets a `$deleted` tombstone. Changes are stamped with a hybrid logical clock, so any
+// device applying the same changes in any order ends up equal.
+
+export type SyncChange =
+    | { kind: 'field', taskId: number, field: string, value: any, stamp: string }
+    | { kind: 'date', taskId: number, field: DateField, date: string, present: boolean, stamp: string };
+
+type DateField = 'completions' | 'hiddenDates';
+
+interface TaskRegisters {
+    fields: Record<string, { value: any, stamp: string }>;
+    dates: Record<DateField, Record<string, { present: boolean, stamp: string }>>;
+}
+
+interface SyncState {
+    clientId: string;
+    cursor: number; // Last server sequence number pulled
+    clock: { time: number, counter: number };
+    outbox: SyncChange[]; // Local changes the server has not acknowledged yet
+    registers: Record<number, TaskRegisters>;
+}
+
+export interface SyncConfig {
+    serverUrl: string;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: number;
+    changedIds: number[]; // Tasks touched by other devices
+    rejectedIds: number[]; // Tasks whose remote state failed validation; the local copy is kept
+}
+
+export interface SyncEngine {
+    clientId: string;
+    pendingCount: () => number;
+    track: (tasks: Task[]) => void;
+    sync: () => Promise<SyncResult>;
+    rebase: (tasks: Task[], changedIds: number[]) => Task[];
+    saveError: () => string | null; // Why the last write of the sync state failed
+}
+
+const STATE_KEY = 'moti_sync_state';
+const CONFIG_KEY = 'moti_sync_config';
+const DELETED = '$deleted';
+const DATE_FIELDS: DateField[] = ['completions', 'hiddenDates'];
+// Maps keyed by date get one register per date, as `<field>:<date>`
+const DATE_MAP_FIELDS = ['overrides', 'subtaskChecks', 'dayPositions', 'amounts', 'completionLog'];
+
+export const readSyncConfig = (storage: Storage = window.localStorage): SyncConfig | null => {
+    try {
+        const config = JSON.parse(storage.getItem(CONFIG_KEY) || 'null');
+        return config && typeof config.serverUrl === 'string' ? config : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const writeSyncConfig = (config: SyncConfig | null, storage: Storage = window.localStorage) => {
+    if (config) storage.setItem(CONFIG_KEY, JSON.stringify(config));
+    else {
+        storage.removeItem(CONFIG_KEY);
+        storage.removeItem(STATE_KEY); // A new server starts from a clean log
+    }
+};
+
+// --- Hybrid Logical Clock ---
+// Stamps sort as strings: wall time, then counter, then client id as tie-breaker
+
+const formatStamp = (time: number, counter: number, clientId: string): string =>
+    `${time.toString(36).padStart(9, '0')}:${counter.toString(36).padStart(4, '0')}:${clientId}`;
+
+const parseStamp = (stamp: string): { time: number, counter: number } => {
+    const [time, counter] = stamp.split(':');
+    return { time: parseInt(time, 36), counter: parseInt(counter, 36) };
+};
+
+const createClientId = (): string => Math.random().toString(36).slice(2, 10);
+
+const same = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const emptyRegisters = (): TaskRegisters => ({ fields: {}, dates: { completions: {}, hiddenDates: {} } });
+
+// Writes a change into the registers if it is newer than what they hold
+const applyChange = (registers: Record<number, TaskRegisters>, change: SyncChange): boolean => {
+    const r = registers[change.taskId] || (registers[change.taskId] = emptyRegisters());
+    if (change.kind === 'field') {
+        const current = r.fields[change.field];
+        if (current && current.stamp >= change.stamp) return false;
+        r.fields[change.field] = { value: change.value, stamp: change.stamp };
+    } else {
+        const current = r.dates[change.field][change.date];
+        if (current && current.stamp >= change.stamp) return false;
+        r.dates[change.field][change.date] = { present: change.present, stamp: change.stamp };
+    }
+    return true;
+};
+
+const isDeleted = (r: TaskRegisters | undefined): boolean => !!r?.fields[DELETED]?.value;
+
+// Builds the task a set of registers describes, or null if deleted or incomplete
+const materialize = (id: number, r: TaskRegisters | undefined): Task | null => {
+    if (!r || isDeleted(r)) return null;
+    const task: any = { id };
+    Object.entries(r.fields).forEach(([field, { value }]) => {
+        if (field === DELETED || value === null || value === undefined) return;
+        const [name, date] = field.split(':');
+        if (date && DATE_MAP_FIELDS.includes(name)) task[name] = { ...(task[name] || {}), [date]: value };
+        else task[field] = value;
+    });
+    DATE_FIELDS.forEach(field => {
+        task[field] = Object.keys(r.dates[field]).filter(d => r.dates[field][d].present).sort();
+    });
+    return validateTask(task) ? null : task as Task;
+};
+
+// Flattens a task into register values: plain fields plus one entry per date of the date maps
+const fieldValues = (task: Task): Record<string, any> => {
+    const values: Record<string, any> = {};
+    Object.entries(task).forEach(([key, value]) => {
+        if (key === 'id' || DATE_FIELDS.includes(key as DateField) || value === undefined) return;
+        if (DATE_MAP_FIELDS.includes(key)) Object.entries(value).forEach(([date, entry]) => { values[`${key}:${date}`] = entry; });
+        else values[key] = value;
+    });
+    return values;
+};
+
+const loadState = (storage: Storage): SyncState => {
+    try {
+        const state = JSON.parse(storage.getItem(STATE_KEY) || 'null');
+        if (state && state.clientId) return state;
+    } catch (e) { /* Fall through to a fresh state */ }
+    return { clientId: createClientId(), cursor: 0, clock: { time: 0, counter: 0 }, outbox: [], registers: {} };
+};
+
+export const createSyncEngine = (config: SyncConfig, storage: Storage = window.localStorage): SyncEngine => {
+    const state = loadState(storage);
+    // A full storage must not break editing; the state stays in memory and the app reports it
+    let saveError: string | null = null;
+    const persist = () => {
+        try {
+            storage.setItem(STATE_KEY, JSON.stringify(state));
+            saveError = null;
+        } catch (e: any) {
+            saveError = e?.name === 'QuotaExceededError'
+                ? 'Browser storage is full. Changes not yet synced will be lost if this page is closed.'
+                : `Saving the sync state failed: ${e?.message || e}`;
+        }
+    };
+
+    // Tasks as the registers last described them, to diff local edits against
+    const snapshot = new Map<number, Task>();
+    Object.keys(state.registers).forEach(key => {
+        const task = materialize(Number(key), state.registers[Number(key)]);
+        if (task) snapshot.set(task.id, task);
+    });
+
+    const tick = (): string => {
+        const now = Date.now();
+        if (now > state.clock.time) state.clock = { time: now, counter: 0 };
+        else state.clock = { time: state.clock.time, counter: state.clock.counter + 1 };
+        return formatStamp(state.clock.time, state.clock.counter, state.clientId);
+    };
+
+    // Remote stamps move the clock forward so later local edits still win
+    const observe = (stamp: string) => {
+        const { time, counter } = parseStamp(stamp);
+        if (time > state.clock.time || (time === state.clock.time && counter > state.clock.counter)) {
+            state.clock = { time, counter };
+        }
+    };
+
+    const record = (changes: SyncChange[]) => {
+        changes.forEach(c => applyChange(state.registers, c));
+        state.outbox.push(...changes);
+    };
+
+    // Turns the difference between the snapshot and the app's tasks into changes
+    const track = (tasks: Task[]) => {
+        const changes: SyncChange[] = [];
+        const seen = new Set<number>();
+
+        tasks.forEach(task => {
+            seen.add(task.id);
+            const prev = snapshot.get(task.id);
+            if (prev && same(prev, task)) return;
+
+            const before = prev ? fieldValues(prev) : {};
+            const after = fieldValues(task);
+            if (!prev && state.registers[task.id]?.fields[DELETED]?.value) {
+                changes.push({ kind: 'field', taskId: task.id, field: DELETED, value: false, stamp: tick() });
+            }
+            new Set([...Object.keys(before), ...Object.keys(after)]).forEach(field => {
+                if (!same(before[field], after[field])) {
+                    changes.push({ kind: 'field', taskId: task.id, field, value: after[field] ?? null, stamp: tick() });
+                }
+            });
+            DATE_FIELDS.forEach(field => {
+                const was = new Set(prev ? prev[field] : []);
+                const now = new Set(task[field] || []);
+                now.forEach(date => { if (!was.has(date)) changes.push({ kind: 'date', taskId: task.id, field, date, present: true, stamp: tick() }); });
+                was.forEach(date => { if (!now.has(date)) changes.push({ kind: 'date', taskId: task.id, field, date, present: false, stamp: tick() }); });
+            });
+            snapshot.set(task.id, task);
+        });
+
+        snapshot.forEach((_, id) => {
+            if (seen.has(id)) return;
+            changes.push({ kind: 'field', taskId: id, field: DELETED, value: true, stamp: tick() });
+            snapshot.delete(id);
+        });
+
+        if (changes.length) {
+            record(changes);
+            persist();
+        }
+    };
+
+    const exchange = async (): Promise<SyncResult> => {
+        const outgoing = state.outbox.slice();
+        const response = await fetch(`${config.serverUrl.replace(/\/$/, '')}/sync`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ clientId: state.clientId, cursor: state.cursor, changes: outgoing })
+        });
+        if (!response.ok) throw new Error(`Sync server responded ${response.status}`);
+        const body = await response.json();
+        if (!Array.isArray(body?.changes) || typeof body.cursor !== 'number') throw new Error('Unexpected sync server response');
+
+        // Edits made while the request was in flight stay queued
+        const acknowledged = new Set(outgoing.map(c => c.stamp));
+        state.outbox = state.outbox.filter(c => !acknowledged.has(c.stamp));
+
+        const changed = new Set<number>();
+        (body.changes as SyncChange[]).forEach(change => {
+            observe(change.stamp);
+            if (applyChange(state.registers, change)) changed.add(change.taskId);
+        });
+        // Only a tombstone deletes. A task that no longer validates keeps its last good state.
+        const rejected: number[] = [];
+        changed.forEach(id => {
+            const task = materialize(id, state.registers[id]);
+            if (task) snapshot.set(id, task);
+            else if (isDeleted(state.registers[id])) snapshot.delete(id);
+            else {
+                rejected.push(id);
+                changed.delete(id);
+            }
+        });
+        state.cursor = body.cursor;
+        persist();
+
+        return { pushed: outgoing.length, pulled: body.changes.length, changedIds: Array.from(changed), rejectedIds: rejected };
+    };
+
+    // One exchange at a time. Calls made while one runs share a single
+    // follow-up round, which pushes whatever was queued in the meantime.
+    let running: Promise<SyncResult> | null = null;
+    let followUp: Promise<SyncResult> | null = null;
+    const sync = (): Promise<SyncResult> => {
+        if (!running) {
+            running = exchange().finally(() => { running = null; });
+            return running;
+        }
+        if (!followUp) {
+            followUp = running.catch(() => undefined).then(() => {
+                followUp = null;
+                return sync();
+            });
+        }
+        return followUp;
+    };
+
+    // Applies remote results to the app's list, keeping its order; new tasks go on top
+    const rebase = (tasks: Task[], changedIds: number[]): Task[] => {
+        if (!changedIds.length) return tasks;
+        const changed = new Set(changedIds);
+        const existing = new Set(tasks.map(t => t.id));
+        const added = changedIds.filter(id => !existing.has(id) && snapshot.has(id)).map(id => snapshot.get(id)!);
+        const updated = tasks.flatMap(t => {
+            if (!changed.has(t.id)) return [t];
+            const task = snapshot.get(t.id);
+            return task ? [task] : [];
+        });
+        return [...added, ...updated];
+    };
+
+    return {
+        clientId: state.clientId,
+        pendingCount: () => state.outbox.length,
+        track,
+        sync,
+        rebase,
+        saveError: () => saveError
+    };
+};
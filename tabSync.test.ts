@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTaskLists } from './tabSync';
+import { Task } from './types';
+
+const task = (id: number, text: string, extra: Partial<Task> = {}): Task => ({
+    id, text, type: 'one-time', category: 'personal', dateCreated: '2026-10-19', completions: [], hiddenDates: [], ...extra
+});
+
+const BASE = [task(1, 'one'), task(2, 'two'), task(3, 'three')];
+
+describe('three-way task merge', () => {
+    it('keeps edits each tab made to different tasks', () => {
+        const local = [task(1, 'one, edited here'), BASE[1], BASE[2]];
+        const remote = [BASE[0], BASE[1], task(3, 'three, edited there')];
+        expect(mergeTaskLists(BASE, local, remote).map(t => t.text)).toEqual(['one, edited here', 'two', 'three, edited there']);
+    });
+
+    it('keeps edits to different fields of the same task, and lets the incoming one win on the same field', () => {
+        const local = [task(1, 'mine', { time: '09:00', priority: 1 }), BASE[1], BASE[2]];
+        const remote = [task(1, 'theirs', { notes: 'from the other tab', priority: 3 }), BASE[1], BASE[2]];
+        expect(mergeTaskLists(BASE, local, remote)[0]).toEqual(task(1, 'theirs', { time: '09:00', notes: 'from the other tab', priority: 3 }));
+    });
+
+    it('unions dates added on either side and drops dates removed on either side', () => {
+        const base = [task(1, 'one', { completions: ['2026-10-01', '2026-10-02'] })];
+        const local = [task(1, 'one', { completions: ['2026-10-02', '2026-10-03'] })];
+        const remote = [task(1, 'one', { completions: ['2026-10-01', '2026-10-02', '2026-10-04'], amounts: { '2026-10-04': 2 } })];
+        expect(mergeTaskLists(base, local, remote)[0]).toMatchObject({
+            completions: ['2026-10-02', '2026-10-03', '2026-10-04'],
+            amounts: { '2026-10-04': 2 }
+        });
+    });
+
+    it('applies deletes from one side but keeps a task edited on the other', () => {
+        const local = [task(1, 'one, edited here'), BASE[1]];
+        const remote = [BASE[1], BASE[2]];
+        expect(mergeTaskLists(BASE, local, remote).map(t => t.id)).toEqual([1, 2]);
+    });
+
+    it('adds tasks created in either tab, after this tab\'s own', () => {
+        const local = [...BASE, task(4, 'four')];
+        const remote = [...BASE, task(5, 'five')];
+        expect(mergeTaskLists(BASE, local, remote).map(t => t.id)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('takes the other tab order unless this tab reordered', () => {
+        const reordered = [BASE[2], BASE[0], BASE[1]];
+        expect(mergeTaskLists(BASE, BASE, reordered).map(t => t.id)).toEqual([3, 1, 2]);
+        expect(mergeTaskLists(BASE, reordered, [...BASE, task(4, 'four')]).map(t => t.id)).toEqual([3, 1, 2, 4]);
+    });
+});
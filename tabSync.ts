@@ -0,0 +1,161 @@
+import { Task } from './types';
+
+// --- Cross-Tab Synchronisation ---
+// Tabs broadcast their task list after every local change. A receiving tab
+// merges it three-way against the last state both sides agreed on, so
+// concurrent edits to different tasks (or different fields) are all kept.
+
+export type TabMessage =
+    | { type: 'tasks', from: number, tasks: Task[] }
+    | { type: 'hello', from: number }
+    | { type: 'heartbeat', from: number };
+
+export interface TabChannel {
+    tabId: number;
+    post: (message: TabMessage) => void;
+    subscribe: (handler: (message: TabMessage) => void) => () => void;
+    close: () => void;
+}
+
+const CHANNEL_NAME = 'moti-on';
+const STORAGE_KEY = 'moti_tab_message';
+
+// Older tabs get smaller ids, which the heartbeat fallback uses to pick a leader
+const createTabId = (): number => Date.now() * 1000 + Math.floor(Math.random() * 1000);
+
+// BroadcastChannel where available, otherwise `storage` events on a scratch key
+export const createTabChannel = (): TabChannel => {
+    const tabId = createTabId();
+    const handlers = new Set<(message: TabMessage) => void>();
+    const dispatch = (message: TabMessage) => {
+        if (message && message.from !== tabId) handlers.forEach(h => h(message));
+    };
+
+    if (typeof BroadcastChannel !== 'undefined') {
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (e) => dispatch(e.data);
+        return {
+            tabId,
+            post: (message) => channel.postMessage(message),
+            subscribe: (handler) => { handlers.add(handler); return () => handlers.delete(handler); },
+            close: () => channel.close()
+        };
+    }
+
+    const onStorage = (e: StorageEvent) => {
+        if (e.key !== STORAGE_KEY || !e.newValue) return;
+        try { dispatch(JSON.parse(e.newValue).message); } catch (err) { /* Ignore malformed writes */ }
+    };
+    window.addEventListener('storage', onStorage);
+    return {
+        tabId,
+        // The nonce makes repeated identical messages still fire a storage event
+        post: (message) => localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: Math.random() })),
+        subscribe: (handler) => { handlers.add(handler); return () => handlers.delete(handler); },
+        close: () => window.removeEventListener('storage', onStorage)
+    };
+};
+
+// --- Three-Way Merge ---
+
+const same = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Dates added on either side are kept; dates removed on either side are dropped
+const mergeDateSets = (base: string[] = [], local: string[] = [], remote: string[] = []): string[] => {
+    const baseSet = new Set(base);
+    const result = new Set<string>();
+    local.forEach(d => { if (!baseSet.has(d) || remote.includes(d)) result.add(d); });
+    remote.forEach(d => { if (!baseSet.has(d)) result.add(d); });
+    return Array.from(result).sort();
+};
+
+const SET_FIELDS = ['completions', 'hiddenDates'];
+const DATE_MAP_FIELDS = ['overrides', 'subtaskChecks', 'dayPositions', 'amounts', 'completionLog']; // Keyed by date; the incoming entry wins per date
+
+const mergeTask = (base: Task | undefined, local: Task, remote: Task): Task => {
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+    const merged: any = {};
+    keys.forEach(key => {
+        const b = (base as any)?.[key];
+        const l = (local as any)[key];
+        const r = (remote as any)[key];
+        if (same(l, r) || same(r, b)) merged[key] = l;
+        else if (same(l, b)) merged[key] = r;
+        else if (SET_FIELDS.includes(key)) merged[key] = mergeDateSets(b, l, r);
+        else if (DATE_MAP_FIELDS.includes(key)) merged[key] = { ...(l || {}), ...(r || {}) };
+        else merged[key] = r; // Both changed the same field: the incoming edit wins
+        if (merged[key] === undefined) delete merged[key];
+    });
+    return merged as Task;
+};
+
+export const mergeTaskLists = (base: Task[], local: Task[], remote: Task[]): Task[] => {
+    const baseById = new Map(base.map(t => [t.id, t]));
+    const localById = new Map(local.map(t => [t.id, t]));
+    const remoteById = new Map(remote.map(t => [t.id, t]));
+
+    const resolve = (id: number): Task | undefined => {
+        const b = baseById.get(id);
+        const l = localById.get(id);
+        const r = remoteById.get(id);
+        if (same(l, r)) return l;
+        if (same(l, b)) return r; // Only the other tab changed it (possibly deleted)
+        if (same(r, b)) return l;
+        if (!l || !r) return l || r; // Edited on one side, deleted on the other: keep the edit
+        return mergeTask(b, l, r);
+    };
+
+    // Keep the local order unless only the other tab reordered
+    const localOrderUnchanged = same(local.map(t => t.id), base.map(t => t.id));
+    const primary = localOrderUnchanged ? remote : local;
+    const secondary = localOrderUnchanged ? local : remote;
+    const ids = [...primary.map(t => t.id), ...secondary.map(t => t.id).filter(id => !(localOrderUnchanged ? remoteById : localById).has(id))];
+
+    return ids.map(resolve).filter((t): t is Task => !!t);
+};
+
+// --- Alarm Leader Election ---
+// Only the leader tab sounds alarms. Web Locks hands the lock to the next tab
+// when the leader closes; without it, the oldest tab seen in heartbeats leads.
+
+const LEADER_LOCK = 'moti-on-alarm-leader';
+const HEARTBEAT_MS = 2000;
+const PEER_TIMEOUT_MS = 6000;
+
+export const electLeader = (channel: TabChannel, onChange: (isLeader: boolean) => void): (() => void) => {
+    const locks = 'locks' in navigator ? navigator.locks : undefined;
+    if (locks) {
+        let release: (() => void) | null = null;
+        const controller = new AbortController();
+        locks.request(LEADER_LOCK, { signal: controller.signal }, () => new Promise<void>(resolve => {
+            release = resolve;
+            onChange(true);
+        })).catch((e: unknown) => { if (!(e instanceof DOMException && e.name === 'AbortError')) onChange(true); });
+        return () => release ? release() : controller.abort();
+    }
+
+    const peers = new Map<number, number>();
+    let isLeader: boolean | null = null;
+    const evaluate = () => {
+        const now = Date.now();
+        peers.forEach((seen, id) => { if (now - seen > PEER_TIMEOUT_MS) peers.delete(id); });
+        const leader = Array.from(peers.keys()).every(id => id > channel.tabId);
+        if (leader !== isLeader) {
+            isLeader = leader;
+            onChange(leader);
+        }
+    };
+    const unsubscribe = channel.subscribe(message => {
+        if (message.type === 'heartbeat') peers.set(message.from, Date.now());
+    });
+    const beat = () => {
+        channel.post({ type: 'heartbeat', from: channel.tabId });
+        evaluate();
+    };
+    beat();
+    const intervalId = setInterval(beat, HEARTBEAT_MS);
+    return () => {
+        clearInterval(intervalId);
+        unsubscribe();
+    };
+};
@@ -0,0 +1,65 @@
+import { Task } from './types';
+
+// --- Day Timeline ---
+// Timed tasks become blocks from `time` to `time + duration`. Blocks that
+// overlap share the width of their cluster, one column each, and are flagged.
+
+export const DEFAULT_DURATION = 30; // Minutes, for tasks without a duration
+export const SNAP_MINUTES = 15;
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+export interface TimelineBlock {
+    task: Task;
+    start: number; // Minutes since midnight
+    end: number;   // Capped at the end of the day
+    column: number;
+    columns: number; // Columns in this block's cluster
+    overlaps: boolean;
+}
+
+export const toMinutes = (time: string): number => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+};
+
+export const fromMinutes = (minutes: number): string => {
+    const m = Math.max(0, Math.min(24 * 60 - 1, Math.round(minutes)));
+    return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+export const snapMinutes = (minutes: number): number => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+export const layoutTimeline = (tasks: Task[]): TimelineBlock[] => {
+    const blocks: TimelineBlock[] = tasks
+        .filter(t => t.time)
+        .map(t => {
+            const start = toMinutes(t.time!);
+            return { task: t, start, end: Math.min(24 * 60, start + (t.duration || DEFAULT_DURATION)), column: 0, columns: 1, overlaps: false };
+        })
+        .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    // Sweep through clusters of transitively overlapping blocks
+    let cluster: TimelineBlock[] = [];
+    let clusterEnd = -1;
+    const closeCluster = () => {
+        const columnEnds: number[] = [];
+        cluster.forEach(block => {
+            let column = columnEnds.findIndex(end => end <= block.start);
+            if (column === -1) column = columnEnds.length;
+            columnEnds[column] = block.end;
+            block.column = column;
+        });
+        cluster.forEach(block => {
+            block.columns = columnEnds.length;
+            block.overlaps = cluster.length > 1;
+        });
+        cluster = [];
+    };
+    blocks.forEach(block => {
+        if (block.start >= clusterEnd) closeCluster();
+        cluster.push(block);
+        clusterEnd = Math.max(clusterEnd, block.end);
+    });
+    closeCluster();
+    return blocks;
+};
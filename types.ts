@@ -1,5 +1,60 @@
-export type Category = 'personal' | 'work' | 'health' | 'other';
-export type TaskType = 'one-time' | 'recurring' | 'weekly';
+export type Category = string; // Id of a CategoryDef, see categories.ts
+export type TaskType = 'one-time' | 'recurring' | 'weekly'; // 'weekly' for weekly rules, 'recurring' for every other rule
+export type Priority = 1 | 2 | 3; // 1 is highest
+export type Frequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Repeat pattern for non one-time tasks, modelled on iCalendar RRULE (RFC 5545).
+// The task's dateCreated acts as DTSTART.
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number; // Every N days/weeks/months/years
+  byDay?: number[]; // Weekdays 0 (Sunday) - 6 (Saturday)
+  byMonthDay?: number; // 1-31, or -1 for the last day of the month
+  bySetPos?: number; // With a single byDay: 1-4 for "2nd Tuesday", -1 for "last Friday"
+  byMonth?: number; // 1-12, yearly rules only
+  until?: string; // ISO Date String, inclusive
+  count?: number; // Total number of occurrences
+}
+
+// Per-occurrence changes to a repeating task, keyed by ISO date in Task.overrides
+export interface TaskOverride {
+  text?: string;
+  category?: Category;
+  time?: string | null; // null clears the series time for that day
+  notes?: string;
+  reminders?: number[];
+  subtasks?: Subtask[];
+  duration?: number;
+}
+
+// One step of a task's checklist; ids are unique within the task
+export interface Subtask {
+  id: number;
+  text: string;
+}
+
+// A measurable habit, e.g. 8 glasses a day; see quantity.ts
+export interface QuantityGoal {
+  target: number; // Per occurrence
+  unit: string;   // May be empty
+  step: number;   // What +/- adds or removes
+}
+
+// Details of one finished occurrence, keyed by ISO date in Task.completionLog.
+// The date itself stays in `completions`; older data simply has no record.
+export interface CompletionRecord {
+  at?: string;      // Local YYYY-MM-DDTHH:mm it was checked off
+  minutes?: number; // How long it took
+  note?: string;
+}
+
+// A snoozed occurrence rings again at `until` (local YYYY-MM-DDTHH:mm)
+export interface Snooze {
+  date: string;
+  until: string;
+}
+
+export type EditScope = 'this' | 'following' | 'all';
 
 export interface Task {
   id: number;
@@ -9,15 +64,49 @@ export interface Task {
   dateCreated: string; // ISO Date String YYYY-MM-DD
   completions: string[]; // Array of ISO Date Strings
   hiddenDates: string[]; // Array of ISO Date Strings
-  weeklyDay?: number | null; // 0 (Sunday) - 6 (Saturday)
+  weeklyDay?: number | null; // 0 (Sunday) - 6 (Saturday), kept in sync with recurrence.byDay[0]
+  recurrence?: RecurrenceRule;
   time?: string; // HH:mm 24h format
+  duration?: number; // Minutes, for the timeline; unset means DEFAULT_DURATION
   notes?: string; // Additional details/notes
+  overrides?: Record<string, TaskOverride>; // Single-occurrence edits of a repeating task
+  snooze?: Snooze;
+  snoozeCount?: number; // Lifetime total, for stats
+  reminders?: number[]; // Minutes before `time`; unset means DEFAULT_REMINDERS
+  subtasks?: Subtask[]; // Ordered checklist
+  subtaskChecks?: Record<string, number[]>; // Checked subtask ids per occurrence date
+  tags?: string[]; // Lowercase, without '#'
+  priority?: Priority; // Unset sorts after low
+  dayPositions?: Record<string, number>; // Manual list position per date, see dayOrder.ts
+  goal?: QuantityGoal;
+  amounts?: Record<string, number>; // Logged amount per occurrence date, for tasks with a goal
+  completionLog?: Record<string, CompletionRecord>; // Per completed date, see completionLog.ts
 }
 
-export type ViewMode = 'day' | 'week' | 'history';
+export type ViewMode = 'day' | 'timeline' | 'week' | 'history' | 'search';
 
-export const CATEGORIES: Category[] = ['personal', 'work', 'health', 'other'];
 export const TASK_TYPES: TaskType[] = ['one-time', 'recurring', 'weekly'];
+export const EDIT_SCOPES: { key: EditScope, label: string }[] = [
+    { key: 'this', label: 'This Occurrence' },
+    { key: 'following', label: 'This & Following' },
+    { key: 'all', label: 'All Occurrences' }
+];
+export const DEFAULT_REMINDERS = [0];
+export const REMINDER_OPTIONS: { minutes: number, label: string }[] = [
+    { minutes: 0, label: 'At time' },
+    { minutes: 5, label: '5 min' },
+    { minutes: 15, label: '15 min' },
+    { minutes: 30, label: '30 min' },
+    { minutes: 60, label: '1 hour' },
+    { minutes: 120, label: '2 hours' },
+    { minutes: 1440, label: '1 day' }
+];
+export const PRIORITIES: { value: Priority, label: string }[] = [
+    { value: 1, label: 'High' },
+    { value: 2, label: 'Medium' },
+    { value: 3, label: 'Low' }
+];
+export const FREQUENCIES: Frequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
 export const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
@@ -0,0 +1,137 @@
+import { Task, Category } from './types';
+import { CategoryDef } from './categories';
+
+// --- Undo History ---
+// Entries store only the tasks an action touched (plus list order), so undoing
+// does not roll back changes that arrived from other tabs or devices since.
+// An action that also edits category definitions, like a merge, records those too.
+
+export interface TaskChange {
+    id: number;
+    before: Task | null; // null: the action created it
+    after: Task | null;  // null: the action deleted it
+}
+
+export interface CategoryChange {
+    id: Category;
+    before: CategoryDef | null; // null: the action created it
+    after: CategoryDef | null;  // null: the action removed it
+    index: number; // Position in the list before the action, to put a removed one back
+}
+
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    at: string;
+    changes: TaskChange[];
+    orderBefore: number[];
+    orderAfter: number[];
+    categoryChanges?: CategoryChange[];
+}
+
+export interface UndoHistory {
+    past: HistoryEntry[];   // Oldest first; the last entry is the next undo
+    future: HistoryEntry[]; // Next redo first
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+let entryCounter = 0;
+
+// Returns null when the action changed nothing
+export const createHistoryEntry = (label: string, before: Task[], after: Task[], categoryChanges: CategoryChange[] = []): HistoryEntry | null => {
+    const beforeById = new Map(before.map(t => [t.id, t]));
+    const afterById = new Map(after.map(t => [t.id, t]));
+    const changes: TaskChange[] = [];
+
+    after.forEach(t => {
+        const prev = beforeById.get(t.id);
+        if (!prev || JSON.stringify(prev) !== JSON.stringify(t)) changes.push({ id: t.id, before: prev || null, after: t });
+    });
+    before.forEach(t => {
+        if (!afterById.has(t.id)) changes.push({ id: t.id, before: t, after: null });
+    });
+
+    const orderBefore = before.map(t => t.id);
+    const orderAfter = after.map(t => t.id);
+    if (!changes.length && !categoryChanges.length && JSON.stringify(orderBefore) === JSON.stringify(orderAfter)) return null;
+
+    const entry: HistoryEntry = { id: ++entryCounter, label, at: new Date().toISOString(), changes, orderBefore, orderAfter };
+    if (categoryChanges.length) entry.categoryChanges = categoryChanges;
+    return entry;
+};
+
+// Definitions that differ between two category lists
+export const diffCategories = (before: CategoryDef[], after: CategoryDef[]): CategoryChange[] => {
+    const changes: CategoryChange[] = [];
+    before.forEach((c, index) => {
+        const next = after.find(a => a.id === c.id) || null;
+        if (JSON.stringify(c) !== JSON.stringify(next)) changes.push({ id: c.id, before: c, after: next, index });
+    });
+    after.forEach((c, index) => {
+        if (!before.some(b => b.id === c.id)) changes.push({ id: c.id, before: null, after: c, index });
+    });
+    return changes;
+};
+
+export const applyCategoryChanges = (categories: CategoryDef[], entry: HistoryEntry, direction: 'undo' | 'redo'): CategoryDef[] =>
+    (entry.categoryChanges || []).reduce((list, change) => {
+        const target = direction === 'undo' ? change.before : change.after;
+        if (!target) return list.filter(c => c.id !== change.id);
+        if (list.some(c => c.id === change.id)) return list.map(c => c.id === change.id ? target : c);
+        return [...list.slice(0, change.index), target, ...list.slice(change.index)];
+    }, categories);
+
+// Puts tasks in the recorded order; tasks the order does not know keep their place at the end
+const applyOrder = (tasks: Task[], order: number[]): Task[] => {
+    const position = new Map(order.map((id, i) => [id, i]));
+    return tasks
+        .map((t, i) => ({ t, key: position.has(t.id) ? position.get(t.id)! : order.length + i }))
+        .sort((a, b) => a.key - b.key)
+        .map(({ t }) => t);
+};
+
+export const applyEntry = (tasks: Task[], entry: HistoryEntry, direction: 'undo' | 'redo'): Task[] => {
+    const target = new Map(entry.changes.map(c => [c.id, direction === 'undo' ? c.before : c.after]));
+    const kept = tasks
+        .filter(t => !target.has(t.id) || target.get(t.id))
+        .map(t => target.has(t.id) ? target.get(t.id)! : t);
+    const present = new Set(kept.map(t => t.id));
+    const restored = Array.from(target.values()).filter((t): t is Task => !!t && !present.has(t.id));
+    return applyOrder([...kept, ...restored], direction === 'undo' ? entry.orderBefore : entry.orderAfter);
+};
+
+export const pushEntry = (history: UndoHistory, entry: HistoryEntry): UndoHistory => ({
+    past: [...history.past, entry].slice(-HISTORY_LIMIT),
+    future: []
+});
+
+/**
+ * Undoes (negative steps) or redoes (positive steps) several entries at once.
+ * `entry` is the last one applied, or null if there was nothing to step over.
+ * `categories` comes back with the entries' definition changes applied.
+ */
+export const stepHistory = (history: UndoHistory, tasks: Task[], steps: number, categories: CategoryDef[] = []): { history: UndoHistory, tasks: Task[], categories: CategoryDef[], entry: HistoryEntry | null } => {
+    let { past, future } = history;
+    let entry: HistoryEntry | null = null;
+    for (let i = 0; i < Math.abs(steps); i++) {
+        if (steps < 0) {
+            if (!past.length) break;
+            entry = past[past.length - 1];
+            tasks = applyEntry(tasks, entry, 'undo');
+            categories = applyCategoryChanges(categories, entry, 'undo');
+            past = past.slice(0, -1);
+            future = [entry, ...future];
+        } else {
+            if (!future.length) break;
+            entry = future[0];
+            tasks = applyEntry(tasks, entry, 'redo');
+            categories = applyCategoryChanges(categories, entry, 'redo');
+            future = future.slice(1);
+            past = [...past, entry];
+        }
+    }
+    return { history: { past, future }, tasks, categories, entry };
+};
@@ -1,3 +1,5 @@
+import { getRecurrenceRule, occursOn } from './recurrence';
+
 export const getLocalISO = (date: Date = new Date()): string => {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -5,11 +7,24 @@ export const getLocalISO = (date: Date = new Date()): string => {
     return `${year}-${month}-${day}`;
 };
 
+// Local date and minute as YYYY-MM-DDTHH:mm, which sorts chronologically as a string
+export const getLocalDateTime = (date: Date = new Date()): string =>
+    `${getLocalISO(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
 export const parseLocalDate = (dateStr: string): Date => {
     const [year, month, day] = dateStr.split('-').map(Number);
     return new Date(year, month - 1, day);
 };
 
+export const addDays = (dateStr: string, days: number): string => {
+    const d = parseLocalDate(dateStr);
+    d.setDate(d.getDate() + days);
+    return getLocalISO(d);
+};
+
+// The Sunday on or before `dateStr`, matching the calendar's first column
+export const getWeekStart = (dateStr: string): string => addDays(dateStr, -parseLocalDate(dateStr).getDay());
+
 export const escapeHtml = (text: string): string => {
     if (!text) return '';
     return text
@@ -30,24 +45,21 @@ export const shouldShowTask = (task: any, dateStr: string): boolean => {
         if (dateStr === todayStr && task.dateCreated < todayStr && !task.completions.includes(task.dateCreated)) return true;
         return false;
     }
-    if (task.type === 'recurring') {
-        return task.dateCreated <= dateStr;
-    }
-    if (task.type === 'weekly') {
-        const d = parseLocalDate(dateStr);
-        return task.weeklyDay === d.getDay() && task.dateCreated <= dateStr;
-    }
+    const rule = getRecurrenceRule(task);
+    if (rule) return occursOn(rule, task.dateCreated, dateStr);
     return false;
 };
 
 export interface TimeParseResult {
     text: string;
     time: string | undefined;
+    matched?: string; // The exact fragment that was recognised as a time
 }
 
 export const extractTimeFromText = (input: string): TimeParseResult => {
     let cleanText = input;
     let detectedTime: string | undefined;
+    let matchedText: string | undefined;
 
     // Helper to format HH:mm
     const format = (h: number, m: number): string | undefined => {
@@ -111,6 +123,7 @@ export const extractTimeFromText = (input: string): TimeParseResult => {
             const t = handler(match);
             if (t) {
                 detectedTime = t;
+                matchedText = match[0];
                 // Remove the matched time string from text
                 // We use replace to remove the first occurrence
                 cleanText = input.replace(match[0], '').replace(/\s+/g, ' ').trim();
@@ -119,5 +132,18 @@ export const extractTimeFromText = (input: string): TimeParseResult => {
         }
     }
 
-    return { text: cleanText, time: detectedTime };
+    return { text: cleanText, time: detectedTime, matched: matchedText };
+};
+
+// Saves generated content (backups, calendar files) through a temporary download link
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
 };
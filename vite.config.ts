@@ -1,7 +1,28 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes the emitted bundle files and a build id into public/sw.js, so a fresh
+// install can work offline and each deploy gets its own cache
+const precacheServiceWorker = (): Plugin => ({
+    name: 'moti-precache-sw',
+    apply: 'build',
+    writeBundle(options, bundle) {
+        const file = path.join(options.dir!, 'sw.js');
+        if (!fs.existsSync(file)) return;
+        const assets = Object.keys(bundle).filter(name => !name.endsWith('.html') && !name.endsWith('.map')).sort().map(name => `/${name}`);
+        const build = crypto.createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 10);
+        const source = fs.readFileSync(file, 'utf8');
+        const next = source
+            .replace("const BUILD = 'dev';", `const BUILD = '${build}';`)
+            .replace('const ASSETS = [];', `const ASSETS = ${JSON.stringify(assets)};`);
+        if (!next.includes(build) || !next.includes(JSON.stringify(assets))) this.error('sw.js is missing the BUILD or ASSETS placeholder');
+        fs.writeFileSync(file, next);
+    }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +30,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheServiceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)